@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// pattern: Imperative Shell
+
+import { main } from "./index.js";
+
+process.exitCode = await main(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+});
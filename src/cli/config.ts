@@ -0,0 +1,119 @@
+// pattern: Imperative Shell
+
+import { basename, dirname, extname, relative, resolve } from "node:path";
+import { Result, err, ok } from "neverthrow";
+import type { ResultAsync } from "neverthrow";
+import { validateConfig } from "../config.js";
+import { validationError, type ValidationError } from "../errors.js";
+import type { ContainerfileConfig } from "../types.js";
+import { expandGlob, isGlob } from "./glob.js";
+import { importModule, loadError, type LoadError } from "./load.js";
+
+/**
+ * Config file looked up in the working directory when --config is not given
+ */
+export const DEFAULT_CONFIG_PATH = "containerfile.config.ts";
+
+/**
+ * One generator module to render and the Dockerfile it renders to.
+ * Paths are relative to the CLI's working directory.
+ */
+export type GeneratorTarget = {
+  readonly modulePath: string;
+  readonly output: string;
+  readonly exportName: string | undefined;
+  readonly buildArgs: Readonly<Record<string, string>>;
+};
+
+/**
+ * Import a config file and validate its default export.
+ *
+ * @param path - Config file path, resolved against `cwd`
+ * @param cwd - Directory relative paths are resolved from
+ * @param onImport - Called with each local file imported, for watch mode
+ * @returns The config, or a LoadError listing invalid fields
+ */
+export function loadConfig(
+  path: string,
+  cwd: string,
+  onImport?: (path: string) => void,
+): ResultAsync<ContainerfileConfig, LoadError> {
+  return importModule(path, cwd, onImport).andThen((exports) =>
+    validateConfig(exports["default"]).mapErr((errors) =>
+      loadError(path, "invalid config", errors),
+    ),
+  );
+}
+
+/**
+ * Expand `{dir}` and `{name}` in an output template for one module
+ */
+function expandOutput(template: string, modulePath: string): string {
+  const name = basename(modulePath, extname(modulePath));
+  return template.replaceAll("{dir}", dirname(modulePath)).replaceAll("{name}", name);
+}
+
+/**
+ * Expand a config's generator entries into targets: glob modules are matched
+ * against the file system, and every path is made relative to `cwd`.
+ * A glob matching nothing, or two targets writing one file, is an error.
+ *
+ * @param config - Validated config
+ * @param configPath - Config file path, relative to `cwd`; entries are relative to its directory
+ * @param cwd - CLI working directory
+ * @returns The targets in config order, or a LoadError for the config file
+ */
+export async function resolveTargets(
+  config: ContainerfileConfig,
+  configPath: string,
+  cwd: string,
+): Promise<Result<Array<GeneratorTarget>, LoadError>> {
+  const configDirectory = dirname(resolve(cwd, configPath));
+  const expanded = await Promise.all(
+    config.generators.map(
+      async (entry, i): Promise<Result<Array<GeneratorTarget>, Array<ValidationError>>> => {
+        const modules = isGlob(entry.module)
+          ? await expandGlob(entry.module, configDirectory)
+          : [entry.module];
+        if (modules.length === 0) {
+          return err([
+            validationError(`generators[${i}].module`, "matches no files", entry.module),
+          ]);
+        }
+        return ok(
+          modules.map((modulePath) => ({
+            modulePath: relative(cwd, resolve(configDirectory, modulePath)),
+            output: relative(cwd, resolve(configDirectory, expandOutput(entry.output, modulePath))),
+            exportName: entry.export,
+            buildArgs: entry.buildArgs ?? {},
+          })),
+        );
+      },
+    ),
+  );
+
+  return Result.combineWithAllErrors(expanded)
+    .mapErr((errors) => errors.flat())
+    .andThen((targetLists) => {
+      const writers = new Map<string, number>();
+      const errors: Array<ValidationError> = [];
+      targetLists.forEach((targets, i) => {
+        for (const target of targets) {
+          const previous = writers.get(target.output);
+          if (previous !== undefined) {
+            errors.push(
+              validationError(
+                `generators[${i}].output`,
+                `${target.modulePath} writes the same file as generators[${previous}]`,
+                target.output,
+              ),
+            );
+          } else {
+            writers.set(target.output, i);
+          }
+        }
+      });
+      return errors.length > 0 ? err(errors) : ok(targetLists.flat());
+    })
+    .mapErr((errors) => loadError(configPath, "invalid config", errors));
+}
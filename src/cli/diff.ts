@@ -0,0 +1,148 @@
+// pattern: Functional Core
+
+/**
+ * Options for unifiedDiff()
+ */
+export type DiffOptions = {
+  /** Label of the old text in the `---` header */
+  readonly fromFile: string;
+  /** Label of the new text in the `+++` header */
+  readonly toFile: string;
+  /** Unchanged lines shown around each change. Default: 3 */
+  readonly context?: number;
+};
+
+type Edit = {
+  readonly kind: " " | "-" | "+";
+  readonly text: string;
+  // 0-based positions in the old and new text before this edit
+  readonly oldIndex: number;
+  readonly newIndex: number;
+};
+
+// GNU diff's marker for a last line without a newline
+const NO_NEWLINE = "\\ No newline at end of file";
+
+/**
+ * Split text into lines that keep their newline, so a last line without one
+ * differs from the same line with one
+ */
+function splitLines(text: string): Array<string> {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function formatLine(edit: Edit): string {
+  return edit.text.endsWith("\n")
+    ? `${edit.kind}${edit.text.slice(0, -1)}`
+    : `${edit.kind}${edit.text}\n${NO_NEWLINE}`;
+}
+
+/**
+ * Line edit script from a longest common subsequence table.
+ * Dockerfiles are short, so the quadratic table is fine.
+ */
+function editScript(oldLines: ReadonlyArray<string>, newLines: ReadonlyArray<string>): Array<Edit> {
+  const n = oldLines.length;
+  const m = newLines.length;
+  // lcs[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldLines[i] === newLines[j]
+          ? (lcs[(i + 1) * (m + 1) + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j] ?? 0, lcs[i * (m + 1) + j + 1] ?? 0);
+    }
+  }
+
+  const edits: Array<Edit> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      edits.push({ kind: " ", text: oldLines[i] ?? "", oldIndex: i++, newIndex: j++ });
+    } else if (
+      i < n &&
+      (j === m || (lcs[(i + 1) * (m + 1) + j] ?? 0) >= (lcs[i * (m + 1) + j + 1] ?? 0))
+    ) {
+      // Prefer deletions on ties so removed lines print before their replacements
+      edits.push({ kind: "-", text: oldLines[i] ?? "", oldIndex: i++, newIndex: j });
+    } else {
+      edits.push({ kind: "+", text: newLines[j] ?? "", oldIndex: i, newIndex: j++ });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Hunk range in `start,count` form; a single line omits the count and an empty
+ * range starts at the line before it, as in GNU diff
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start},0`;
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+function formatHunk(edits: ReadonlyArray<Edit>): string {
+  const [first] = edits;
+  if (first === undefined) {
+    return "";
+  }
+  const oldCount = edits.filter((edit) => edit.kind !== "+").length;
+  const newCount = edits.filter((edit) => edit.kind !== "-").length;
+  const header = `@@ -${formatRange(first.oldIndex, oldCount)} +${formatRange(first.newIndex, newCount)} @@`;
+  return [header, ...edits.map(formatLine)].join("\n");
+}
+
+/**
+ * Produce a unified diff between two texts, compared line by line. A last line
+ * without a newline is marked as in GNU diff.
+ *
+ * @param oldText - Original text, e.g. the committed Dockerfile
+ * @param newText - Changed text, e.g. the freshly rendered Dockerfile
+ * @param options - Header labels and context size
+ * @returns The diff, or an empty string when the texts are identical
+ *
+ * @example
+ * ```typescript
+ * unifiedDiff("FROM alpine\nRUN a\n", "FROM alpine\nRUN b\n", {
+ *   fromFile: "Dockerfile",
+ *   toFile: "Dockerfile (generated)",
+ * });
+ * // --- Dockerfile
+ * // +++ Dockerfile (generated)
+ * // @@ -1,2 +1,2 @@
+ * //  FROM alpine
+ * // -RUN a
+ * // +RUN b
+ * ```
+ */
+export function unifiedDiff(oldText: string, newText: string, options: DiffOptions): string {
+  const context = options.context ?? 3;
+  const edits = editScript(splitLines(oldText), splitLines(newText));
+  const changes = edits.flatMap((edit, index) => (edit.kind === " " ? [] : [index]));
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context windows touch or overlap into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(edits.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last !== undefined && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  return [
+    `--- ${options.fromFile}`,
+    `+++ ${options.toFile}`,
+    ...hunks.map(([start, end]) => formatHunk(edits.slice(start, end))),
+  ].join("\n");
+}
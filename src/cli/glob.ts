@@ -0,0 +1,114 @@
+// pattern: Imperative Shell
+
+import { readdir, stat } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+
+// Directories never searched by `**`, besides hidden ones
+const SKIPPED_DIRECTORIES = new Set(["node_modules"]);
+
+/**
+ * True if the pattern contains glob syntax rather than naming a single file
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/**
+ * Convert one path segment of a glob (`*` and `?` wildcards) to a RegExp
+ */
+function segmentPattern(segment: string): RegExp {
+  const source = segment
+    .split("")
+    .map((ch) => {
+      if (ch === "*") {
+        return "[^/]*";
+      }
+      if (ch === "?") {
+        return "[^/]";
+      }
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+async function listDirectory(directory: string) {
+  try {
+    return await readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+async function expandSegments(
+  directory: string,
+  relative: string,
+  segments: ReadonlyArray<string>,
+): Promise<Array<string>> {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return [];
+  }
+
+  if (!isGlob(segment)) {
+    const path = join(directory, segment);
+    if (rest.length > 0) {
+      return expandSegments(path, join(relative, segment), rest);
+    }
+    const info = await stat(path).catch(() => null);
+    return info?.isFile() === true ? [join(relative, segment)] : [];
+  }
+
+  const entries = await listDirectory(directory);
+  if (segment === "**") {
+    // `**` matches zero directories, or descends one level and stays in place
+    const here = await expandSegments(directory, relative, rest);
+    const nested = await Promise.all(
+      entries
+        .filter(
+          (entry) =>
+            entry.isDirectory() &&
+            !entry.name.startsWith(".") &&
+            !SKIPPED_DIRECTORIES.has(entry.name),
+        )
+        .map((entry) =>
+          expandSegments(join(directory, entry.name), join(relative, entry.name), segments),
+        ),
+    );
+    return [...here, ...nested.flat()];
+  }
+
+  const pattern = segmentPattern(segment);
+  const matches = entries.filter(
+    (entry) => pattern.test(entry.name) && (segment.startsWith(".") || !entry.name.startsWith(".")),
+  );
+  if (rest.length === 0) {
+    return matches.filter((entry) => entry.isFile()).map((entry) => join(relative, entry.name));
+  }
+  const nested = await Promise.all(
+    matches
+      .filter((entry) => entry.isDirectory())
+      .map((entry) =>
+        expandSegments(join(directory, entry.name), join(relative, entry.name), rest),
+      ),
+  );
+  return nested.flat();
+}
+
+/**
+ * Find the files matching a glob pattern.
+ *
+ * Supports `*` and `?` within a path segment and `**` for any number of
+ * directories. Hidden entries only match segments starting with ".", and
+ * `**` does not search hidden directories or `node_modules`.
+ *
+ * @param pattern - Pattern using "/" separators, absolute or relative to `cwd`
+ * @param cwd - Directory relative patterns are resolved from
+ * @returns Matching file paths, relative to `cwd` for relative patterns, sorted
+ */
+export async function expandGlob(pattern: string, cwd: string): Promise<Array<string>> {
+  const base = isAbsolute(pattern) ? "/" : "";
+  const segments = pattern.split("/").filter((segment) => segment !== "" && segment !== ".");
+  const matches = await expandSegments(base !== "" ? base : cwd, base, segments);
+  return [...new Set(matches)].sort();
+}
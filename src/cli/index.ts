@@ -0,0 +1,493 @@
+// pattern: Imperative Shell
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { err, type Result } from "neverthrow";
+import { withBuildArgs } from "../config.js";
+import { lint, type Diagnostic, type LintOptions } from "../lint/index.js";
+import { render } from "../render.js";
+import { DEFAULT_CONFIG_PATH, loadConfig, resolveTargets, type GeneratorTarget } from "./config.js";
+import { unifiedDiff } from "./diff.js";
+import {
+  formatLoadError,
+  loadError,
+  loadGenerator,
+  type LoadError,
+  type LoadedGenerator,
+} from "./load.js";
+import { watchFiles } from "./watch.js";
+
+/**
+ * Where the CLI reads and writes; process streams in bin.ts, buffers in tests
+ */
+export type CliIo = {
+  readonly cwd: string;
+  readonly stdout: (text: string) => void;
+  readonly stderr: (text: string) => void;
+  /** Ends `generate --watch`; without it, watching runs until the process exits */
+  readonly signal?: AbortSignal;
+};
+
+/**
+ * Process exit codes: success, failed generation, bad usage
+ */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+const USAGE = `Usage: containerfile-ts <command> [options]
+
+Commands:
+  render <module>   Render a generator module to a Dockerfile
+  check [<module>]  Fail with a diff if a Dockerfile differs from its rendered
+                    module; checks every configured generator without <module>
+  generate          Render every generator listed in the config file
+  lint [<module>]   Report problems in a generator module; lints every
+                    configured generator, with the config's rules, without <module>
+
+Options:
+  -o, --output <file>   Dockerfile to write (render) or compare against (check);
+                        render writes to stdout without it
+  -e, --export <name>   Export to render (default: the default export, or the
+                        only export holding a Containerfile or Result)
+  -c, --config <file>   Config file (default: ${DEFAULT_CONFIG_PATH})
+  -w, --watch           Regenerate when a generator or its imports change
+  -h, --help            Show this help
+`;
+
+type Command = (args: ReadonlyArray<string>, io: CliIo) => Promise<number>;
+
+/**
+ * Output of one target, printed in target order once all targets finish
+ */
+type Report = {
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly failed: boolean;
+};
+
+function printReports(reports: ReadonlyArray<Report>, io: CliIo): number {
+  for (const report of reports) {
+    if (report.stdout !== "") {
+      io.stdout(report.stdout);
+    }
+    if (report.stderr !== "") {
+      io.stderr(report.stderr);
+    }
+  }
+  return reports.some((report) => report.failed) ? EXIT_FAILURE : EXIT_OK;
+}
+
+function failure(error: LoadError): Report {
+  return { stdout: "", stderr: `${formatLoadError(error)}\n`, failed: true };
+}
+
+/**
+ * Report a target whose Dockerfile could not be read or written
+ */
+function fileFailure(output: string, e: unknown): Report {
+  const message = e instanceof Error ? e.message : String(e);
+  return { stdout: "", stderr: `${output}: ${message}\n`, failed: true };
+}
+
+/**
+ * Load a target's generator module and apply its build args.
+ * `dependencies` collects the module and every local file it imports.
+ */
+async function loadTarget(
+  target: GeneratorTarget,
+  cwd: string,
+  dependencies: Set<string>,
+): Promise<Result<LoadedGenerator, LoadError>> {
+  dependencies.add(resolve(cwd, target.modulePath));
+  const loaded = await loadGenerator(target.modulePath, cwd, {
+    exportName: target.exportName,
+    onImport: (path) => dependencies.add(path),
+  });
+  return loaded.andThen((generator) =>
+    withBuildArgs(generator.containerfile, target.buildArgs)
+      .mapErr((errors) => loadError(target.modulePath, "invalid build args", errors))
+      .map((containerfile) => ({ ...generator, containerfile })),
+  );
+}
+
+/**
+ * Load and render a target's generator module.
+ * Output ends with a newline unless the module's renderOptions say otherwise.
+ */
+async function renderTarget(
+  target: GeneratorTarget,
+  cwd: string,
+  dependencies: Set<string> = new Set(),
+): Promise<Result<string, LoadError>> {
+  return (await loadTarget(target, cwd, dependencies)).map(({ containerfile, renderOptions }) =>
+    render(containerfile, { trailingNewline: true, ...renderOptions }),
+  );
+}
+
+async function readExisting(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (e) {
+    if (e instanceof Error && "code" in e && e.code === "ENOENT") {
+      return null;
+    }
+    throw e;
+  }
+}
+
+async function writeDockerfile(path: string, dockerfile: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, dockerfile, "utf-8");
+}
+
+/**
+ * Load the config file and expand its entries, reporting errors on stderr.
+ * Also returns the config's lint options.
+ */
+async function configTargets(
+  configPath: string,
+  io: CliIo,
+  dependencies: Set<string> = new Set(),
+): Promise<{
+  readonly targets: Array<GeneratorTarget>;
+  readonly lintOptions: LintOptions | undefined;
+} | null> {
+  dependencies.add(resolve(io.cwd, configPath));
+  const config = await loadConfig(configPath, io.cwd, (path) => dependencies.add(path));
+  const resolved = config.isOk()
+    ? (await resolveTargets(config.value, configPath, io.cwd)).map((targets) => ({
+        targets,
+        lintOptions: config.value.lint,
+      }))
+    : err(config.error);
+  if (resolved.isErr()) {
+    io.stderr(`${formatLoadError(resolved.error)}\n`);
+    return null;
+  }
+  return resolved.value;
+}
+
+async function renderCommand(args: ReadonlyArray<string>, io: CliIo): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      export: { type: "string", short: "e" },
+    },
+  });
+  const [modulePath, ...extra] = positionals;
+  if (modulePath === undefined || extra.length > 0) {
+    io.stderr(`render expects exactly one module path\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const target = { modulePath, output: "", exportName: values.export, buildArgs: {} };
+  const dockerfile = await renderTarget(target, io.cwd);
+  if (dockerfile.isErr()) {
+    return printReports([failure(dockerfile.error)], io);
+  }
+  if (values.output === undefined) {
+    io.stdout(dockerfile.value);
+  } else {
+    await writeDockerfile(resolve(io.cwd, values.output), dockerfile.value);
+  }
+  return EXIT_OK;
+}
+
+async function checkTarget(target: GeneratorTarget, cwd: string, fix: string): Promise<Report> {
+  const dockerfile = await renderTarget(target, cwd);
+  if (dockerfile.isErr()) {
+    return failure(dockerfile.error);
+  }
+  const { modulePath, output } = target;
+  let existing: string | null;
+  try {
+    existing = await readExisting(resolve(cwd, output));
+  } catch (e) {
+    return fileFailure(output, e);
+  }
+  if (existing === null) {
+    return { stdout: "", stderr: `${output}: missing; run \`${fix}\`\n`, failed: true };
+  }
+  // Compare the exact text, so a missing final newline is drift too
+  if (existing === dockerfile.value) {
+    return { stdout: `${output}: up to date\n`, stderr: "", failed: false };
+  }
+  const diff = unifiedDiff(existing, dockerfile.value, {
+    fromFile: output,
+    toFile: `${output} (rendered from ${modulePath})`,
+  });
+  return { stdout: `${diff}\n`, stderr: `${output}: out of date; run \`${fix}\`\n`, failed: true };
+}
+
+async function checkCommand(args: ReadonlyArray<string>, io: CliIo): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      export: { type: "string", short: "e" },
+      config: { type: "string", short: "c" },
+    },
+  });
+  const [modulePath, ...extra] = positionals;
+  if (modulePath === undefined) {
+    if (values.output !== undefined || values.export !== undefined) {
+      io.stderr(`--output and --export need a module path\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    const config = await configTargets(values.config ?? DEFAULT_CONFIG_PATH, io);
+    if (config === null) {
+      return EXIT_FAILURE;
+    }
+    const fix = `containerfile-ts generate${values.config !== undefined ? ` -c ${values.config}` : ""}`;
+    return printReports(
+      await Promise.all(config.targets.map((target) => checkTarget(target, io.cwd, fix))),
+      io,
+    );
+  }
+  if (values.output === undefined || extra.length > 0 || values.config !== undefined) {
+    io.stderr(`check expects one module path and --output <file>\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const target = { modulePath, output: values.output, exportName: values.export, buildArgs: {} };
+  const fix = `containerfile-ts render ${modulePath} -o ${values.output}`;
+  return printReports([await checkTarget(target, io.cwd, fix)], io);
+}
+
+/**
+ * Render a target and write its Dockerfile if the contents changed
+ */
+async function generateTarget(
+  target: GeneratorTarget,
+  cwd: string,
+  dependencies: Set<string>,
+): Promise<Report> {
+  const dockerfile = await renderTarget(target, cwd, dependencies);
+  if (dockerfile.isErr()) {
+    return failure(dockerfile.error);
+  }
+  const outputPath = resolve(cwd, target.output);
+  try {
+    if ((await readExisting(outputPath)) === dockerfile.value) {
+      return { stdout: `${target.output}: unchanged\n`, stderr: "", failed: false };
+    }
+    await writeDockerfile(outputPath, dockerfile.value);
+  } catch (e) {
+    return fileFailure(target.output, e);
+  }
+  return { stdout: `${target.output}: written\n`, stderr: "", failed: false };
+}
+
+/**
+ * Generated targets with the files each one imported, for watch mode
+ */
+type Generation = {
+  readonly configDependencies: ReadonlySet<string>;
+  readonly targets: ReadonlyArray<GeneratorTarget>;
+  readonly dependencies: Map<GeneratorTarget, Set<string>>;
+};
+
+async function generateTargets(
+  targets: ReadonlyArray<GeneratorTarget>,
+  io: CliIo,
+  dependencies: Map<GeneratorTarget, Set<string>>,
+): Promise<number> {
+  const reports = await Promise.all(
+    targets.map((target) => {
+      const targetDependencies = new Set<string>();
+      dependencies.set(target, targetDependencies);
+      return generateTarget(target, io.cwd, targetDependencies);
+    }),
+  );
+  return printReports(reports, io);
+}
+
+async function generateFromConfig(
+  configPath: string,
+  io: CliIo,
+): Promise<{ readonly code: number; readonly generation: Generation }> {
+  const configDependencies = new Set<string>();
+  const config = await configTargets(configPath, io, configDependencies);
+  const dependencies = new Map<GeneratorTarget, Set<string>>();
+  const code =
+    config === null ? EXIT_FAILURE : await generateTargets(config.targets, io, dependencies);
+  return {
+    code,
+    generation: { configDependencies, targets: config?.targets ?? [], dependencies },
+  };
+}
+
+function watchedFiles(generation: Generation): Array<string> {
+  return [
+    ...generation.configDependencies,
+    ...[...generation.dependencies.values()].flatMap((files) => [...files]),
+  ];
+}
+
+async function generateCommand(args: ReadonlyArray<string>, io: CliIo): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      watch: { type: "boolean", short: "w" },
+    },
+  });
+  if (positionals.length > 0) {
+    io.stderr(`generate takes no module paths; list them in the config file\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const configPath = values.config ?? DEFAULT_CONFIG_PATH;
+  const initial = await generateFromConfig(configPath, io);
+  if (values.watch !== true) {
+    return initial.code;
+  }
+
+  // Regenerate only the targets that imported a changed file; a change to the
+  // config or its imports reloads the config and regenerates everything
+  let generation = initial.generation;
+  await watchFiles(
+    watchedFiles(generation),
+    async (changed) => {
+      const touches = (files: ReadonlySet<string>) => [...changed].some((path) => files.has(path));
+      if (touches(generation.configDependencies)) {
+        generation = (await generateFromConfig(configPath, io)).generation;
+      } else {
+        const affected = generation.targets.filter((target) =>
+          touches(generation.dependencies.get(target) ?? new Set()),
+        );
+        await generateTargets(affected, io, generation.dependencies);
+      }
+      return watchedFiles(generation);
+    },
+    {
+      signal: io.signal,
+      onReady: () => io.stdout("Watching for changes (Ctrl+C to stop)\n"),
+      onError: (e) => io.stderr(`watch: ${e instanceof Error ? e.message : String(e)}\n`),
+    },
+  );
+  return EXIT_OK;
+}
+
+function formatDiagnostic(modulePath: string, diagnostic: Diagnostic): string {
+  const { location, severity, message, ruleId, fix } = diagnostic;
+  const line = `${modulePath}: ${location}: ${severity}: ${message} (${ruleId})\n`;
+  return fix === null ? line : `${line}  fix: ${fix.description}\n`;
+}
+
+async function lintTarget(
+  target: GeneratorTarget,
+  cwd: string,
+  options: LintOptions | undefined,
+): Promise<Report & { readonly diagnostics: ReadonlyArray<Diagnostic> }> {
+  const loaded = await loadTarget(target, cwd, new Set());
+  if (loaded.isErr()) {
+    return { ...failure(loaded.error), diagnostics: [] };
+  }
+  const diagnostics = lint(loaded.value.containerfile, options);
+  return {
+    stdout: diagnostics
+      .map((diagnostic) => formatDiagnostic(target.modulePath, diagnostic))
+      .join(""),
+    stderr: "",
+    failed: diagnostics.some((diagnostic) => diagnostic.severity === "error"),
+    diagnostics,
+  };
+}
+
+function lintSummary(diagnostics: ReadonlyArray<Diagnostic>): string {
+  if (diagnostics.length === 0) {
+    return "No problems found\n";
+  }
+  const counts = (["error", "warning", "info"] as const).flatMap((severity) => {
+    const count = diagnostics.filter((diagnostic) => diagnostic.severity === severity).length;
+    return count === 0
+      ? []
+      : [`${count} ${severity}${count === 1 || severity === "info" ? "" : "s"}`];
+  });
+  const fixable = diagnostics.filter((diagnostic) => diagnostic.fix !== null).length;
+  return `${counts.join(", ")}${fixable > 0 ? ` (${fixable} with a fix)` : ""}\n`;
+}
+
+async function lintCommand(args: ReadonlyArray<string>, io: CliIo): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      export: { type: "string", short: "e" },
+      config: { type: "string", short: "c" },
+    },
+  });
+  const [modulePath, ...extra] = positionals;
+  if (extra.length > 0) {
+    io.stderr(`lint expects at most one module path\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (modulePath === undefined && values.export !== undefined) {
+    io.stderr(`--export needs a module path\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  // A module on the command line uses the recommended rules unless a config
+  // file is named; without one, every configured generator is linted
+  let targets: ReadonlyArray<GeneratorTarget> = [];
+  let options: LintOptions | undefined;
+  if (modulePath === undefined || values.config !== undefined) {
+    const config = await configTargets(values.config ?? DEFAULT_CONFIG_PATH, io);
+    if (config === null) {
+      return EXIT_FAILURE;
+    }
+    targets = config.targets;
+    options = config.lintOptions;
+  }
+  if (modulePath !== undefined) {
+    targets = [{ modulePath, output: "", exportName: values.export, buildArgs: {} }];
+  }
+
+  const reports = await Promise.all(targets.map((target) => lintTarget(target, io.cwd, options)));
+  const code = printReports(reports, io);
+  io.stdout(lintSummary(reports.flatMap((report) => report.diagnostics)));
+  return code;
+}
+
+const commands: Record<string, Command> = {
+  render: renderCommand,
+  check: checkCommand,
+  generate: generateCommand,
+  lint: lintCommand,
+};
+
+/**
+ * Run the containerfile-ts command line.
+ *
+ * @param argv - Arguments after the executable, e.g. `["render", "app.ts", "-o", "Dockerfile"]`
+ * @param io - Working directory and output streams
+ * @returns The process exit code
+ */
+export async function main(argv: ReadonlyArray<string>, io: CliIo): Promise<number> {
+  const [commandName, ...args] = argv;
+  if (commandName === undefined || commandName === "-h" || commandName === "--help") {
+    (commandName === undefined ? io.stderr : io.stdout)(USAGE);
+    return commandName === undefined ? EXIT_USAGE : EXIT_OK;
+  }
+  const command = commands[commandName];
+  if (command === undefined) {
+    io.stderr(`unknown command "${commandName}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (args.includes("-h") || args.includes("--help")) {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+  try {
+    return await command(args, io);
+  } catch (e) {
+    io.stderr(`${e instanceof Error ? e.message : String(e)}\n`);
+    return e instanceof TypeError && "code" in e && String(e.code).startsWith("ERR_PARSE_ARGS")
+      ? EXIT_USAGE
+      : EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,235 @@
+// pattern: Imperative Shell
+
+import { resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { tsImport } from "tsx/esm/api";
+import { Result, ResultAsync, err, ok } from "neverthrow";
+import { validationError, type ValidationError } from "../errors.js";
+import { validateBoolean, validateNonNegativeInteger, validateOptional } from "../schemas/index.js";
+import type { Containerfile, RenderOptions } from "../types.js";
+
+/**
+ * A generator module's Containerfile together with the render options it exports
+ */
+export type LoadedGenerator = {
+  readonly path: string;
+  readonly containerfile: Containerfile;
+  readonly renderOptions: RenderOptions | undefined;
+};
+
+/**
+ * Failure to load a generator module or obtain a valid Containerfile from it.
+ * `errors` holds the ValidationErrors of an `Err` result export.
+ */
+export type LoadError = {
+  readonly path: string;
+  readonly message: string;
+  readonly errors: ReadonlyArray<ValidationError>;
+};
+
+/**
+ * Create a LoadError with consistent structure
+ */
+export function loadError(
+  path: string,
+  message: string,
+  errors: ReadonlyArray<ValidationError> = [],
+): LoadError {
+  return { path, message, errors };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// Structural checks: the module may use its own copy of the library or neverthrow
+function isContainerfile(value: unknown): value is Containerfile {
+  return (
+    isRecord(value) &&
+    (value["directives"] === undefined || Array.isArray(value["directives"])) &&
+    (Array.isArray(value["instructions"]) || Array.isArray(value["stages"]))
+  );
+}
+
+function isResult(value: unknown): value is Result<unknown, unknown> {
+  return isRecord(value) && typeof value["isOk"] === "function" && "isErr" in value;
+}
+
+function isValidationError(value: unknown): value is ValidationError {
+  return (
+    isRecord(value) && typeof value["field"] === "string" && typeof value["message"] === "string"
+  );
+}
+
+/**
+ * Pick the export to render: the named one, else `default`, else the only
+ * export holding a Containerfile or Result
+ */
+function selectExport(
+  path: string,
+  exports: Record<string, unknown>,
+  exportName: string | undefined,
+): Result<[string, unknown], LoadError> {
+  if (exportName !== undefined) {
+    return Object.hasOwn(exports, exportName)
+      ? ok([exportName, exports[exportName]])
+      : err(loadError(path, `module has no export named "${exportName}"`));
+  }
+  if (exports["default"] !== undefined) {
+    return ok(["default", exports["default"]]);
+  }
+  const candidates = Object.entries(exports).filter(
+    ([, value]) => isContainerfile(value) || isResult(value),
+  );
+  const [first] = candidates;
+  if (first === undefined) {
+    return err(loadError(path, "module exports no Containerfile or Result"));
+  }
+  if (candidates.length > 1) {
+    const names = candidates.map(([name]) => name).join(", ");
+    return err(
+      loadError(path, `module exports several Containerfiles (${names}); choose one with --export`),
+    );
+  }
+  return ok(first);
+}
+
+/**
+ * Unwrap a Result export and check that the value is a Containerfile
+ */
+function toContainerfile(
+  path: string,
+  name: string,
+  value: unknown,
+): Result<Containerfile, LoadError> {
+  if (isResult(value)) {
+    if (value.isErr()) {
+      const errors = Array.isArray(value.error) ? value.error : [value.error];
+      return err(
+        loadError(
+          path,
+          `export "${name}" is an Err result`,
+          errors.map((e) =>
+            isValidationError(e) ? e : { field: "", message: String(e), value: e },
+          ),
+        ),
+      );
+    }
+    return toContainerfile(path, name, value.value);
+  }
+  return isContainerfile(value)
+    ? ok(value)
+    : err(loadError(path, `export "${name}" is not a Containerfile or Result`));
+}
+
+/**
+ * Options for loading a module
+ */
+export type LoadOptions = {
+  /** Export to use; see loadGenerator() */
+  readonly exportName?: string;
+  /** Called with the absolute path of every local file the module imports, itself included */
+  readonly onImport?: (path: string) => void;
+};
+
+/**
+ * Import a TypeScript or JavaScript module and return its exports.
+ *
+ * @param path - Module path, resolved against `cwd`
+ * @param cwd - Directory relative paths are resolved from
+ * @param onImport - Called with each local file imported, for watch mode
+ * @returns The module's exports, or a LoadError
+ */
+export function importModule(
+  path: string,
+  cwd: string,
+  onImport?: (path: string) => void,
+): ResultAsync<Record<string, unknown>, LoadError> {
+  const absolutePath = resolve(cwd, path);
+  return ResultAsync.fromPromise(
+    tsImport(pathToFileURL(absolutePath).href, {
+      parentURL: import.meta.url,
+      onImport: (url) => {
+        if (onImport !== undefined && url.startsWith("file:") && !url.includes("/node_modules/")) {
+          onImport(fileURLToPath(url));
+        }
+      },
+    }) as Promise<Record<string, unknown>>,
+    (e) => loadError(path, `cannot load module: ${e instanceof Error ? e.message : String(e)}`),
+  ).map((namespace) =>
+    // Outside "type": "module" packages the module is compiled to CommonJS and
+    // its exports arrive as the default export
+    isRecord(namespace["default"]) && namespace["default"]["__esModule"] === true
+      ? namespace["default"]
+      : namespace,
+  );
+}
+
+/**
+ * Check a module's `renderOptions` export before it reaches render()
+ */
+function toRenderOptions(
+  path: string,
+  value: unknown,
+): Result<RenderOptions | undefined, LoadError> {
+  if (value === undefined) {
+    return ok(undefined);
+  }
+  if (!isRecord(value) || Array.isArray(value)) {
+    return err(
+      loadError(path, 'export "renderOptions" is not valid', [
+        validationError("renderOptions", "must be an object", value),
+      ]),
+    );
+  }
+  const counts = ["lineWidth", "indent", "blankLinesBetweenStages", "blankLinesBetweenGroups"];
+  return Result.combineWithAllErrors([
+    ...counts.map((key) =>
+      validateOptional(value[key], validateNonNegativeInteger, `renderOptions.${key}`),
+    ),
+    validateOptional(value["trailingNewline"], validateBoolean, "renderOptions.trailingNewline"),
+  ])
+    .map(() => value as RenderOptions)
+    .mapErr((errors) => loadError(path, 'export "renderOptions" is not valid', errors.flat()));
+}
+
+/**
+ * Import a TypeScript or JavaScript generator module and extract its Containerfile.
+ *
+ * The module may export a Containerfile or a `Result<Containerfile, ValidationError[]>`,
+ * as the default export, under `options.exportName`, or as its only such export.
+ * A `renderOptions` export is checked and passed along for render().
+ *
+ * @param path - Module path, resolved against `cwd`
+ * @param cwd - Directory relative paths are resolved from
+ * @param options - Export to use and an import callback
+ * @returns The loaded generator, or a LoadError
+ */
+export function loadGenerator(
+  path: string,
+  cwd: string,
+  options?: LoadOptions,
+): ResultAsync<LoadedGenerator, LoadError> {
+  return importModule(path, cwd, options?.onImport).andThen((exports) =>
+    selectExport(path, exports, options?.exportName)
+      .andThen(([name, value]) => toContainerfile(path, name, value))
+      .andThen((containerfile) =>
+        toRenderOptions(path, exports["renderOptions"]).map((renderOptions) => ({
+          path,
+          containerfile,
+          renderOptions,
+        })),
+      ),
+  );
+}
+
+/**
+ * Format a LoadError as lines for the terminal, one per ValidationError
+ */
+export function formatLoadError(error: LoadError): string {
+  const details = error.errors.map((e) => {
+    const field = e.field !== "" ? `${e.field}: ` : "";
+    return `  ${field}${e.message} (got ${JSON.stringify(e.value) ?? String(e.value)})`;
+  });
+  return [`${error.path}: ${error.message}`, ...details].join("\n");
+}
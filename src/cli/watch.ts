@@ -0,0 +1,97 @@
+// pattern: Imperative Shell
+
+import { watch, type FSWatcher } from "node:fs";
+
+// Editors save in bursts (write, rename, chmod); wait for the burst to end
+const DEBOUNCE_MS = 100;
+
+/**
+ * Options for watchFiles()
+ */
+export type WatchOptions = {
+  /** Stops watching when aborted; without it, watching never ends */
+  readonly signal?: AbortSignal;
+  /** Called once the initial files are watched, so edits from then on are seen */
+  readonly onReady?: () => void;
+  /** Called when `onChange` throws; watching carries on with the previous files */
+  readonly onError?: (error: unknown) => void;
+};
+
+/**
+ * Watch files until `options.signal` aborts, calling `onChange` with the files
+ * that changed. Changes arriving while `onChange` runs are batched into the next
+ * call. `onChange` returns the files to watch from then on, so the watched set
+ * follows the import graph as it changes.
+ *
+ * @param files - Absolute paths to watch initially
+ * @param onChange - Handler for a batch of changed files
+ * @param options - Abort signal, and hooks for readiness and `onChange` failures
+ */
+export async function watchFiles(
+  files: Iterable<string>,
+  onChange: (changed: ReadonlySet<string>) => Promise<Iterable<string>>,
+  options?: WatchOptions,
+): Promise<void> {
+  const signal = options?.signal;
+  let watched: ReadonlyArray<string> = [];
+  let watchers: Array<FSWatcher> = [];
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const closeAll = () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    watchers = [];
+  };
+
+  const flush = () => {
+    timer = undefined;
+    const changed = pending;
+    pending = new Set();
+    running = running.then(async () => {
+      if (signal?.aborted === true) {
+        return;
+      }
+      let next = watched;
+      try {
+        next = [...(await onChange(changed))];
+      } catch (error) {
+        options?.onError?.(error);
+      }
+      // Re-watch every file: a save by rename ends a watcher on the old inode
+      watchAll(next);
+    });
+  };
+
+  const watchAll = (paths: Iterable<string>) => {
+    closeAll();
+    watched = [...new Set(paths)];
+    for (const path of watched) {
+      try {
+        watchers.push(
+          watch(path, () => {
+            pending.add(path);
+            clearTimeout(timer);
+            timer = setTimeout(flush, DEBOUNCE_MS);
+          }),
+        );
+      } catch {
+        // Deleted files stop being watched until a later change brings them back
+      }
+    }
+  };
+
+  watchAll(files);
+  options?.onReady?.();
+  await new Promise<void>((resolve) => {
+    if (signal?.aborted === true) {
+      resolve();
+    }
+    signal?.addEventListener("abort", () => resolve(), { once: true });
+  });
+  clearTimeout(timer);
+  await running;
+  closeAll();
+}
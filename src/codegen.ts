@@ -0,0 +1,542 @@
+// pattern: Functional Core
+
+import type {
+  CodegenOptions,
+  Containerfile,
+  CopyInstruction,
+  Directive,
+  InlineFile,
+  Instruction,
+  KeyValuePair,
+  Mount,
+  RunInstruction,
+} from "./types.js";
+import { formatAddSource, heredocDelimiter, resolveInlineDelimiters } from "./render.js";
+
+/**
+ * Expression tree for generated source, printed by printExpression()
+ */
+type Expression =
+  | { readonly kind: "literal"; readonly text: string }
+  | { readonly kind: "call"; readonly callee: string; readonly args: ReadonlyArray<Expression> }
+  | { readonly kind: "array"; readonly items: ReadonlyArray<Expression> }
+  | {
+      readonly kind: "object";
+      readonly entries: ReadonlyArray<readonly [string, Expression]>;
+    };
+
+type Value = string | number | boolean | ReadonlyArray<string> | Expression;
+
+const DEFAULT_IMPORT_PATH = "@bojanrajkovic/containerfile-ts";
+const DEFAULT_EXPORT_NAME = "fixture";
+
+/** Line width of the generated source, matching the repository's formatter */
+const LINE_WIDTH = 100;
+const INDENT = "  ";
+
+/**
+ * Quote a string like the formatter does: double quotes unless the string
+ * contains more double quotes than single quotes.
+ */
+function quoteString(value: string): string {
+  const doubles = value.split('"').length - 1;
+  const singles = value.split("'").length - 1;
+  const json = JSON.stringify(value);
+  if (doubles <= singles) {
+    return json;
+  }
+  return `'${json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+function toExpression(value: Value): Expression {
+  if (typeof value === "string") {
+    return { kind: "literal", text: quoteString(value) };
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return { kind: "literal", text: String(value) };
+  }
+  if (Array.isArray(value)) {
+    return { kind: "array", items: value.map((item: string) => toExpression(item)) };
+  }
+  return value as Expression;
+}
+
+function call(callee: string, ...args: ReadonlyArray<Value | null>): Expression {
+  return {
+    kind: "call",
+    callee,
+    args: args.filter((arg): arg is Value => arg !== null).map(toExpression),
+  };
+}
+
+function array(items: ReadonlyArray<Value>): Expression {
+  return { kind: "array", items: items.map(toExpression) };
+}
+
+/**
+ * Build an object literal, skipping null, undefined and false entries.
+ * Returns null when no entries remain, so optional options arguments are omitted.
+ */
+function options(entries: Record<string, Value | null | undefined>): Expression | null {
+  const kept = Object.entries(entries).flatMap(([key, value]): Array<[string, Expression]> =>
+    value === null || value === undefined || value === false ? [] : [[key, toExpression(value)]],
+  );
+  return kept.length > 0 ? { kind: "object", entries: kept } : null;
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteString(key);
+}
+
+function printFlat(expression: Expression): string {
+  switch (expression.kind) {
+    case "literal":
+      return expression.text;
+    case "call":
+      return `${expression.callee}(${expression.args.map(printFlat).join(", ")})`;
+    case "array":
+      return `[${expression.items.map(printFlat).join(", ")}]`;
+    case "object":
+      return expression.entries.length === 0
+        ? "{}"
+        : `{ ${expression.entries.map(([key, value]) => `${propertyKey(key)}: ${printFlat(value)}`).join(", ")} }`;
+  }
+}
+
+/**
+ * Whether the formatter breaks an expression whatever its width: an array of
+ * several objects (or arrays) with more than one entry each, or anything containing one
+ */
+function mustBreak(expression: Expression): boolean {
+  switch (expression.kind) {
+    case "literal":
+      return false;
+    case "call":
+      return expression.args.some(mustBreak);
+    case "object":
+      return expression.entries.some(([, value]) => mustBreak(value));
+    case "array": {
+      const [first] = expression.items;
+      const dense =
+        expression.items.length > 1 &&
+        expression.items.every(
+          (item) =>
+            item.kind === first?.kind &&
+            ((item.kind === "object" && item.entries.length > 1) ||
+              (item.kind === "array" && item.items.length > 1)),
+        );
+      return dense || expression.items.some(mustBreak);
+    }
+  }
+}
+
+/**
+ * Print one element per line, each followed by a comma
+ */
+function printLines(
+  open: string,
+  items: ReadonlyArray<readonly [string, Expression]>,
+  close: string,
+  indent: string,
+): string {
+  const inner = indent + INDENT;
+  const lines = items.map(([prefix, item]) => {
+    // Long strings move to their own line after the property key when that makes them fit
+    if (
+      prefix !== "" &&
+      item.kind === "literal" &&
+      inner.length + prefix.length + item.text.length + 1 > LINE_WIDTH &&
+      inner.length + INDENT.length + item.text.length + 1 <= LINE_WIDTH
+    ) {
+      return `${inner}${prefix.trimEnd()}\n${inner}${INDENT}${item.text},`;
+    }
+    return `${inner}${prefix}${printExpression(item, inner.length + prefix.length, inner, 1)},`;
+  });
+  return `${open}\n${lines.join("\n")}\n${indent}${close}`;
+}
+
+/**
+ * Print an expression starting at `column`, breaking it across lines when it does
+ * not fit. `suffix` is the width of what follows it on the same line.
+ *
+ * Follows the formatter's layout: a call whose last argument is an object or array,
+ * unlike the argument before it, keeps the other arguments on the first line
+ * ("hugging"); other calls put every argument on its own line.
+ */
+function printExpression(
+  expression: Expression,
+  column: number,
+  indent: string,
+  suffix: number,
+): string {
+  const flat = printFlat(expression);
+  if (
+    expression.kind === "literal" ||
+    (column + flat.length + suffix <= LINE_WIDTH && !mustBreak(expression))
+  ) {
+    return flat;
+  }
+  switch (expression.kind) {
+    case "array":
+      return printLines(
+        "[",
+        expression.items.map((item) => ["", item] as const),
+        "]",
+        indent,
+      );
+    case "object":
+      return printLines(
+        "{",
+        expression.entries.map(([key, value]) => [`${propertyKey(key)}: `, value] as const),
+        "}",
+        indent,
+      );
+    case "call": {
+      const leading = expression.args.slice(0, -1);
+      const last = expression.args[expression.args.length - 1];
+      const penultimate = leading[leading.length - 1];
+      const huggable =
+        last !== undefined &&
+        (last.kind === "object" || last.kind === "array") &&
+        penultimate?.kind !== last.kind &&
+        !leading.some(mustBreak);
+      if (huggable) {
+        const head = `${expression.callee}(${[...leading.map(printFlat), ""].join(", ")}`;
+        if (column + head.length + 1 <= LINE_WIDTH) {
+          return `${head}${printExpression(last, column + head.length, indent, suffix + 1)})`;
+        }
+      }
+      return printLines(
+        `${expression.callee}(`,
+        expression.args.map((arg) => ["", arg] as const),
+        ")",
+        indent,
+      );
+    }
+  }
+}
+
+/**
+ * Convert a RUN --mount back into the options object run() accepts.
+ * Mount fields share their names with the options, so each one maps across.
+ */
+function mountOptions(mount: Mount): Expression {
+  return options(mount) as Expression;
+}
+
+function runCommand(command: RunInstruction["command"]): Value {
+  if (typeof command === "string" || !("body" in command)) {
+    return command as Value;
+  }
+  // Leave out delimiters render() would pick by itself
+  const chosen = heredocDelimiter({ ...command, delimiter: null });
+  return options({
+    body: command.body,
+    interpreter: command.interpreter,
+    delimiter: command.delimiter === chosen ? null : command.delimiter,
+    quoted: command.quoted,
+  }) as Expression;
+}
+
+/**
+ * Drop inline file delimiters render() would pick by itself, one at a time,
+ * keeping a delimiter whenever dropping it would change any rendered delimiter.
+ * copy() requires every delimiter when the inline files are named by them:
+ * several inline files, or one copied into a directory.
+ */
+function omitChosenDelimiters(
+  src: CopyInstruction["src"],
+  dest: string,
+): ReadonlyArray<string | InlineFile> {
+  const inlineCount = src.filter((source) => typeof source !== "string").length;
+  if (inlineCount > 1 || (inlineCount > 0 && dest.endsWith("/"))) {
+    return src;
+  }
+  const rendered = resolveInlineDelimiters(src);
+  return src.reduce<ReadonlyArray<string | InlineFile>>((current, source, i) => {
+    if (typeof source === "string" || source.delimiter === null) {
+      return current;
+    }
+    const candidate = current.map((item, j) =>
+      j === i && typeof item !== "string" ? { ...item, delimiter: null } : item,
+    );
+    const unchanged = resolveInlineDelimiters(candidate).every(
+      (item, j) =>
+        typeof item === "string" ||
+        item.delimiter === (rendered[j] as InlineFile | undefined)?.delimiter,
+    );
+    return unchanged ? candidate : current;
+  }, src);
+}
+
+/**
+ * Whether an object literal keeps the pairs as they are: no key repeats, no
+ * integer-like key, which JavaScript would move to the front, and no __proto__
+ * key, which would set the literal's prototype instead of adding a property
+ */
+function fitsRecord(pairs: ReadonlyArray<KeyValuePair>): boolean {
+  const keys = pairs.map((pair) => pair.key);
+  return (
+    new Set(keys).size === keys.length &&
+    !keys.some((key) => key === "__proto__" || /^(?:0|[1-9]\d*)$/.test(key))
+  );
+}
+
+/**
+ * A single item stays a scalar argument, as in copy("src", "dest")
+ */
+function oneOrMany(items: ReadonlyArray<string>): Value {
+  return items.length === 1 && items[0] !== undefined ? items[0] : items;
+}
+
+/**
+ * Map an instruction to the factory call that creates it
+ */
+function instructionCall(instruction: Instruction): Expression {
+  const comment =
+    instruction.type === "BLANK" || instruction.type === "COMMENT" ? null : instruction.comment;
+  switch (instruction.type) {
+    case "FROM":
+      return call(
+        "from",
+        instruction.image,
+        options({ platform: instruction.platform, as: instruction.as, comment }),
+      );
+    case "RUN":
+      return call(
+        "run",
+        runCommand(instruction.command),
+        options({
+          mounts:
+            instruction.mounts.length > 0 ? array(instruction.mounts.map(mountOptions)) : null,
+          network: instruction.network,
+          security: instruction.security,
+          comment,
+        }),
+      );
+    case "COPY": {
+      const sources = omitChosenDelimiters(instruction.src, instruction.dest).map((source) =>
+        typeof source === "string"
+          ? toExpression(source)
+          : (options({
+              contents: source.contents,
+              delimiter: source.delimiter,
+              // Quoted is the default; options() skips false, so spell it out
+              quoted: source.quoted ? null : toExpression(false),
+            }) as Expression),
+      );
+      const [single] = sources;
+      return call(
+        "copy",
+        sources.length === 1 && single !== undefined ? single : array(sources),
+        instruction.dest,
+        options({
+          from: instruction.from,
+          chown: instruction.chown,
+          chmod: instruction.chmod,
+          link: instruction.link,
+          parents: instruction.parents,
+          exclude: instruction.exclude.length > 0 ? instruction.exclude : null,
+          form: instruction.form,
+          comment,
+        }),
+      );
+    }
+    case "ADD":
+      return call(
+        "add",
+        oneOrMany(instruction.src.map(formatAddSource)),
+        instruction.dest,
+        options({
+          chown: instruction.chown,
+          chmod: instruction.chmod,
+          checksum: instruction.checksum,
+          keepGitDir: instruction.keepGitDir,
+          link: instruction.link,
+          form: instruction.form,
+          comment,
+        }),
+      );
+    case "WORKDIR":
+      return call("workdir", instruction.path, options({ comment }));
+    case "ENV":
+    case "LABEL": {
+      const factory = instruction.type === "ENV" ? "env" : "label";
+      const [single] = instruction.pairs;
+      if (instruction.pairs.length === 1 && single !== undefined) {
+        return call(factory, single.key, single.value, options({ comment }));
+      }
+      if (!fitsRecord(instruction.pairs)) {
+        return call(
+          factory,
+          array(instruction.pairs.map(({ key, value }) => options({ key, value }) as Expression)),
+          options({ comment }),
+        );
+      }
+      return call(
+        factory,
+        {
+          kind: "object",
+          entries: instruction.pairs.map(({ key, value }) => [key, toExpression(value)] as const),
+        },
+        options({ comment }),
+      );
+    }
+    case "EXPOSE":
+      return call(
+        "expose",
+        instruction.endPort !== null
+          ? (options({ start: instruction.port, end: instruction.endPort }) as Expression)
+          : instruction.port,
+        options({ protocol: instruction.protocol, comment }),
+      );
+    case "CMD":
+      return call("cmd", instruction.command, options({ comment }));
+    case "ENTRYPOINT":
+      return call("entrypoint", instruction.command, options({ comment }));
+    case "ARG":
+      return call(
+        "arg",
+        instruction.name,
+        options({ defaultValue: instruction.defaultValue, comment }),
+      );
+    case "USER":
+      return call("user", instruction.user, options({ group: instruction.group, comment }));
+    case "VOLUME":
+      return call("volume", oneOrMany(instruction.paths), options({ comment }));
+    case "SHELL":
+      return call("shell", instruction.command, options({ comment }));
+    case "HEALTHCHECK":
+      if (instruction.command === null) {
+        return call("healthcheckNone", options({ comment }));
+      }
+      return call(
+        "healthcheck",
+        instruction.command,
+        options({
+          interval: instruction.interval,
+          timeout: instruction.timeout,
+          startPeriod: instruction.startPeriod,
+          startInterval: instruction.startInterval,
+          retries: instruction.retries,
+          comment,
+        }),
+      );
+    case "STOPSIGNAL":
+      return call(
+        "stopSignal",
+        /^\d+$/.test(instruction.signal) ? Number(instruction.signal) : instruction.signal,
+        options({ comment }),
+      );
+    case "ONBUILD":
+      return call("onbuild", instructionCall(instruction.instruction), options({ comment }));
+    case "COMMENT":
+      return call("comment", instruction.text);
+    case "BLANK":
+      return call("blank");
+  }
+}
+
+function directiveCall(directive: Directive): Expression {
+  switch (directive.type) {
+    case "syntax":
+      return call("syntaxDirective", directive.image);
+    case "escape":
+      return call("escapeDirective", directive.char);
+    case "check": {
+      // error: false is meaningful here, so entries are built without options()
+      const entries: Array<readonly [string, Expression]> = [];
+      if (directive.skip.length > 0) {
+        const all = directive.skip.length === 1 && directive.skip[0] === "all";
+        entries.push(["skip", toExpression(all ? "all" : directive.skip)]);
+      }
+      if (directive.error !== null) {
+        entries.push(["error", toExpression(directive.error)]);
+      }
+      return call("checkDirective", { kind: "object", entries });
+    }
+  }
+}
+
+/**
+ * Collect called factory names in order of first use
+ */
+function calleesOf(expression: Expression, names: Set<string> = new Set()): Set<string> {
+  switch (expression.kind) {
+    case "call":
+      names.add(expression.callee);
+      expression.args.forEach((arg) => calleesOf(arg, names));
+      break;
+    case "array":
+      expression.items.forEach((item) => calleesOf(item, names));
+      break;
+    case "object":
+      expression.entries.forEach(([, value]) => calleesOf(value, names));
+      break;
+    case "literal":
+      break;
+  }
+  return names;
+}
+
+function printImport(names: ReadonlyArray<string>, importPath: string): string {
+  const flat = `import { ${names.join(", ")} } from ${quoteString(importPath)};`;
+  if (flat.length <= LINE_WIDTH) {
+    return flat;
+  }
+  return `import {\n${names.map((name) => `${INDENT}${name},`).join("\n")}\n} from ${quoteString(importPath)};`;
+}
+
+/**
+ * Generate a TypeScript module that rebuilds a Containerfile with the factory functions.
+ *
+ * The module follows the layout of hand-written generators: one import of the
+ * factories it uses, a `containerfile()` call (with `stage()` calls for multi-stage
+ * builds and a `directives` option when present), an error check, and an exported
+ * constant holding the Containerfile. Rendering that constant reproduces
+ * `render(containerfile)`. Combine with parse() to migrate an existing Dockerfile.
+ *
+ * @param containerfile - Containerfile to convert, e.g. from parse()
+ * @param options - Import path and export name of the generated module
+ * @returns TypeScript source code
+ *
+ * @example
+ * ```typescript
+ * parse(readFileSync("Dockerfile", "utf-8"))
+ *   .map((containerfile) => generateTypeScript(containerfile, { exportName: "dockerfile" }))
+ *   .map((source) => writeFileSync("Dockerfile.ts", source));
+ * ```
+ */
+export function generateTypeScript(containerfile: Containerfile, options?: CodegenOptions): string {
+  const items =
+    "stages" in containerfile
+      ? containerfile.stages.map((stage) =>
+          call("stage", stage.name, array(stage.instructions.map(instructionCall))),
+        )
+      : containerfile.instructions.map(instructionCall);
+  const directives = containerfile.directives ?? [];
+  const definition =
+    directives.length > 0
+      ? call("containerfile", array(items), {
+          kind: "object",
+          entries: [["directives", array(directives.map(directiveCall))]],
+        })
+      : call("containerfile", array(items));
+
+  const importPath = options?.importPath ?? DEFAULT_IMPORT_PATH;
+  const exportName = options?.exportName ?? DEFAULT_EXPORT_NAME;
+  const prefix = "const result = ";
+
+  return [
+    printImport([...calleesOf(definition)], importPath),
+    "",
+    `${prefix}${printExpression(definition, prefix.length, "", 1)};`,
+    "",
+    "if (result.isErr()) {",
+    `${INDENT}throw new Error(\`Containerfile generation failed: \${JSON.stringify(result.error)}\`);`,
+    "}",
+    "",
+    `export const ${exportName} = result.value;`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,162 @@
+// pattern: Functional Core
+
+import { Result, ok, err } from "neverthrow";
+import type {
+  ArgInstruction,
+  Containerfile,
+  ContainerfileConfig,
+  GeneratorConfig,
+  Instruction,
+} from "./types.js";
+import { ValidationError, prefixErrors, validationError, isReadonlyArray } from "./errors.js";
+import { validateNonEmptyString, validateOptional } from "./schemas/index.js";
+import { arg } from "./instructions.js";
+import { validateLintOptions } from "./lint/index.js";
+
+/**
+ * Validate build-arg defaults: each name and value must be accepted by arg()
+ */
+function validateBuildArgs(
+  value: unknown,
+  field: string = "buildArgs",
+): Result<Readonly<Record<string, string>>, Array<ValidationError>> {
+  if (typeof value !== "object" || value === null || isReadonlyArray(value)) {
+    return err([validationError(field, "must be a record of ARG names to default values", value)]);
+  }
+  return Result.combineWithAllErrors(
+    Object.entries(value).map(([name, defaultValue]) =>
+      arg(name, { defaultValue })
+        .map(() => [name, defaultValue as string] as const)
+        .mapErr((errors) => prefixErrors(`${field}.${name}`, errors)),
+    ),
+  )
+    .mapErr((errors) => errors.flat())
+    .map((entries) => Object.fromEntries(entries));
+}
+
+function validateGeneratorConfig(
+  value: unknown,
+  field: string,
+): Result<GeneratorConfig, Array<ValidationError>> {
+  if (typeof value !== "object" || value === null || isReadonlyArray(value)) {
+    return err([validationError(field, "must be an object", value)]);
+  }
+  const entry = value as Record<string, unknown>;
+  return Result.combineWithAllErrors([
+    validateNonEmptyString(entry["module"], `${field}.module`),
+    validateNonEmptyString(entry["output"], `${field}.output`),
+    validateOptional(entry["export"], validateNonEmptyString, `${field}.export`),
+    validateOptional(entry["buildArgs"], validateBuildArgs, `${field}.buildArgs`),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([module, output, exportName, buildArgs]) => ({
+      module,
+      output,
+      ...(exportName !== null ? { export: exportName } : {}),
+      ...(buildArgs !== null ? { buildArgs } : {}),
+    }));
+}
+
+/**
+ * Validate a loaded config file's default export.
+ *
+ * @param value - The value exported by containerfile.config.ts
+ * @returns Result with the config on success, ValidationErrors (e.g. at
+ * "generators[1].output") on failure
+ */
+export function validateConfig(
+  value: unknown,
+): Result<ContainerfileConfig, Array<ValidationError>> {
+  if (typeof value !== "object" || value === null) {
+    return err([validationError("", "config must be an object", value)]);
+  }
+  const { generators, lint } = value as Record<string, unknown>;
+  if (!isReadonlyArray(generators) || generators.length === 0) {
+    return err([validationError("generators", "must be a non-empty array", generators)]);
+  }
+  return Result.combineWithAllErrors([
+    Result.combineWithAllErrors(
+      generators.map((entry, i) => validateGeneratorConfig(entry, `generators[${i}]`)),
+    ).mapErr((errors) => errors.flat()),
+    validateOptional(lint, validateLintOptions, "lint"),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([validated, lintOptions]) => ({
+      generators: validated,
+      ...(lintOptions !== null ? { lint: lintOptions } : {}),
+    }));
+}
+
+/**
+ * Define a containerfile.config.ts file. Returns the config unchanged; it exists
+ * so the file is type-checked.
+ *
+ * @param config - Generator entries to render
+ * @returns The same config
+ *
+ * @example
+ * ```typescript
+ * // containerfile.config.ts
+ * export default defineConfig({
+ *   generators: [
+ *     { module: "services/api/containerfile.ts", output: "services/api/Dockerfile" },
+ *     {
+ *       module: "services/workers/*.containerfile.ts",
+ *       output: "{dir}/{name}.Dockerfile",
+ *       buildArgs: { NODE_VERSION: "22" },
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export function defineConfig(config: ContainerfileConfig): ContainerfileConfig {
+  return config;
+}
+
+/**
+ * Replace the default values of a containerfile's ARG instructions.
+ * Every stage's ARG with a matching name is updated; a name that no ARG
+ * declares is an error at "buildArgs.<name>".
+ *
+ * @param containerfile - Containerfile to update
+ * @param buildArgs - ARG names mapped to their new default values
+ * @returns Result with the updated Containerfile, or ValidationErrors
+ */
+export function withBuildArgs(
+  containerfile: Containerfile,
+  buildArgs: Readonly<Record<string, string>>,
+): Result<Containerfile, Array<ValidationError>> {
+  const instructions =
+    "instructions" in containerfile
+      ? containerfile.instructions
+      : containerfile.stages.flatMap((stage) => stage.instructions);
+  const declared = new Set(
+    instructions
+      .filter((instruction): instruction is ArgInstruction => instruction.type === "ARG")
+      .map((instruction) => instruction.name),
+  );
+  const undeclared = Object.entries(buildArgs).filter(([name]) => !declared.has(name));
+  if (undeclared.length > 0) {
+    return err(
+      undeclared.map(([name, value]) =>
+        validationError(`buildArgs.${name}`, `no ARG ${name} is declared`, value),
+      ),
+    );
+  }
+
+  const apply = (instruction: Instruction): Instruction =>
+    instruction.type === "ARG" && Object.hasOwn(buildArgs, instruction.name)
+      ? { ...instruction, defaultValue: buildArgs[instruction.name] ?? null }
+      : instruction;
+  return ok(
+    "instructions" in containerfile
+      ? { ...containerfile, instructions: containerfile.instructions.map(apply) }
+      : {
+          ...containerfile,
+          stages: containerfile.stages.map((stage) => ({
+            ...stage,
+            instructions: stage.instructions.map(apply),
+          })),
+        },
+  );
+}
@@ -0,0 +1,150 @@
+// pattern: Functional Core
+
+import { Result, ok, err } from "neverthrow";
+import type {
+  Directive,
+  SyntaxDirective,
+  EscapeDirective,
+  CheckDirective,
+  CheckDirectiveOptions,
+} from "./types.js";
+import { ValidationError, prefixErrors, validationError, isReadonlyArray } from "./errors.js";
+import {
+  validateImageName,
+  validateOptional,
+  validateBoolean,
+  validateOneOf,
+  validateStringArray,
+} from "./schemas/index.js";
+
+/**
+ * Create a `# syntax=` parser directive.
+ *
+ * @param image - Frontend image (e.g., "docker/dockerfile:1.7")
+ * @returns Result with SyntaxDirective on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * syntaxDirective("docker/dockerfile:1.7").match(
+ *   (directive) => console.log(directive),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function syntaxDirective(image: string): Result<SyntaxDirective, Array<ValidationError>> {
+  return validateImageName(image, "image").map((validatedImage) => ({
+    type: "syntax" as const,
+    image: validatedImage,
+  }));
+}
+
+/**
+ * Create a `# escape=` parser directive.
+ * The escape character is used for line continuations and escaping inside
+ * quoted values; Windows images commonly use a backtick.
+ *
+ * @param char - Escape character: "\\" (default) or "`"
+ * @returns Result with EscapeDirective on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * const windowsResult = escapeDirective("`");
+ * ```
+ */
+export function escapeDirective(char: "\\" | "`"): Result<EscapeDirective, Array<ValidationError>> {
+  return validateOneOf(["\\", "`"] as const)(char, "char").map((validatedChar) => ({
+    type: "escape" as const,
+    char: validatedChar,
+  }));
+}
+
+/**
+ * Validate the `skip` option of checkDirective(): "all" or a list of check rule names.
+ */
+function validateSkippedChecks(
+  value: unknown,
+  field: string = "skip",
+): Result<ReadonlyArray<string>, Array<ValidationError>> {
+  if (value === "all") {
+    return ok(["all"]);
+  }
+  return validateStringArray(value as ReadonlyArray<unknown>, field).andThen((rules) => {
+    const errors = rules.flatMap((rule, i) =>
+      /^[A-Za-z][A-Za-z0-9]*$/.test(rule)
+        ? []
+        : [validationError(`${field}[${i}]`, "must be a check rule name", rule)],
+    );
+    return errors.length > 0 ? err(errors) : ok(rules);
+  });
+}
+
+/**
+ * Create a `# check=` parser directive.
+ *
+ * @param options - Checks to skip ("all" or rule names) and whether check failures are build errors
+ * @returns Result with CheckDirective on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * // Renders: # check=skip=JSONArgsRecommended;error=true
+ * const checkResult = checkDirective({ skip: ["JSONArgsRecommended"], error: true });
+ * ```
+ */
+export function checkDirective(
+  options: CheckDirectiveOptions,
+): Result<CheckDirective, Array<ValidationError>> {
+  return Result.combineWithAllErrors([
+    validateOptional(options?.skip, validateSkippedChecks, "skip"),
+    validateOptional(options?.error, validateBoolean, "error"),
+  ])
+    .mapErr((errors) => errors.flat())
+    .andThen(([skip, error]) => {
+      if ((skip === null || skip.length === 0) && error === null) {
+        return err([validationError("options", "must set skip or error", options)]);
+      }
+      return ok({
+        type: "check" as const,
+        skip: skip ?? [],
+        error,
+      });
+    });
+}
+
+/**
+ * Validate and combine directive Results for containerfile().
+ * Errors are prefixed with `directives[i]`; each directive may appear at most once.
+ */
+export function validateDirectives(
+  directives: ReadonlyArray<Result<Directive, Array<ValidationError>>> | undefined,
+): Result<ReadonlyArray<Directive>, Array<ValidationError>> {
+  if (directives === undefined) {
+    return ok([]);
+  }
+
+  // Defensive: handle type bypass from JS or casting
+  if (!isReadonlyArray(directives)) {
+    return err([
+      validationError("directives", "must be an array of directive Results", directives),
+    ]);
+  }
+
+  return Result.combineWithAllErrors(
+    directives.map((result, i) =>
+      result.mapErr((errors) => prefixErrors(`directives[${i}]`, errors)),
+    ),
+  )
+    .mapErr((errors) => errors.flat())
+    .andThen((validated) => {
+      const seen = new Set<string>();
+      const errors: Array<ValidationError> = [];
+      validated.forEach((directive, i) => {
+        if (seen.has(directive.type)) {
+          errors.push(
+            validationError(`directives[${i}]`, `duplicate ${directive.type} directive`, directive),
+          );
+        }
+        seen.add(directive.type);
+      });
+      return errors.length > 0 ? err(errors) : ok(validated);
+    });
+}
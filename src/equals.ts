@@ -0,0 +1,149 @@
+// pattern: Functional Core
+
+import type { Containerfile, Instruction } from "./types.js";
+import { formatAddSource, heredocDelimiter, resolveInlineDelimiters } from "./render.js";
+import { requiresJsonForm } from "./paths.js";
+
+/**
+ * Path form as rendered: JSON only when forced on paths that do not require it,
+ * null when render() would pick the same form by itself
+ */
+function canonicalForm(paths: ReadonlyArray<string>, form: "shell" | "json" | null): "json" | null {
+  return form === "json" && !requiresJsonForm(paths) ? "json" : null;
+}
+
+function canonicalLines(text: string): string {
+  return text.replace(/\r\n/g, "\n");
+}
+
+/**
+ * Replace presentation-only fields of an instruction with what render() emits
+ */
+function canonicalInstruction(instruction: Instruction): Instruction {
+  switch (instruction.type) {
+    case "RUN":
+      return typeof instruction.command === "object" && "body" in instruction.command
+        ? {
+            ...instruction,
+            command: { ...instruction.command, delimiter: heredocDelimiter(instruction.command) },
+          }
+        : instruction;
+    case "COPY":
+      return {
+        ...instruction,
+        src: resolveInlineDelimiters(instruction.src),
+        form: canonicalForm(
+          [
+            ...instruction.src.filter((item): item is string => typeof item === "string"),
+            instruction.dest,
+          ],
+          instruction.form,
+        ),
+      };
+    case "ADD":
+      return {
+        ...instruction,
+        form: canonicalForm(
+          [...instruction.src.map(formatAddSource), instruction.dest],
+          instruction.form,
+        ),
+      };
+    case "EXPOSE":
+      return instruction.protocol === "tcp" ? { ...instruction, protocol: null } : instruction;
+    case "ONBUILD":
+      return { ...instruction, instruction: canonicalInstruction(instruction.instruction) };
+    default:
+      return instruction;
+  }
+}
+
+/**
+ * Flatten stages and normalise comment and blank nodes.
+ * Blank lines are layout, so they are dropped; consecutive comments merge,
+ * and a comment followed by an instruction becomes part of that instruction's comment.
+ */
+function canonicalInstructions(containerfile: Containerfile): Array<Instruction> {
+  const instructions =
+    "instructions" in containerfile
+      ? containerfile.instructions
+      : containerfile.stages.flatMap((stage) => stage.instructions);
+  const result: Array<Instruction> = [];
+  let pending: Array<string> = [];
+  for (const instruction of instructions) {
+    if (instruction.type === "BLANK") {
+      continue;
+    }
+    if (instruction.type === "COMMENT") {
+      pending.push(canonicalLines(instruction.text));
+      continue;
+    }
+    const comments =
+      instruction.comment !== null ? [...pending, canonicalLines(instruction.comment)] : pending;
+    result.push({
+      ...canonicalInstruction(instruction),
+      comment: comments.length > 0 ? comments.join("\n") : null,
+    } as Instruction);
+    pending = [];
+  }
+  if (pending.length > 0) {
+    result.push({ type: "COMMENT", text: pending.join("\n") });
+  }
+  return result;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    )
+  );
+}
+
+/**
+ * Compare two Containerfiles by the Dockerfile they describe.
+ *
+ * This is an equivalence up to rendering, not structural equality: both sides are
+ * normalised before their directives and instructions are compared field by field,
+ * so containerfiles that differ only in what render() does not preserve compare equal
+ * and `equals(parse(render(cf)).value, cf)` holds. The normalisation ignores:
+ * - stage names and the split into stages (stages start at each FROM)
+ * - BLANK nodes, and whether a comment is a COMMENT node or an instruction's `comment`
+ *   (consecutive comments merge, and CRLF line endings in comments become LF)
+ * - heredoc delimiters left for render() to choose
+ * - COPY/ADD `form` when it matches the form render() picks, and EXPOSE's default `tcp`
+ *
+ * Compare the objects deeply (e.g. `expect(a).toEqual(b)`) when those details matter.
+ *
+ * @param a - First containerfile
+ * @param b - Second containerfile
+ * @returns true if both render to equivalent Dockerfiles
+ *
+ * @example
+ * ```typescript
+ * const original = containerfile([from("alpine"), expose(80, { protocol: "tcp" })]);
+ * if (original.isOk()) {
+ *   const parsed = parse(render(original.value));
+ *   parsed.isOk() && equals(parsed.value, original.value); // true
+ * }
+ * ```
+ */
+export function equals(a: Containerfile, b: Containerfile): boolean {
+  return (
+    deepEqual(a.directives ?? [], b.directives ?? []) &&
+    deepEqual(canonicalInstructions(a), canonicalInstructions(b))
+  );
+}
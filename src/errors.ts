@@ -10,6 +10,16 @@ export type ValidationError = {
   readonly value: unknown;
 };
 
+/**
+ * Validation error produced by parse(), located in the source text.
+ * Line and column are 1-based and point at the offending token where known,
+ * otherwise at the start of the instruction.
+ */
+export type ParseError = ValidationError & {
+  readonly line: number;
+  readonly column: number;
+};
+
 /**
  * Create a validation error with consistent structure.
  */
@@ -17,6 +27,17 @@ export function validationError(field: string, message: string, value: unknown):
   return { field, message, value };
 }
 
+/**
+ * Attach a source location to validation errors.
+ */
+export function locateErrors(
+  line: number,
+  column: number,
+  errors: ReadonlyArray<ValidationError>,
+): Array<ParseError> {
+  return errors.map((e) => ({ ...e, line, column }));
+}
+
 /**
  * Prefix all errors with a path segment (e.g., "instructions[0]").
  * Used when combining errors from nested validations.
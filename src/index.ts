@@ -2,9 +2,17 @@
 
 export type { Result } from "neverthrow";
 
-export type { ValidationError } from "./errors.js";
+export type { ValidationError, ParseError } from "./errors.js";
 
-export type { Port, ImageName, DockerPath, PortRange } from "./schemas/index.js";
+export type {
+  Port,
+  ImageName,
+  DockerPath,
+  PortRange,
+  UserIdentifier,
+  Duration,
+  Signal,
+} from "./schemas/index.js";
 
 export type {
   Instruction,
@@ -19,11 +27,50 @@ export type {
   EntrypointInstruction,
   ArgInstruction,
   LabelInstruction,
+  UserInstruction,
+  VolumeInstruction,
+  ShellInstruction,
+  HealthcheckInstruction,
+  StopSignalInstruction,
+  OnbuildInstruction,
+  CommentInstruction,
+  BlankInstruction,
 } from "./types.js";
 
+export type { AddSource, KeyValuePair } from "./types.js";
+
+export type { Mount, CacheMount, SecretMount, SshMount, BindMount, TmpfsMount } from "./types.js";
+
 export type { Stage, Containerfile } from "./types.js";
 
-export type { FromOptions, CopyOptions, AddOptions, ExposeOptions, ArgOptions } from "./types.js";
+export type { ContainerfileConfig, GeneratorConfig } from "./types.js";
+
+export type { Directive, SyntaxDirective, EscapeDirective, CheckDirective } from "./types.js";
+
+export type {
+  FromOptions,
+  CopyOptions,
+  AddOptions,
+  ExposeOptions,
+  ArgOptions,
+  UserOptions,
+  HealthcheckOptions,
+  RunOptions,
+  HeredocInput,
+  InlineFileInput,
+  PairsInput,
+  MountOptions,
+  CacheMountOptions,
+  SecretMountOptions,
+  SshMountOptions,
+  BindMountOptions,
+  TmpfsMountOptions,
+  CommentOptions,
+  CheckDirectiveOptions,
+  ContainerfileOptions,
+  RenderOptions,
+  CodegenOptions,
+} from "./types.js";
 
 export {
   from,
@@ -37,9 +84,56 @@ export {
   entrypoint,
   arg,
   label,
+  user,
+  volume,
+  shell,
+  healthcheck,
+  healthcheckNone,
+  stopSignal,
+  onbuild,
+  comment,
+  blank,
   containerfile,
 } from "./instructions.js";
 
 export { stage } from "./stage.js";
 
+export { syntaxDirective, escapeDirective, checkDirective } from "./directives.js";
+
+export { DEFAULT_SHELL, resolveActiveShells } from "./shell.js";
+
 export { render } from "./render.js";
+
+export { parse } from "./parse.js";
+
+export { equals } from "./equals.js";
+
+export { generateTypeScript } from "./codegen.js";
+
+export { defineConfig } from "./config.js";
+
+export type {
+  Severity,
+  StageContext,
+  RuleContext,
+  Fix,
+  Finding,
+  Rule,
+  Diagnostic,
+  LintOptions,
+} from "./lint/index.js";
+
+export {
+  lint,
+  applyFixes,
+  recommendedRules,
+  jsonArgsRecommended,
+  redundantInstruction,
+  noSudo,
+  noCdInRun,
+  workdirAbsolute,
+  finalUserRoot,
+  imageTagRequired,
+  noLatestTag,
+  imageDigestRequired,
+} from "./lint/index.js";
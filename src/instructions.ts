@@ -12,6 +12,12 @@ import type {
   EntrypointInstruction,
   ArgInstruction,
   LabelInstruction,
+  UserInstruction,
+  VolumeInstruction,
+  ShellInstruction,
+  HealthcheckInstruction,
+  StopSignalInstruction,
+  OnbuildInstruction,
   Containerfile,
   Instruction,
   Stage,
@@ -20,6 +26,22 @@ import type {
   AddOptions,
   ExposeOptions,
   ArgOptions,
+  UserOptions,
+  HealthcheckOptions,
+  RunOptions,
+  Mount,
+  MountOptions,
+  Heredoc,
+  HeredocInput,
+  InlineFile,
+  InlineFileInput,
+  AddSource,
+  KeyValuePair,
+  PairsInput,
+  CommentOptions,
+  ContainerfileOptions,
+  CommentInstruction,
+  BlankInstruction,
 } from "./types.js";
 import { Result, ok, err } from "neverthrow";
 import {
@@ -31,11 +53,39 @@ import {
   validateStringArray,
   validatePort,
   validatePortRange,
+  validateUserIdentifier,
+  validateDuration,
+  validateNonNegativeInteger,
+  validateSignal,
+  validateFileMode,
+  validateBoolean,
+  validateOneOf,
+  validateHeredocDelimiter,
+  validateChecksum,
 } from "./schemas/index.js";
 import { ValidationError, prefixErrors, validationError, isReadonlyArray } from "./errors.js";
+import { validateShellForms } from "./shell.js";
+import { requiresJsonForm } from "./paths.js";
+import { validateDirectives } from "./directives.js";
 
 /**
- * Validate an array of Docker paths (for COPY/ADD src).
+ * Attach the optional `comment` option to a validated instruction.
+ * Comment errors are collected alongside the instruction's own errors.
+ */
+function withComment<T extends { readonly type: string }>(
+  instruction: Result<T, Array<ValidationError>>,
+  comment: string | undefined,
+): Result<T & { readonly comment: string | null }, Array<ValidationError>> {
+  return Result.combineWithAllErrors([
+    instruction,
+    validateOptional(comment, validateString, "comment"),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([validated, validatedComment]) => ({ ...validated, comment: validatedComment }));
+}
+
+/**
+ * Validate an array of Docker paths (for VOLUME paths).
  * Array must have at least one element.
  * Collects all element-level errors.
  */
@@ -54,7 +104,7 @@ function validateDockerPathArray(
   }
 
   if (src.length === 0) {
-    return err([validationError(field, "must have at least one source", src)]);
+    return err([validationError(field, "must have at least one path", src)]);
   }
 
   return Result.combineWithAllErrors(
@@ -62,11 +112,160 @@ function validateDockerPathArray(
   ).mapErr((errors) => errors.flat());
 }
 
+/**
+ * Strip a single trailing newline from heredoc content.
+ * Every heredoc line is newline-terminated when rendered, so "a\n" and "a" produce
+ * the same Dockerfile; normalizing keeps the stored value canonical.
+ */
+function normalizeHeredocBody(body: string): string {
+  return body.endsWith("\n") ? body.slice(0, -1) : body;
+}
+
+/**
+ * Validate an optional heredoc delimiter against the content it terminates.
+ * A delimiter equal to any content line would end the heredoc early.
+ */
+function validateDelimiterFor(
+  delimiter: unknown,
+  content: string | null,
+  field: string,
+): Result<string | null, Array<ValidationError>> {
+  return validateOptional(delimiter, validateHeredocDelimiter, field).andThen((validated) => {
+    if (validated !== null && content !== null && content.split("\n").includes(validated)) {
+      return err([
+        validationError(field, `delimiter "${validated}" collides with a content line`, delimiter),
+      ]);
+    }
+    return ok(validated);
+  });
+}
+
+/**
+ * Type guard distinguishing a heredoc script from shell and exec form commands.
+ */
+function isHeredocInput(
+  command: string | ReadonlyArray<string> | HeredocInput,
+): command is HeredocInput {
+  return command !== null && typeof command === "object" && !Array.isArray(command);
+}
+
+/**
+ * Validate a RUN heredoc script.
+ */
+function validateHeredoc(
+  input: HeredocInput,
+  field: string,
+): Result<Heredoc, Array<ValidationError>> {
+  const bodyResult = validateNonEmptyString(input.body, `${field}.body`).map(normalizeHeredocBody);
+  const body = bodyResult.unwrapOr(null);
+
+  return Result.combineWithAllErrors([
+    bodyResult,
+    validateOptional(input.interpreter, validateNonEmptyString, `${field}.interpreter`).andThen(
+      (interpreter) => {
+        if (interpreter !== null && interpreter.includes("\n")) {
+          return err([
+            validationError(`${field}.interpreter`, "must not contain newlines", interpreter),
+          ]);
+        }
+        // Accept both "/usr/bin/env python3" and "#!/usr/bin/env python3"
+        return ok(interpreter?.replace(/^#!/, "") ?? null);
+      },
+    ),
+    validateDelimiterFor(input.delimiter, body, `${field}.delimiter`),
+    validateOptional(input.quoted, validateBoolean, `${field}.quoted`),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([validatedBody, interpreter, delimiter, quoted]) => ({
+      body: validatedBody,
+      interpreter,
+      delimiter,
+      quoted: quoted ?? false,
+    }));
+}
+
+/**
+ * Validate an inline COPY source.
+ */
+function validateInlineFile(
+  input: InlineFileInput,
+  field: string,
+): Result<InlineFile, Array<ValidationError>> {
+  const contentsResult = validateString(input.contents, `${field}.contents`).map(
+    normalizeHeredocBody,
+  );
+
+  return Result.combineWithAllErrors([
+    contentsResult,
+    validateDelimiterFor(input.delimiter, contentsResult.unwrapOr(null), `${field}.delimiter`),
+    validateOptional(input.quoted, validateBoolean, `${field}.quoted`),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([contents, delimiter, quoted]) => ({ contents, delimiter, quoted: quoted ?? true }));
+}
+
+/**
+ * Validate COPY sources: paths and inline files.
+ * Inline files need a delimiter (used as the file name) when there are several
+ * of them or the destination is a directory, and delimiters must be unique.
+ */
+function validateCopySources(
+  src: string | InlineFileInput | ReadonlyArray<string | InlineFileInput>,
+  dest: string,
+  field: string,
+): Result<ReadonlyArray<string | InlineFile>, Array<ValidationError>> {
+  const sources: ReadonlyArray<unknown> = isReadonlyArray(src) ? src : [src];
+
+  if (isReadonlyArray(src) && src.length === 0) {
+    return err([validationError(field, "must have at least one path", src)]);
+  }
+
+  const inlineCount = sources.filter((item) => item !== null && typeof item === "object").length;
+  const needsName = inlineCount > 1 || (inlineCount > 0 && dest.endsWith("/"));
+
+  return Result.combineWithAllErrors(
+    sources.map((item, i): Result<string | InlineFile, Array<ValidationError>> => {
+      if (item !== null && typeof item === "object") {
+        return validateInlineFile(item as InlineFileInput, `${field}[${i}]`).andThen((file) => {
+          if (needsName && file.delimiter === null) {
+            return err([
+              validationError(
+                `${field}[${i}].delimiter`,
+                "inline files need a delimiter (used as the file name) when copying several inline files or into a directory",
+                item,
+              ),
+            ]);
+          }
+          return ok(file);
+        });
+      }
+      return validateDockerPath(item, `${field}[${i}]`);
+    }),
+  )
+    .mapErr((errors) => errors.flat())
+    .andThen((validated) => {
+      const delimiters = validated.flatMap((item) =>
+        typeof item === "string" || item.delimiter === null ? [] : [item.delimiter],
+      );
+      const duplicate = delimiters.find((d, i) => delimiters.indexOf(d) !== i);
+      if (duplicate !== undefined) {
+        return err([
+          validationError(
+            field,
+            `inline file delimiter "${duplicate}" is used more than once`,
+            src,
+          ),
+        ]);
+      }
+      return ok(validated);
+    });
+}
+
 /**
  * Create a FROM instruction.
  *
  * @param image - Docker image name (e.g., "node:18", "ghcr.io/user/app")
- * @param options - Optional settings (as, platform)
+ * @param options - Optional settings (as, platform, comment)
  * @returns Result with FromInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -81,24 +280,239 @@ export function from(
   image: string,
   options?: FromOptions,
 ): Result<FromInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateImageName(image, "image"),
-    validateOptional(options?.as, validateNonEmptyString, "as"),
-    validateOptional(options?.platform, validateNonEmptyString, "platform"),
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([validatedImage, asValue, platformValue]) => ({
-      type: "FROM" as const,
-      image: validatedImage,
-      as: asValue,
-      platform: platformValue,
-    }));
+  return withComment(
+    Result.combineWithAllErrors([
+      validateImageName(image, "image"),
+      validateOptional(options?.as, validateNonEmptyString, "as"),
+      validateOptional(options?.platform, validateNonEmptyString, "platform"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedImage, asValue, platformValue]) => ({
+        type: "FROM" as const,
+        image: validatedImage,
+        as: asValue,
+        platform: platformValue,
+      })),
+    options?.comment,
+  );
+}
+
+/**
+ * Validate a command in shell form (string) or exec form (array of strings).
+ */
+function validateCommand(
+  command: string | ReadonlyArray<string>,
+  field: string,
+): Result<string | ReadonlyArray<string>, Array<ValidationError>> {
+  if (typeof command === "string") {
+    return validateNonEmptyString(command, field);
+  }
+  return validateStringArray(command, field);
+}
+
+/**
+ * Validate a value used inside a --mount flag.
+ * Mount flags are comma-separated key=value lists, so values cannot contain
+ * commas or whitespace.
+ */
+function validateMountValue(
+  value: unknown,
+  field: string = "value",
+): Result<string, Array<ValidationError>> {
+  return validateNonEmptyString(value, field).andThen((str) => {
+    if (/[\s,]/.test(str)) {
+      return err([validationError(field, "must not contain commas or whitespace", value)]);
+    }
+    return ok(str);
+  });
+}
+
+/**
+ * Validate an optional boolean flag, defaulting to false.
+ */
+function validateFlag(value: unknown, field: string): Result<boolean, Array<ValidationError>> {
+  return validateOptional(value, validateBoolean, field).map((flag) => flag ?? false);
+}
+
+/**
+ * Validate COPY --exclude patterns.
+ * Each pattern renders as its own flag, so patterns cannot contain whitespace.
+ */
+function validateExcludePatterns(
+  value: unknown,
+  field: string = "exclude",
+): Result<ReadonlyArray<string>, Array<ValidationError>> {
+  return validateStringArray(value as ReadonlyArray<unknown>, field).andThen((patterns) => {
+    const errors = patterns.flatMap((pattern, i) =>
+      /\s/.test(pattern)
+        ? [validationError(`${field}[${i}]`, "must not contain whitespace", pattern)]
+        : [],
+    );
+    return errors.length > 0 ? err(errors) : ok(patterns);
+  });
+}
+
+/**
+ * Validate a single RUN --mount definition.
+ * Field paths are relative to the mount (e.g. "target", "uid").
+ */
+function validateMount(mount: MountOptions): Result<Mount, Array<ValidationError>> {
+  // Defensive: handle type bypass from JS or casting
+  if (mount === null || typeof mount !== "object") {
+    return err([validationError("", "must be a mount object", mount)]);
+  }
+
+  switch (mount.type) {
+    case "cache":
+      return Result.combineWithAllErrors([
+        validateMountValue(mount.target, "target"),
+        validateOptional(mount.id, validateMountValue, "id"),
+        validateOptional(
+          mount.sharing,
+          validateOneOf(["shared", "private", "locked"] as const),
+          "sharing",
+        ),
+        validateOptional(mount.from, validateMountValue, "from"),
+        validateOptional(mount.source, validateMountValue, "source"),
+        validateOptional(mount.mode, validateFileMode, "mode"),
+        validateOptional(mount.uid, validateNonNegativeInteger, "uid"),
+        validateOptional(mount.gid, validateNonNegativeInteger, "gid"),
+        validateFlag(mount.readonly, "readonly"),
+      ])
+        .mapErr((errors) => errors.flat())
+        .map(([target, id, sharing, fromValue, source, mode, uid, gid, readonly]) => ({
+          type: "cache" as const,
+          target,
+          id,
+          sharing,
+          from: fromValue,
+          source,
+          mode,
+          uid,
+          gid,
+          readonly,
+        }));
+
+    case "secret":
+      return Result.combineWithAllErrors([
+        validateOptional(mount.id, validateMountValue, "id"),
+        validateOptional(mount.target, validateMountValue, "target"),
+        validateOptional(mount.env, validateMountValue, "env"),
+        validateOptional(mount.mode, validateFileMode, "mode"),
+        validateOptional(mount.uid, validateNonNegativeInteger, "uid"),
+        validateOptional(mount.gid, validateNonNegativeInteger, "gid"),
+        validateFlag(mount.required, "required"),
+      ])
+        .mapErr((errors) => errors.flat())
+        .andThen(([id, target, envValue, mode, uid, gid, required]) => {
+          if (id === null && target === null && envValue === null) {
+            return err([
+              validationError(
+                "id",
+                "secret mount requires at least one of id, target or env",
+                mount,
+              ),
+            ]);
+          }
+          return ok({
+            type: "secret" as const,
+            id,
+            target,
+            env: envValue,
+            mode,
+            uid,
+            gid,
+            required,
+          });
+        });
+
+    case "ssh":
+      return Result.combineWithAllErrors([
+        validateOptional(mount.id, validateMountValue, "id"),
+        validateOptional(mount.target, validateMountValue, "target"),
+        validateOptional(mount.mode, validateFileMode, "mode"),
+        validateOptional(mount.uid, validateNonNegativeInteger, "uid"),
+        validateOptional(mount.gid, validateNonNegativeInteger, "gid"),
+        validateFlag(mount.required, "required"),
+      ])
+        .mapErr((errors) => errors.flat())
+        .map(([id, target, mode, uid, gid, required]) => ({
+          type: "ssh" as const,
+          id,
+          target,
+          mode,
+          uid,
+          gid,
+          required,
+        }));
+
+    case "bind":
+      return Result.combineWithAllErrors([
+        validateMountValue(mount.target, "target"),
+        validateOptional(mount.source, validateMountValue, "source"),
+        validateOptional(mount.from, validateMountValue, "from"),
+        validateFlag(mount.readwrite, "readwrite"),
+      ])
+        .mapErr((errors) => errors.flat())
+        .map(([target, source, fromValue, readwrite]) => ({
+          type: "bind" as const,
+          target,
+          source,
+          from: fromValue,
+          readwrite,
+        }));
+
+    case "tmpfs":
+      return Result.combineWithAllErrors([
+        validateMountValue(mount.target, "target"),
+        validateOptional(mount.size, validateNonNegativeInteger, "size"),
+      ])
+        .mapErr((errors) => errors.flat())
+        .map(([target, size]) => ({
+          type: "tmpfs" as const,
+          target,
+          size,
+        }));
+
+    default:
+      return err([
+        validationError(
+          "type",
+          'must be one of: "cache", "secret", "ssh", "bind", "tmpfs"',
+          (mount as { readonly type: unknown }).type,
+        ),
+      ]);
+  }
+}
+
+/**
+ * Validate the mounts array for a RUN instruction.
+ * Collects all errors, prefixed with the mount index (e.g. "mounts[1].target").
+ */
+function validateMounts(
+  mounts: ReadonlyArray<MountOptions> | undefined,
+): Result<ReadonlyArray<Mount>, Array<ValidationError>> {
+  if (mounts === undefined) {
+    return ok([]);
+  }
+
+  // Defensive: handle type bypass from JS or casting
+  if (!isReadonlyArray(mounts)) {
+    return err([validationError("mounts", "must be an array of mounts", mounts)]);
+  }
+
+  return Result.combineWithAllErrors(
+    mounts.map((mount, i) =>
+      validateMount(mount).mapErr((errors) => prefixErrors(`mounts[${i}]`, errors)),
+    ),
+  ).mapErr((errors) => errors.flat());
 }
 
 /**
  * Create a RUN instruction.
  *
- * @param command - Shell form (string) or exec form (array of strings)
+ * @param command - Shell form (string), exec form (array of strings) or heredoc script
+ * @param options - Optional settings (mounts, network, security, comment)
  * @returns Result with RunInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -108,31 +522,104 @@ export function from(
  *
  * // Exec form
  * const execResult = run(["npm", "install"]);
+ *
+ * // With BuildKit cache and secret mounts
+ * const mountResult = run("npm ci", {
+ *   mounts: [
+ *     { type: "cache", target: "/root/.npm", sharing: "locked" },
+ *     { type: "secret", id: "npmrc", target: "/root/.npmrc" },
+ *   ],
+ * });
+ *
+ * // Hermetic step without network access
+ * const offlineResult = run("npm test", { network: "none" });
+ *
+ * // Heredoc script with an interpreter
+ * const scriptResult = run({
+ *   body: 'import sys\nprint(sys.version)',
+ *   interpreter: "/usr/bin/env python3",
+ * });
  * ```
  */
 export function run(
-  command: string | ReadonlyArray<string>,
+  command: string | ReadonlyArray<string> | HeredocInput,
+  options?: RunOptions,
 ): Result<RunInstruction, Array<ValidationError>> {
-  if (typeof command === "string") {
-    return validateNonEmptyString(command, "command").map(() => ({
-      type: "RUN" as const,
-      command,
-    }));
-  }
+  const commandResult: Result<
+    string | ReadonlyArray<string> | Heredoc,
+    Array<ValidationError>
+  > = isHeredocInput(command)
+    ? validateHeredoc(command, "command")
+    : validateCommand(command, "command");
 
-  // Array form
-  return validateStringArray(command, "command").map((validatedCommand) => ({
-    type: "RUN" as const,
-    command: validatedCommand,
-  }));
+  return withComment(
+    Result.combineWithAllErrors([
+      commandResult,
+      validateMounts(options?.mounts),
+      validateOptional(
+        options?.network,
+        validateOneOf(["default", "none", "host"] as const),
+        "network",
+      ),
+      validateOptional(
+        options?.security,
+        validateOneOf(["sandbox", "insecure"] as const),
+        "security",
+      ),
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedCommand, mounts, network, security]) => ({
+        type: "RUN" as const,
+        command: validatedCommand,
+        mounts,
+        network,
+        security,
+      })),
+    options?.comment,
+  );
+}
+
+/**
+ * Check that COPY/ADD paths can be rendered in the requested form.
+ * Shell form cannot express whitespace or quotes, and inline files (heredocs)
+ * are only allowed in shell form.
+ */
+function validatePathForm(
+  paths: ReadonlyArray<string>,
+  form: "shell" | "json" | null,
+  hasInline: boolean,
+): Array<ValidationError> {
+  const needsJson = requiresJsonForm(paths);
+  if (form === "shell" && needsJson) {
+    return [
+      validationError(
+        "form",
+        "shell form cannot express paths containing whitespace or quotes",
+        form,
+      ),
+    ];
+  }
+  if (hasInline && form === "json") {
+    return [validationError("form", "JSON form cannot be used with inline file sources", form)];
+  }
+  if (hasInline && needsJson) {
+    return [
+      validationError(
+        "src",
+        "inline file sources require shell form, which cannot express paths containing whitespace or quotes",
+        paths,
+      ),
+    ];
+  }
+  return [];
 }
 
 /**
  * Create a COPY instruction.
  *
- * @param src - Source path(s) in build context (string or array)
+ * @param src - Source path(s) in build context and/or inline files (single or array)
  * @param dest - Destination path in container
- * @param options - Optional settings (from, chown, chmod)
+ * @param options - Optional settings (from, chown, chmod, link, parents, exclude, form, comment)
  * @returns Result with CopyInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -141,37 +628,146 @@ export function run(
  *   (instruction) => console.log(instruction),
  *   (errors) => console.error(errors),
  * );
+ *
+ * // Monorepo copy preserving layer reuse and skipping tests
+ * const linkResult = copy("packages/", "/app/packages/", {
+ *   link: true,
+ *   exclude: ["*.md", "tests"],
+ * });
+ *
+ * // Inline file contents rendered as a heredoc
+ * const inlineResult = copy({ contents: "daemon off;" }, "/etc/nginx/conf.d/daemon.conf");
  * ```
  */
 export function copy(
-  src: string | ReadonlyArray<string>,
+  src: string | InlineFileInput | ReadonlyArray<string | InlineFileInput>,
   dest: string,
   options?: CopyOptions,
 ): Result<CopyInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateDockerPathArray(src, "src"),
-    validateDockerPath(dest, "dest"),
-    validateOptional(options?.from, validateNonEmptyString, "from"),
-    validateOptional(options?.chown, validateNonEmptyString, "chown"),
-    validateOptional(options?.chmod, validateNonEmptyString, "chmod"),
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([srcArray, validatedDest, fromValue, chownValue, chmodValue]) => ({
-      type: "COPY" as const,
-      src: srcArray,
-      dest: validatedDest,
-      from: fromValue,
-      chown: chownValue,
-      chmod: chmodValue,
-    }));
+  return withComment(
+    Result.combineWithAllErrors([
+      validateCopySources(src, typeof dest === "string" ? dest : "", "src"),
+      validateDockerPath(dest, "dest"),
+      validateOptional(options?.from, validateNonEmptyString, "from"),
+      validateOptional(options?.chown, validateNonEmptyString, "chown"),
+      validateOptional(options?.chmod, validateNonEmptyString, "chmod"),
+      validateFlag(options?.link, "link"),
+      validateFlag(options?.parents, "parents"),
+      validateOptional(options?.exclude, validateExcludePatterns, "exclude"),
+      validateOptional(options?.form, validateOneOf(["shell", "json"] as const), "form"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .andThen(
+        ([
+          srcArray,
+          validatedDest,
+          fromValue,
+          chownValue,
+          chmodValue,
+          link,
+          parents,
+          exclude,
+          form,
+        ]) => {
+          const paths = srcArray.filter((item): item is string => typeof item === "string");
+          const hasInline = paths.length < srcArray.length;
+          const formErrors = validatePathForm([...paths, validatedDest], form, hasInline);
+          if (formErrors.length > 0) {
+            return err(formErrors);
+          }
+          return ok({
+            type: "COPY" as const,
+            src: srcArray,
+            dest: validatedDest,
+            from: fromValue,
+            chown: chownValue,
+            chmod: chmodValue,
+            link,
+            parents,
+            exclude: exclude ?? [],
+            form,
+          });
+        },
+      ),
+    options?.comment,
+  );
+}
+
+/**
+ * Classify an ADD source string.
+ * Git sources follow BuildKit's rules: scp-style (`git@host:repo`), git:// and
+ * ssh:// URLs, or HTTP(S) URLs whose path ends in `.git`. The `#ref:subdir`
+ * fragment of a Git URL is split into `ref` and `subdir`.
+ */
+function classifyAddSource(source: string): AddSource {
+  const hashIndex = source.indexOf("#");
+  const base = hashIndex === -1 ? source : source.slice(0, hashIndex);
+  const isGit =
+    /^git@[^:]+:/.test(source) ||
+    /^(?:git|ssh):\/\//.test(source) ||
+    (/^https?:\/\//.test(source) && base.endsWith(".git"));
+
+  if (isGit) {
+    const fragment = hashIndex === -1 ? "" : source.slice(hashIndex + 1);
+    const colonIndex = fragment.indexOf(":");
+    const ref = colonIndex === -1 ? fragment : fragment.slice(0, colonIndex);
+    const subdir = colonIndex === -1 ? "" : fragment.slice(colonIndex + 1);
+    return { kind: "git", url: base, ref: ref || null, subdir: subdir || null };
+  }
+  if (/^https?:\/\//.test(source)) {
+    return { kind: "url", url: source };
+  }
+  return { kind: "local", path: source };
+}
+
+/**
+ * Validate an ADD source and classify it as local path, HTTP(S) URL or Git repository.
+ */
+function validateAddSource(
+  value: unknown,
+  field: string,
+): Result<AddSource, Array<ValidationError>> {
+  return validateDockerPath(value, field).andThen((path) => {
+    const source = classifyAddSource(path);
+    if (source.kind === "url" && !/^https?:\/\/[^\s/?#]+/.test(source.url)) {
+      return err([validationError(field, "URL must include a host", value)]);
+    }
+    return ok(source);
+  });
+}
+
+/**
+ * Validate ADD sources.
+ * Array must have at least one element; collects all element-level errors.
+ */
+function validateAddSources(
+  src: string | ReadonlyArray<string>,
+  field: string,
+): Result<ReadonlyArray<AddSource>, Array<ValidationError>> {
+  if (typeof src === "string") {
+    return validateAddSource(src, `${field}[0]`).map((source) => [source]);
+  }
+
+  // Defensive: handle type bypass from JS or casting
+  if (!isReadonlyArray(src)) {
+    return err([validationError(field, "must be a string or array of strings", src)]);
+  }
+
+  if (src.length === 0) {
+    return err([validationError(field, "must have at least one path", src)]);
+  }
+
+  return Result.combineWithAllErrors(
+    src.map((source, i) => validateAddSource(source, `${field}[${i}]`)),
+  ).mapErr((errors) => errors.flat());
 }
 
 /**
  * Create an ADD instruction.
  *
- * @param src - Source path(s) in build context (string or array)
+ * @param src - Source path(s), HTTP(S) URL(s) or Git repository URL(s) (string or array)
  * @param dest - Destination path in container
- * @param options - Optional settings (chown, chmod)
+ * @param options - Optional settings (chown, chmod, checksum, keepGitDir, link, form, comment)
  * @returns Result with AddInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -180,6 +776,16 @@ export function copy(
  *   (instruction) => console.log(instruction),
  *   (errors) => console.error(errors),
  * );
+ *
+ * // Verified download (checksum requires a single HTTP(S) source)
+ * const verifiedResult = add("https://example.com/tool.tar.gz", "/opt/", {
+ *   checksum: "sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d",
+ * });
+ *
+ * // Git repository at a tag, keeping the .git directory
+ * const gitResult = add("https://github.com/moby/buildkit.git#v0.12.0", "/src/", {
+ *   keepGitDir: true,
+ * });
  * ```
  */
 export function add(
@@ -187,26 +793,65 @@ export function add(
   dest: string,
   options?: AddOptions,
 ): Result<AddInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateDockerPathArray(src, "src"),
-    validateDockerPath(dest, "dest"),
-    validateOptional(options?.chown, validateNonEmptyString, "chown"),
-    validateOptional(options?.chmod, validateNonEmptyString, "chmod"),
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([srcArray, validatedDest, chownValue, chmodValue]) => ({
-      type: "ADD" as const,
-      src: srcArray,
-      dest: validatedDest,
-      chown: chownValue,
-      chmod: chmodValue,
-    }));
+  return withComment(
+    Result.combineWithAllErrors([
+      validateAddSources(src, "src"),
+      validateDockerPath(dest, "dest"),
+      validateOptional(options?.chown, validateNonEmptyString, "chown"),
+      validateOptional(options?.chmod, validateNonEmptyString, "chmod"),
+      validateOptional(options?.checksum, validateChecksum, "checksum"),
+      validateFlag(options?.keepGitDir, "keepGitDir"),
+      validateFlag(options?.link, "link"),
+      validateOptional(options?.form, validateOneOf(["shell", "json"] as const), "form"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .andThen(
+        ([sources, validatedDest, chownValue, chmodValue, checksum, keepGitDir, link, form]) => {
+          const paths = typeof src === "string" ? [src] : src;
+          const errors = validatePathForm([...paths, validatedDest], form, false);
+          if (checksum !== null && (sources.length !== 1 || sources[0]?.kind !== "url")) {
+            errors.push(
+              validationError(
+                "checksum",
+                "checksum is only supported for a single HTTP(S) URL source",
+                options?.checksum,
+              ),
+            );
+          }
+          if (keepGitDir && !sources.some((source) => source.kind === "git")) {
+            errors.push(
+              validationError(
+                "keepGitDir",
+                "keepGitDir is only supported for Git repository sources",
+                options?.keepGitDir,
+              ),
+            );
+          }
+          if (errors.length > 0) {
+            return err(errors);
+          }
+          return ok({
+            type: "ADD" as const,
+            src: sources,
+            dest: validatedDest,
+            chown: chownValue,
+            chmod: chmodValue,
+            checksum,
+            keepGitDir,
+            link,
+            form,
+          });
+        },
+      ),
+    options?.comment,
+  );
 }
 
 /**
  * Create a WORKDIR instruction.
  *
  * @param path - Working directory path in container
+ * @param options - Optional settings (comment)
  * @returns Result with WorkdirInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -217,18 +862,120 @@ export function add(
  * );
  * ```
  */
-export function workdir(path: string): Result<WorkdirInstruction, Array<ValidationError>> {
-  return validateDockerPath(path, "path").map((validatedPath) => ({
-    type: "WORKDIR" as const,
-    path: validatedPath,
-  }));
+export function workdir(
+  path: string,
+  options?: CommentOptions,
+): Result<WorkdirInstruction, Array<ValidationError>> {
+  return withComment(
+    validateDockerPath(path, "path").map((validatedPath) => ({
+      type: "WORKDIR" as const,
+      path: validatedPath,
+    })),
+    options?.comment,
+  );
+}
+
+/**
+ * Validate an ENV or LABEL value.
+ * Newlines cannot be written inside a single Dockerfile instruction, so they are rejected.
+ */
+function validateSingleLineValue(
+  value: unknown,
+  field: string,
+): Result<string, Array<ValidationError>> {
+  return validateString(value, field).andThen((validated) =>
+    /[\r\n]/.test(validated)
+      ? err([validationError(field, "must not contain newlines", value)])
+      : ok(validated),
+  );
+}
+
+/**
+ * Validate an ARG default: a non-empty single-line string.
+ */
+function validateArgDefault(
+  value: unknown,
+  field: string = "defaultValue",
+): Result<string, Array<ValidationError>> {
+  return validateNonEmptyString(value, field).andThen((validated) =>
+    validateSingleLineValue(validated, field),
+  );
+}
+
+/**
+ * Validate an ENV or LABEL key: non-empty, with no whitespace, quotes or "=".
+ */
+function validatePairKey(value: unknown, field: string): Result<string, Array<ValidationError>> {
+  return validateNonEmptyString(value, field).andThen((key) =>
+    /[\s"'=]/.test(key)
+      ? err([validationError(field, "must not contain whitespace, quotes or '='", value)])
+      : ok(key),
+  );
+}
+
+/**
+ * Validate the arguments shared by env() and label().
+ * The single-pair form reports errors at "key"/"value"; the record form reports
+ * every error for a pair at "pairs.<key>", the array form at "pairs[<index>]".
+ */
+function validatePairs(
+  keyOrPairs: string | PairsInput,
+  value: string | undefined,
+): Result<ReadonlyArray<KeyValuePair>, Array<ValidationError>> {
+  if (typeof keyOrPairs !== "object" || keyOrPairs === null) {
+    return Result.combineWithAllErrors([
+      validatePairKey(keyOrPairs, "key"),
+      validateSingleLineValue(value, "value"), // Value can be empty string (valid in Dockerfile)
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedKey, validatedValue]) => [{ key: validatedKey, value: validatedValue }]);
+  }
+
+  const entries: ReadonlyArray<readonly [unknown, unknown, string]> = isReadonlyArray(keyOrPairs)
+    ? keyOrPairs.map((pair, i) => {
+        const { key, value: pairValue } = (pair ?? {}) as Partial<KeyValuePair>;
+        return [key, pairValue, `pairs[${i}]`] as const;
+      })
+    : Object.entries(keyOrPairs).map(
+        ([key, pairValue]) => [key, pairValue, `pairs.${key}`] as const,
+      );
+  if (entries.length === 0) {
+    return err([validationError("pairs", "must have at least one pair", keyOrPairs)]);
+  }
+
+  return Result.combineWithAllErrors(
+    entries.map(([key, pairValue, field]) =>
+      Result.combineWithAllErrors([
+        validatePairKey(key, field),
+        validateSingleLineValue(pairValue, field),
+      ])
+        .mapErr((errors) => errors.flat())
+        .map(([validatedKey, validatedValue]) => ({ key: validatedKey, value: validatedValue })),
+    ),
+  ).mapErr((errors) => errors.flat());
+}
+
+/**
+ * Separate the value and options arguments of env()/label(), whose second
+ * parameter is the value in the single-pair form and the options in the record form.
+ */
+function splitPairArguments(
+  keyOrPairs: string | PairsInput,
+  valueOrOptions: string | CommentOptions | undefined,
+  pairOptions: CommentOptions | undefined,
+): [string | undefined, CommentOptions | undefined] {
+  if (typeof keyOrPairs === "object" && keyOrPairs !== null) {
+    return [undefined, valueOrOptions as CommentOptions | undefined];
+  }
+  return [valueOrOptions as string | undefined, pairOptions];
 }
 
 /**
  * Create an ENV instruction.
  *
- * @param key - Environment variable name
- * @param value - Environment variable value (can be empty string)
+ * @param key - Environment variable name, or a record or array of name/value pairs
+ * @param value - Environment variable value (can be empty string; `${VAR}` references are kept)
+ * @param options - Optional settings (comment); second argument in the pairs form
  * @returns Result with EnvInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -237,26 +984,46 @@ export function workdir(path: string): Result<WorkdirInstruction, Array<Validati
  *   (instruction) => console.log(instruction),
  *   (errors) => console.error(errors),
  * );
+ *
+ * // Several variables in one instruction
+ * const multiResult = env({ NODE_ENV: "production", PORT: "8080" });
+ *
+ * // Pairs in a fixed order, with a repeated key
+ * const orderedResult = env([
+ *   { key: "PATH", value: "/opt/bin:$PATH" },
+ *   { key: "PATH", value: "/app/bin:$PATH" },
+ * ]);
  * ```
  */
-export function env(key: string, value: string): Result<EnvInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateNonEmptyString(key, "key"),
-    validateString(value, "value"), // Value can be empty string (valid in Dockerfile)
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([validatedKey, validatedValue]) => ({
+export function env(
+  key: string,
+  value: string,
+  options?: CommentOptions,
+): Result<EnvInstruction, Array<ValidationError>>;
+export function env(
+  pairs: PairsInput,
+  options?: CommentOptions,
+): Result<EnvInstruction, Array<ValidationError>>;
+export function env(
+  keyOrPairs: string | PairsInput,
+  valueOrOptions?: string | CommentOptions,
+  pairOptions?: CommentOptions,
+): Result<EnvInstruction, Array<ValidationError>> {
+  const [value, options] = splitPairArguments(keyOrPairs, valueOrOptions, pairOptions);
+  return withComment(
+    validatePairs(keyOrPairs, value).map((pairs) => ({
       type: "ENV" as const,
-      key: validatedKey,
-      value: validatedValue,
-    }));
+      pairs,
+    })),
+    options?.comment,
+  );
 }
 
 /**
  * Create an EXPOSE instruction.
  *
  * @param port - Single port number (0-65535) or port range {start, end}
- * @param options - Optional settings (protocol)
+ * @param options - Optional settings (protocol, comment)
  * @returns Result with ExposeInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -274,12 +1041,15 @@ export function expose(
 ): Result<ExposeInstruction, Array<ValidationError>> {
   // Single port
   if (typeof port === "number") {
-    return validatePort(port, "port").map(() => ({
-      type: "EXPOSE" as const,
-      port,
-      endPort: null,
-      protocol: options?.protocol ?? null,
-    }));
+    return withComment(
+      validatePort(port, "port").map(() => ({
+        type: "EXPOSE" as const,
+        port,
+        endPort: null,
+        protocol: options?.protocol ?? null,
+      })),
+      options?.comment,
+    );
   }
 
   // Defensive: handle type bypass (null, primitives)
@@ -288,18 +1058,22 @@ export function expose(
   }
 
   // Port range - validatePortRange handles structure validation
-  return validatePortRange(port, "port").map((range) => ({
-    type: "EXPOSE" as const,
-    port: range.start,
-    endPort: range.end,
-    protocol: options?.protocol ?? null,
-  }));
+  return withComment(
+    validatePortRange(port, "port").map((range) => ({
+      type: "EXPOSE" as const,
+      port: range.start,
+      endPort: range.end,
+      protocol: options?.protocol ?? null,
+    })),
+    options?.comment,
+  );
 }
 
 /**
  * Create a CMD instruction.
  *
  * @param command - Shell form (string) or exec form (array of strings)
+ * @param options - Optional settings (comment)
  * @returns Result with CmdInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -319,24 +1093,22 @@ export function expose(
  */
 export function cmd(
   command: string | ReadonlyArray<string>,
+  options?: CommentOptions,
 ): Result<CmdInstruction, Array<ValidationError>> {
-  if (typeof command === "string") {
-    return validateNonEmptyString(command, "command").map(() => ({
+  return withComment(
+    validateCommand(command, "command").map((validatedCommand) => ({
       type: "CMD" as const,
-      command,
-    }));
-  }
-
-  return validateStringArray(command, "command").map((validatedCommand) => ({
-    type: "CMD" as const,
-    command: validatedCommand,
-  }));
+      command: validatedCommand,
+    })),
+    options?.comment,
+  );
 }
 
 /**
  * Create an ENTRYPOINT instruction.
  *
  * @param command - Shell form (string) or exec form (array of strings)
+ * @param options - Optional settings (comment)
  * @returns Result with EntrypointInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -356,25 +1128,22 @@ export function cmd(
  */
 export function entrypoint(
   command: string | ReadonlyArray<string>,
+  options?: CommentOptions,
 ): Result<EntrypointInstruction, Array<ValidationError>> {
-  if (typeof command === "string") {
-    return validateNonEmptyString(command, "command").map(() => ({
+  return withComment(
+    validateCommand(command, "command").map((validatedCommand) => ({
       type: "ENTRYPOINT" as const,
-      command,
-    }));
-  }
-
-  return validateStringArray(command, "command").map((validatedCommand) => ({
-    type: "ENTRYPOINT" as const,
-    command: validatedCommand,
-  }));
+      command: validatedCommand,
+    })),
+    options?.comment,
+  );
 }
 
 /**
  * Create an ARG instruction.
  *
  * @param name - Build argument name
- * @param options - Optional settings (defaultValue)
+ * @param options - Optional settings (defaultValue, comment)
  * @returns Result with ArgInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -389,23 +1158,27 @@ export function arg(
   name: string,
   options?: ArgOptions,
 ): Result<ArgInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateNonEmptyString(name, "name"),
-    validateOptional(options?.defaultValue, validateNonEmptyString, "defaultValue"),
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([validatedName, defaultValue]) => ({
-      type: "ARG" as const,
-      name: validatedName,
-      defaultValue,
-    }));
+  return withComment(
+    Result.combineWithAllErrors([
+      validatePairKey(name, "name"),
+      validateOptional(options?.defaultValue, validateArgDefault, "defaultValue"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedName, defaultValue]) => ({
+        type: "ARG" as const,
+        name: validatedName,
+        defaultValue,
+      })),
+    options?.comment,
+  );
 }
 
 /**
  * Create a LABEL instruction.
  *
- * @param key - Label key
+ * @param key - Label key, or a record or array of key/value pairs
  * @param value - Label value
+ * @param options - Optional settings (comment); second argument in the pairs form
  * @returns Result with LabelInstruction on success, ValidationError[] on failure
  *
  * @example
@@ -414,22 +1187,336 @@ export function arg(
  *   (instruction) => console.log(instruction),
  *   (errors) => console.error(errors),
  * );
+ *
+ * // Several labels in one instruction
+ * const multiResult = label({
+ *   "org.opencontainers.image.title": "api",
+ *   "org.opencontainers.image.version": "1.0.0",
+ * });
  * ```
  */
 export function label(
   key: string,
   value: string,
+  options?: CommentOptions,
+): Result<LabelInstruction, Array<ValidationError>>;
+export function label(
+  pairs: PairsInput,
+  options?: CommentOptions,
+): Result<LabelInstruction, Array<ValidationError>>;
+export function label(
+  keyOrPairs: string | PairsInput,
+  valueOrOptions?: string | CommentOptions,
+  pairOptions?: CommentOptions,
 ): Result<LabelInstruction, Array<ValidationError>> {
-  return Result.combineWithAllErrors([
-    validateNonEmptyString(key, "key"),
-    validateString(value, "value"), // Value can be empty string (valid in Dockerfile)
-  ])
-    .mapErr((errors) => errors.flat())
-    .map(([validatedKey, validatedValue]) => ({
+  const [value, options] = splitPairArguments(keyOrPairs, valueOrOptions, pairOptions);
+  return withComment(
+    validatePairs(keyOrPairs, value).map((pairs) => ({
       type: "LABEL" as const,
-      key: validatedKey,
-      value: validatedValue,
-    }));
+      pairs,
+    })),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a USER instruction.
+ *
+ * @param name - User name or numeric UID
+ * @param options - Optional settings (group name or numeric GID, comment)
+ * @returns Result with UserInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * // Name form
+ * user("node", { group: "node" }).match(
+ *   (instruction) => console.log(instruction),
+ *   (errors) => console.error(errors),
+ * );
+ *
+ * // Numeric form
+ * const numericResult = user(1000, { group: 1000 });
+ * ```
+ */
+export function user(
+  name: string | number,
+  options?: UserOptions,
+): Result<UserInstruction, Array<ValidationError>> {
+  return withComment(
+    Result.combineWithAllErrors([
+      validateUserIdentifier(name, "user"),
+      validateOptional(options?.group, validateUserIdentifier, "group"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedUser, groupValue]) => ({
+        type: "USER" as const,
+        user: validatedUser,
+        group: groupValue,
+      })),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a VOLUME instruction.
+ *
+ * @param paths - Mount point path(s) in container (string or array)
+ * @param options - Optional settings (comment)
+ * @returns Result with VolumeInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * // Single mount point
+ * const singleResult = volume("/data");
+ *
+ * // Multiple mount points
+ * const multiResult = volume(["/data", "/var/log/app"]);
+ * ```
+ */
+export function volume(
+  paths: string | ReadonlyArray<string>,
+  options?: CommentOptions,
+): Result<VolumeInstruction, Array<ValidationError>> {
+  return withComment(
+    validateDockerPathArray(paths, "paths").map((validatedPaths) => ({
+      type: "VOLUME" as const,
+      paths: validatedPaths,
+    })),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a SHELL instruction.
+ *
+ * Subsequent shell-form RUN, CMD and ENTRYPOINT instructions in the same stage
+ * are validated against this shell when the stage or containerfile is built.
+ *
+ * @param command - Shell executable and arguments (exec form only)
+ * @param options - Optional settings (comment)
+ * @returns Result with ShellInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * shell(["/bin/bash", "-o", "pipefail", "-c"]).match(
+ *   (instruction) => console.log(instruction),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function shell(
+  command: ReadonlyArray<string>,
+  options?: CommentOptions,
+): Result<ShellInstruction, Array<ValidationError>> {
+  return withComment(
+    validateStringArray(command, "command").map((validatedCommand) => ({
+      type: "SHELL" as const,
+      command: validatedCommand,
+    })),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a HEALTHCHECK instruction.
+ *
+ * @param command - Check command in shell form (string) or exec form (array of strings)
+ * @param options - Optional settings (interval, timeout, startPeriod, startInterval, retries, comment)
+ * @returns Result with HealthcheckInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * healthcheck("curl -f http://localhost/ || exit 1", {
+ *   interval: "30s",
+ *   timeout: "3s",
+ *   retries: 3,
+ * }).match(
+ *   (instruction) => console.log(instruction),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function healthcheck(
+  command: string | ReadonlyArray<string>,
+  options?: HealthcheckOptions,
+): Result<HealthcheckInstruction, Array<ValidationError>> {
+  return withComment(
+    Result.combineWithAllErrors([
+      validateCommand(command, "command"),
+      validateOptional(options?.interval, validateDuration, "interval"),
+      validateOptional(options?.timeout, validateDuration, "timeout"),
+      validateOptional(options?.startPeriod, validateDuration, "startPeriod"),
+      validateOptional(options?.startInterval, validateDuration, "startInterval"),
+      validateOptional(options?.retries, validateNonNegativeInteger, "retries"),
+    ])
+      .mapErr((errors) => errors.flat())
+      .map(([validatedCommand, interval, timeout, startPeriod, startInterval, retries]) => ({
+        type: "HEALTHCHECK" as const,
+        command: validatedCommand,
+        interval,
+        timeout,
+        startPeriod,
+        startInterval,
+        retries,
+      })),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a HEALTHCHECK NONE instruction, disabling any check inherited from the base image.
+ *
+ * @param options - Optional settings (comment)
+ * @returns Result with HealthcheckInstruction (null command)
+ *
+ * @example
+ * ```typescript
+ * const disabled = healthcheckNone();
+ * ```
+ */
+export function healthcheckNone(
+  options?: CommentOptions,
+): Result<HealthcheckInstruction, Array<ValidationError>> {
+  return withComment(
+    ok({
+      type: "HEALTHCHECK" as const,
+      command: null,
+      interval: null,
+      timeout: null,
+      startPeriod: null,
+      startInterval: null,
+      retries: null,
+    }),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a STOPSIGNAL instruction.
+ *
+ * @param signal - Signal name ("SIGINT", "INT") or number (1-64)
+ * @param options - Optional settings (comment)
+ * @returns Result with StopSignalInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * stopSignal("SIGINT").match(
+ *   (instruction) => console.log(instruction),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function stopSignal(
+  signal: string | number,
+  options?: CommentOptions,
+): Result<StopSignalInstruction, Array<ValidationError>> {
+  return withComment(
+    validateSignal(signal, "signal").map((validatedSignal) => ({
+      type: "STOPSIGNAL" as const,
+      signal: validatedSignal,
+    })),
+    options?.comment,
+  );
+}
+
+/**
+ * Instruction types Docker does not allow as ONBUILD triggers.
+ */
+const DISALLOWED_ONBUILD_TYPES: ReadonlySet<string> = new Set([
+  "ONBUILD",
+  "FROM",
+  "MAINTAINER",
+  "COMMENT",
+  "BLANK",
+]);
+
+/**
+ * Create an ONBUILD instruction wrapping another instruction.
+ *
+ * @param instruction - Instruction Result from a factory function (not ONBUILD or FROM)
+ * @param options - Optional settings (comment)
+ * @returns Result with OnbuildInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * onbuild(copy(".", "/app")).match(
+ *   (instruction) => console.log(instruction),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function onbuild(
+  instruction: Result<Instruction, Array<ValidationError>>,
+  options?: CommentOptions,
+): Result<OnbuildInstruction, Array<ValidationError>> {
+  return withComment(
+    instruction
+      .mapErr((errors) => prefixErrors("instruction", errors))
+      .andThen((inner) => {
+        if (DISALLOWED_ONBUILD_TYPES.has(inner.type)) {
+          return err([
+            validationError(
+              "instruction",
+              `ONBUILD cannot wrap a ${inner.type} instruction`,
+              inner,
+            ),
+          ]);
+        }
+        if ("comment" in inner && inner.comment !== null) {
+          return err([
+            validationError(
+              "instruction.comment",
+              "comments must be attached to the ONBUILD instruction itself",
+              inner.comment,
+            ),
+          ]);
+        }
+        return ok({
+          type: "ONBUILD" as const,
+          instruction: inner,
+        });
+      }),
+    options?.comment,
+  );
+}
+
+/**
+ * Create a comment node.
+ *
+ * Multi-line text renders as one `# ...` line per line; empty lines render as `#`.
+ * To place a comment directly above a single instruction, prefer that factory's
+ * `comment` option.
+ *
+ * @param text - Comment text without the leading `#`
+ * @returns Result with CommentInstruction on success, ValidationError[] on failure
+ *
+ * @example
+ * ```typescript
+ * comment("Build stage\nInstalls dev dependencies").match(
+ *   (node) => console.log(node),
+ *   (errors) => console.error(errors),
+ * );
+ * ```
+ */
+export function comment(text: string): Result<CommentInstruction, Array<ValidationError>> {
+  return validateString(text, "text").map((validatedText) => ({
+    type: "COMMENT" as const,
+    text: validatedText,
+  }));
+}
+
+/**
+ * Create a blank line node, for spacing between instructions.
+ *
+ * @returns Result with BlankInstruction (always Ok)
+ *
+ * @example
+ * ```typescript
+ * containerfile([from("alpine"), blank(), run("apk add curl")]);
+ * ```
+ */
+export function blank(): Result<BlankInstruction, Array<ValidationError>> {
+  return ok({ type: "BLANK" as const });
 }
 
 /**
@@ -457,39 +1544,16 @@ function isInstructionArray(
 }
 
 /**
- * Create a Containerfile definition supporting single-stage and multi-stage builds.
- *
- * @param items - Array of instruction Results (single-stage) or stage Results (multi-stage)
- * @returns Result with Containerfile on success, all ValidationErrors on failure
- *
- * @example
- * ```typescript
- * // Single-stage
- * const cf1 = containerfile([
- *   from("node:18"),
- *   workdir("/app"),
- *   copy(["package.json", "package-lock.json"], "/app"),
- *   run("npm install"),
- * ]);
- *
- * // Multi-stage (note: FROM must have { as: "name" } for --from references to work)
- * const cf2 = containerfile([
- *   stage("builder", [from("node:18", { as: "builder" }), run("npm install")]),
- *   stage("runtime", [from("node:18-alpine"), copy("./dist", "/app", { from: "builder" })]),
- * ]);
- * ```
+ * Validate the instruction or stage Results passed to containerfile().
  */
-export function containerfile(
-  items: ReadonlyArray<Result<Instruction, Array<ValidationError>>>,
-): Result<Containerfile, Array<ValidationError>>;
-export function containerfile(
-  items: ReadonlyArray<Result<Stage, Array<ValidationError>>>,
-): Result<Containerfile, Array<ValidationError>>;
-export function containerfile(
+function validateItems(
   items:
     | ReadonlyArray<Result<Instruction, Array<ValidationError>>>
     | ReadonlyArray<Result<Stage, Array<ValidationError>>>,
-): Result<Containerfile, Array<ValidationError>> {
+): Result<
+  { readonly instructions: ReadonlyArray<Instruction> } | { readonly stages: ReadonlyArray<Stage> },
+  Array<ValidationError>
+> {
   // Defensive: handle type bypass from JS or casting
   if (!isReadonlyArray(items)) {
     return err([
@@ -524,7 +1588,7 @@ export function containerfile(
       return err(errors);
     }
 
-    return ok({ instructions });
+    return validateShellForms(instructions).map((validated) => ({ instructions: validated }));
   } else {
     // Multi-stage: array of stage Results
     const stages: Array<Stage> = [];
@@ -543,3 +1607,54 @@ export function containerfile(
     return ok({ stages });
   }
 }
+
+/**
+ * Create a Containerfile definition supporting single-stage and multi-stage builds.
+ *
+ * @param items - Array of instruction Results (single-stage) or stage Results (multi-stage)
+ * @param options - Optional settings (parser directives, rendered at the top of the file)
+ * @returns Result with Containerfile on success, all ValidationErrors on failure
+ *
+ * @example
+ * ```typescript
+ * // Single-stage
+ * const cf1 = containerfile([
+ *   from("node:18"),
+ *   workdir("/app"),
+ *   copy(["package.json", "package-lock.json"], "/app"),
+ *   run("npm install"),
+ * ]);
+ *
+ * // Multi-stage (note: FROM must have { as: "name" } for --from references to work)
+ * const cf2 = containerfile([
+ *   stage("builder", [from("node:18", { as: "builder" }), run("npm install")]),
+ *   stage("runtime", [from("node:18-alpine"), copy("./dist", "/app", { from: "builder" })]),
+ * ]);
+ *
+ * // With parser directives
+ * const cf3 = containerfile([from("node:18"), run("npm install")], {
+ *   directives: [syntaxDirective("docker/dockerfile:1.7")],
+ * });
+ * ```
+ */
+export function containerfile(
+  items: ReadonlyArray<Result<Instruction, Array<ValidationError>>>,
+  options?: ContainerfileOptions,
+): Result<Containerfile, Array<ValidationError>>;
+export function containerfile(
+  items: ReadonlyArray<Result<Stage, Array<ValidationError>>>,
+  options?: ContainerfileOptions,
+): Result<Containerfile, Array<ValidationError>>;
+export function containerfile(
+  items:
+    | ReadonlyArray<Result<Instruction, Array<ValidationError>>>
+    | ReadonlyArray<Result<Stage, Array<ValidationError>>>,
+  options?: ContainerfileOptions,
+): Result<Containerfile, Array<ValidationError>> {
+  return Result.combineWithAllErrors([
+    validateItems(items),
+    validateDirectives(options?.directives),
+  ])
+    .mapErr((errors) => errors.flat())
+    .map(([content, directives]) => ({ directives, ...content }));
+}
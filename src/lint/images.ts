@@ -0,0 +1,160 @@
+// pattern: Functional Core
+
+import type { Instruction } from "../types.js";
+import type { Rule, RuleContext } from "./types.js";
+
+/**
+ * A FROM image after ARG substitution, split into its parts
+ */
+type ImageReference = {
+  /** The reference as written, e.g. "node:${NODE_VERSION}" */
+  readonly written: string;
+  /** The reference with ARG defaults substituted, e.g. "node:22" */
+  readonly resolved: string;
+  readonly tag: string | null;
+  readonly digest: string | null;
+};
+
+// $NAME and ${NAME}, the references from() accepts in a tag
+const VARIABLE = /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g;
+
+/**
+ * Substitute variables the way the builder does for FROM, using the defaults
+ * of ARGs declared before the first FROM.
+ * Returns null when a variable has no default: its value is only known at build time.
+ */
+function substitute(image: string, defaults: ReadonlyMap<string, string>): string | null {
+  let unresolved = false;
+  const resolved = image.replace(VARIABLE, (_match, braced: string | undefined, bare: string) => {
+    const value = defaults.get(braced ?? bare);
+    unresolved ||= value === undefined;
+    return value ?? "";
+  });
+  return unresolved ? null : resolved;
+}
+
+/**
+ * Defaults of the ARGs declared before the first FROM, the only ones FROM can use
+ */
+function globalArgDefaults({ stages }: RuleContext): Map<string, string> {
+  const instructions = stages[0]?.instructions ?? [];
+  const firstFrom = instructions.findIndex((instruction) => instruction.type === "FROM");
+  return new Map(
+    instructions
+      .slice(0, firstFrom === -1 ? instructions.length : firstFrom)
+      .flatMap((instruction) =>
+        instruction.type === "ARG" && instruction.defaultValue !== null
+          ? [[instruction.name, instruction.defaultValue] as const]
+          : [],
+      ),
+  );
+}
+
+/**
+ * Lowercased `AS` names of the FROMs before the instruction: those of earlier
+ * stages, and those earlier in its own stage, as in a single-stage instruction list
+ */
+function earlierAliases({ stage, stages, index }: RuleContext): Set<string> {
+  const earlier = [
+    ...stages.slice(0, stage.index).flatMap((previous) => previous.instructions),
+    ...stage.instructions.slice(0, index),
+  ];
+  return new Set(
+    earlier.flatMap((instruction) =>
+      instruction.type === "FROM" && instruction.as !== null ? [instruction.as.toLowerCase()] : [],
+    ),
+  );
+}
+
+/**
+ * The registry image a FROM pulls, or null when it pulls none: `scratch`, an
+ * earlier FROM's alias, or a reference whose variables have no default
+ */
+function baseImage(instruction: Instruction, context: RuleContext): ImageReference | null {
+  if (instruction.type !== "FROM") {
+    return null;
+  }
+  const resolved = substitute(instruction.image, globalArgDefaults(context));
+  if (resolved === null || resolved === "" || resolved.toLowerCase() === "scratch") {
+    return null;
+  }
+  if (earlierAliases(context).has(resolved.toLowerCase())) {
+    return null;
+  }
+  const at = resolved.indexOf("@");
+  const name = at === -1 ? resolved : resolved.slice(0, at);
+  // A colon before the last slash belongs to a registry port, not a tag
+  const colon = name.lastIndexOf(":");
+  return {
+    written: instruction.image,
+    resolved,
+    tag: colon > name.lastIndexOf("/") ? name.slice(colon + 1) : null,
+    digest: at === -1 ? null : resolved.slice(at + 1),
+  };
+}
+
+function describe(image: ImageReference): string {
+  return image.resolved === image.written
+    ? `FROM ${image.written}`
+    : `FROM ${image.written} (${image.resolved} with ARG defaults)`;
+}
+
+/**
+ * A visit function reporting `message(image)` for FROMs that pull an image
+ */
+function check(message: (image: ImageReference) => string | null): Rule["visit"] {
+  return (instruction, context) => {
+    const image = baseImage(instruction, context);
+    const found = image === null ? null : message(image);
+    return found === null ? [] : [{ message: found }];
+  };
+}
+
+/**
+ * Flags base images with neither a tag nor a digest, which pull whatever
+ * `latest` points to at build time
+ */
+export const imageTagRequired: Rule = {
+  id: "image-tag-required",
+  description: "Base images should name a tag or digest",
+  severity: "warning",
+  visit: check((image) =>
+    image.tag === null && image.digest === null
+      ? `${describe(image)} has no tag, so it pulls "latest"; pin a version`
+      : null,
+  ),
+};
+
+/**
+ * Flags base images tagged `latest` without a digest
+ */
+export const noLatestTag: Rule = {
+  id: "no-latest-tag",
+  description: "Base images should not use the latest tag",
+  severity: "warning",
+  visit: check((image) =>
+    image.tag === "latest" && image.digest === null
+      ? `${describe(image)} uses the mutable "latest" tag; pin a version`
+      : null,
+  ),
+};
+
+/**
+ * Flags base images without a digest. Not in recommendedRules: add it for a
+ * policy where every build pulls byte-identical base images.
+ *
+ * @example
+ * ```typescript
+ * lint(containerfile, { rules: [...recommendedRules, imageDigestRequired] });
+ * ```
+ */
+export const imageDigestRequired: Rule = {
+  id: "image-digest-required",
+  description: "Base images should be pinned to a digest",
+  severity: "warning",
+  visit: check((image) =>
+    image.digest === null
+      ? `${describe(image)} is not pinned to a digest; append @sha256:<digest>`
+      : null,
+  ),
+};
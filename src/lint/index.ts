@@ -0,0 +1,217 @@
+// pattern: Functional Core
+
+import { Result, ok, err } from "neverthrow";
+import type { Containerfile, Instruction } from "../types.js";
+import { ValidationError, validationError, isReadonlyArray } from "../errors.js";
+import type { Diagnostic, LintOptions, Rule, Severity, StageContext } from "./types.js";
+import { recommendedRules } from "./rules.js";
+
+export type {
+  Severity,
+  StageContext,
+  RuleContext,
+  Fix,
+  Finding,
+  Rule,
+  Diagnostic,
+  LintOptions,
+} from "./types.js";
+
+export {
+  jsonArgsRecommended,
+  redundantInstruction,
+  noSudo,
+  noCdInRun,
+  workdirAbsolute,
+  finalUserRoot,
+  recommendedRules,
+} from "./rules.js";
+
+export { imageTagRequired, noLatestTag, imageDigestRequired } from "./images.js";
+
+const RULE_SEVERITIES: ReadonlyArray<Severity> = ["error", "warning", "info"];
+const SEVERITIES: ReadonlyArray<Severity | "off"> = [...RULE_SEVERITIES, "off"];
+
+function stageContexts(containerfile: Containerfile): Array<StageContext> {
+  const stages =
+    "instructions" in containerfile
+      ? [{ name: null, instructions: containerfile.instructions }]
+      : containerfile.stages;
+  return stages.map((stage, index) => ({
+    index,
+    name: stage.name,
+    alias:
+      stage.instructions.find(
+        (instruction): instruction is Extract<Instruction, { type: "FROM" }> =>
+          instruction.type === "FROM",
+      )?.as ?? null,
+    instructions: stage.instructions,
+    isFinal: index === stages.length - 1,
+  }));
+}
+
+/**
+ * Check a containerfile against lint rules.
+ *
+ * Every rule visits every instruction with its stage context. Diagnostics are
+ * returned in instruction order, then rule order.
+ *
+ * @param containerfile - Containerfile to check
+ * @param options - Rules to run and severity overrides
+ * @returns All diagnostics; empty when nothing was found
+ *
+ * @example
+ * ```typescript
+ * const result = containerfile([from("node:20"), cmd("node server.js")]);
+ * if (result.isOk()) {
+ *   for (const d of lint(result.value, { severity: { "no-cd-in-run": "off" } })) {
+ *     console.log(`${d.location}: ${d.severity}: ${d.message} (${d.ruleId})`);
+ *   }
+ *   // instructions[1]: warning: CMD uses shell form, ... (json-args-recommended)
+ * }
+ * ```
+ */
+export function lint(containerfile: Containerfile, options?: LintOptions): Array<Diagnostic> {
+  const overrides = options?.severity ?? {};
+  const rules = (options?.rules ?? recommendedRules).flatMap((rule) => {
+    const severity = Object.hasOwn(overrides, rule.id) ? overrides[rule.id] : rule.severity;
+    return severity === undefined || severity === "off" ? [] : [{ rule, severity }];
+  });
+
+  const multiStage = "stages" in containerfile;
+  const stages = stageContexts(containerfile);
+  return stages.flatMap((stage) =>
+    stage.instructions.flatMap((instruction, index) =>
+      rules.flatMap(({ rule, severity }) =>
+        rule.visit(instruction, { stage, stages, index }).map((finding): Diagnostic => ({
+          ruleId: rule.id,
+          severity,
+          message: finding.message,
+          location: multiStage
+            ? `stages[${stage.index}].instructions[${index}]`
+            : `instructions[${index}]`,
+          stageIndex: multiStage ? stage.index : null,
+          instructionIndex: index,
+          fix: finding.fix ?? null,
+        })),
+      ),
+    ),
+  );
+}
+
+/**
+ * Apply the fixes of the given diagnostics.
+ * When several diagnostics fix the same instruction, only the first is applied;
+ * lint the result again to pick up the rest.
+ *
+ * @param containerfile - The containerfile the diagnostics were reported for
+ * @param diagnostics - Diagnostics from lint(); those without a fix are ignored
+ * @returns The containerfile with fixed instructions replaced
+ */
+export function applyFixes(
+  containerfile: Containerfile,
+  diagnostics: ReadonlyArray<Diagnostic>,
+): Containerfile {
+  const fixes = new Map<string, ReadonlyArray<Instruction>>();
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.fix !== null && !fixes.has(diagnostic.location)) {
+      fixes.set(diagnostic.location, diagnostic.fix.replacement);
+    }
+  }
+  const fixInstructions = (instructions: ReadonlyArray<Instruction>, prefix: string) =>
+    instructions.flatMap(
+      (instruction, i) => fixes.get(`${prefix}instructions[${i}]`) ?? [instruction],
+    );
+
+  return "instructions" in containerfile
+    ? { ...containerfile, instructions: fixInstructions(containerfile.instructions, "") }
+    : {
+        ...containerfile,
+        stages: containerfile.stages.map((stage, i) => ({
+          ...stage,
+          instructions: fixInstructions(stage.instructions, `stages[${i}].`),
+        })),
+      };
+}
+
+function validateRule(value: unknown, field: string): Result<Rule, Array<ValidationError>> {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    typeof (value as Record<string, unknown>)["id"] !== "string" ||
+    typeof (value as Record<string, unknown>)["visit"] !== "function" ||
+    !RULE_SEVERITIES.includes((value as Record<string, unknown>)["severity"] as Severity)
+  ) {
+    return err([
+      validationError(
+        field,
+        `must be a Rule with id, visit and a severity of ${RULE_SEVERITIES.join(", ")}`,
+        value,
+      ),
+    ]);
+  }
+  return ok(value as Rule);
+}
+
+/**
+ * Validate LintOptions from a config file.
+ * Severity overrides must name a configured rule: one of `rules`, or of
+ * recommendedRules when `rules` is not given.
+ *
+ * @param value - Candidate options
+ * @param field - Field path for errors
+ * @returns Result with the options, or ValidationErrors for each invalid rule or override
+ */
+export function validateLintOptions(
+  value: unknown,
+  field: string = "lint",
+): Result<LintOptions, Array<ValidationError>> {
+  if (typeof value !== "object" || value === null || isReadonlyArray(value)) {
+    return err([validationError(field, "must be an object", value)]);
+  }
+  const { rules, severity } = value as Record<string, unknown>;
+  const errors: Array<ValidationError> = [];
+  let configured: ReadonlyArray<Rule> = recommendedRules;
+  if (rules !== undefined) {
+    if (!isReadonlyArray(rules)) {
+      errors.push(validationError(`${field}.rules`, "must be an array of rules", rules));
+    } else {
+      configured = rules.flatMap((rule, i) =>
+        validateRule(rule, `${field}.rules[${i}]`).match(
+          (valid) => [valid],
+          (e) => {
+            errors.push(...e);
+            return [];
+          },
+        ),
+      );
+    }
+  }
+  const ids = configured.map((rule) => rule.id);
+  if (severity !== undefined) {
+    if (typeof severity !== "object" || severity === null || isReadonlyArray(severity)) {
+      errors.push(validationError(`${field}.severity`, "must be a record of rule ids", severity));
+    } else {
+      for (const [id, level] of Object.entries(severity)) {
+        if ((rules === undefined || isReadonlyArray(rules)) && !ids.includes(id)) {
+          errors.push(
+            validationError(
+              `${field}.severity.${id}`,
+              `unknown rule id; configured rules are: ${ids.join(", ")}`,
+              id,
+            ),
+          );
+        } else if (!SEVERITIES.includes(level as Severity)) {
+          errors.push(
+            validationError(
+              `${field}.severity.${id}`,
+              `must be one of: ${SEVERITIES.join(", ")}`,
+              level,
+            ),
+          );
+        }
+      }
+    }
+  }
+  return errors.length > 0 ? err(errors) : ok(value as LintOptions);
+}
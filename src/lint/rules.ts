@@ -0,0 +1,157 @@
+// pattern: Functional Core
+
+import type { Instruction, RunInstruction } from "../types.js";
+import type { Finding, Rule } from "./types.js";
+import { imageTagRequired, noLatestTag } from "./images.js";
+
+// Words that can move from shell form to JSON form unchanged: no quoting,
+// expansion, globbing, redirection or command separators
+const PLAIN_WORD = /^[^\s"'\\$`|&;<>(){}[\]*?~#!]+$/;
+
+// A leading `NAME=value` word sets a variable for the command in shell form;
+// in JSON form it would be run as the program
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * The shell script a RUN executes, for text-based checks
+ */
+function runScript(command: RunInstruction["command"]): string {
+  if (typeof command === "string") {
+    return command;
+  }
+  return "body" in command ? command.body : command.join(" ");
+}
+
+/**
+ * Flags CMD and ENTRYPOINT in shell form: the process runs under `/bin/sh -c`,
+ * so it does not receive signals such as SIGTERM on `docker stop`.
+ * Commands made of plain words, not starting with a variable assignment, are
+ * fixed by switching to JSON form.
+ */
+export const jsonArgsRecommended: Rule = {
+  id: "json-args-recommended",
+  description: "CMD and ENTRYPOINT should use JSON (exec) form",
+  severity: "warning",
+  visit: (instruction) => {
+    if (
+      (instruction.type !== "CMD" && instruction.type !== "ENTRYPOINT") ||
+      typeof instruction.command !== "string"
+    ) {
+      return [];
+    }
+    const words = instruction.command.trim().split(/\s+/);
+    const finding: Finding = {
+      message: `${instruction.type} uses shell form, so signals are not delivered to the process; use JSON form`,
+    };
+    return words.every((word) => PLAIN_WORD.test(word)) && !ASSIGNMENT.test(words[0] ?? "")
+      ? [
+          {
+            ...finding,
+            fix: {
+              description: `Use ${JSON.stringify(words)}`,
+              replacement: [{ ...instruction, command: words }],
+            },
+          },
+        ]
+      : [finding];
+  },
+};
+
+// Instructions where only the last occurrence in a stage takes effect
+const LAST_ONE_WINS = new Set<Instruction["type"]>(["CMD", "ENTRYPOINT", "HEALTHCHECK"]);
+
+/**
+ * Flags a CMD, ENTRYPOINT or HEALTHCHECK that a later one in the same stage overrides.
+ * Fixed by removing the overridden instruction.
+ */
+export const redundantInstruction: Rule = {
+  id: "redundant-instruction",
+  description: "Only the last CMD, ENTRYPOINT and HEALTHCHECK in a stage take effect",
+  severity: "warning",
+  visit: (instruction, { stage, index }) => {
+    if (
+      !LAST_ONE_WINS.has(instruction.type) ||
+      !stage.instructions.slice(index + 1).some((later) => later.type === instruction.type)
+    ) {
+      return [];
+    }
+    return [
+      {
+        message: `${instruction.type} is overridden by a later ${instruction.type} in this stage`,
+        fix: { description: `Remove this ${instruction.type}`, replacement: [] },
+      },
+    ];
+  },
+};
+
+/**
+ * Flags `sudo` in RUN: build steps already run as the current USER, and sudo
+ * in an image adds a privilege escalation path.
+ */
+export const noSudo: Rule = {
+  id: "no-sudo",
+  description: "RUN should not use sudo",
+  severity: "warning",
+  visit: (instruction) =>
+    instruction.type === "RUN" && /(^|[\s;&|(])sudo\s/.test(runScript(instruction.command))
+      ? [{ message: "RUN uses sudo; switch USER instead" }]
+      : [],
+};
+
+/**
+ * Flags `cd` in RUN: the directory change does not persist to later
+ * instructions, which is rarely what the author meant.
+ */
+export const noCdInRun: Rule = {
+  id: "no-cd-in-run",
+  description: "Use WORKDIR instead of cd in RUN",
+  severity: "info",
+  visit: (instruction) =>
+    instruction.type === "RUN" && /(^|&&|;|\|\|)\s*cd\s/.test(runScript(instruction.command))
+      ? [{ message: "RUN changes directory with cd; use WORKDIR so later instructions see it" }]
+      : [],
+};
+
+/**
+ * Flags relative WORKDIR paths, which resolve against the previous WORKDIR
+ * and so depend on the base image.
+ */
+export const workdirAbsolute: Rule = {
+  id: "workdir-absolute",
+  description: "WORKDIR should be an absolute path",
+  severity: "warning",
+  visit: (instruction) =>
+    instruction.type === "WORKDIR" && !/^(\/|\$|[A-Za-z]:[\\/])/.test(instruction.path)
+      ? [{ message: `WORKDIR ${instruction.path} is relative to the previous WORKDIR` }]
+      : [],
+};
+
+/**
+ * Flags a final stage whose last USER is root, so the container runs as root
+ */
+export const finalUserRoot: Rule = {
+  id: "final-user-root",
+  description: "The image should not switch back to root",
+  severity: "warning",
+  visit: (instruction, { stage, index }) =>
+    stage.isFinal &&
+    instruction.type === "USER" &&
+    (instruction.user === "root" || instruction.user === "0") &&
+    !stage.instructions.slice(index + 1).some((later) => later.type === "USER")
+      ? [{ message: "the image runs as root; switch to an unprivileged USER at the end" }]
+      : [],
+};
+
+/**
+ * Rules lint() runs by default
+ */
+export const recommendedRules: ReadonlyArray<Rule> = [
+  jsonArgsRecommended,
+  redundantInstruction,
+  noSudo,
+  noCdInRun,
+  workdirAbsolute,
+  finalUserRoot,
+  imageTagRequired,
+  noLatestTag,
+];
@@ -0,0 +1,87 @@
+// pattern: Functional Core
+
+import type { Instruction } from "../types.js";
+
+/**
+ * How serious a diagnostic is. Only errors make `containerfile-ts lint` fail.
+ */
+export type Severity = "error" | "warning" | "info";
+
+/**
+ * A build stage as seen by lint rules.
+ * A single-stage containerfile is one stage with index 0 and a null name.
+ */
+export type StageContext = {
+  readonly index: number;
+  /** Stage name given to stage(), null for single-stage containerfiles */
+  readonly name: string | null;
+  /** Alias from the stage's `FROM ... AS` */
+  readonly alias: string | null;
+  readonly instructions: ReadonlyArray<Instruction>;
+  /** True for the last stage, the one that produces the image */
+  readonly isFinal: boolean;
+};
+
+/**
+ * Where a rule is looking: the instruction's stage, every stage, and the
+ * instruction's index within its stage
+ */
+export type RuleContext = {
+  readonly stage: StageContext;
+  readonly stages: ReadonlyArray<StageContext>;
+  readonly index: number;
+};
+
+/**
+ * Automatic fix: replace the instruction with zero or more instructions
+ */
+export type Fix = {
+  readonly description: string;
+  readonly replacement: ReadonlyArray<Instruction>;
+};
+
+/**
+ * A problem reported by a rule for the instruction it visited
+ */
+export type Finding = {
+  readonly message: string;
+  readonly fix?: Fix;
+};
+
+/**
+ * A lint rule. `visit` is called once per instruction, in order, and returns
+ * the problems found at that instruction.
+ */
+export type Rule = {
+  /** Unique kebab-case identifier, used to configure the rule */
+  readonly id: string;
+  readonly description: string;
+  /** Severity used unless LintOptions overrides it */
+  readonly severity: Severity;
+  readonly visit: (instruction: Instruction, context: RuleContext) => ReadonlyArray<Finding>;
+};
+
+/**
+ * A finding located in the containerfile and tagged with its rule
+ */
+export type Diagnostic = {
+  readonly ruleId: string;
+  readonly severity: Severity;
+  readonly message: string;
+  /** Path to the instruction, e.g. "stages[1].instructions[3]" or "instructions[0]" */
+  readonly location: string;
+  /** Stage index, null for single-stage containerfiles */
+  readonly stageIndex: number | null;
+  readonly instructionIndex: number;
+  readonly fix: Fix | null;
+};
+
+/**
+ * Options for lint()
+ */
+export type LintOptions = {
+  /** Rules to run. Default: recommendedRules */
+  readonly rules?: ReadonlyArray<Rule>;
+  /** Per-rule severity overrides by rule id; "off" disables a rule */
+  readonly severity?: Readonly<Record<string, Severity | "off">>;
+};
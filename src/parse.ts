@@ -0,0 +1,1209 @@
+// pattern: Functional Core
+
+import { Result, ok, err } from "neverthrow";
+import type {
+  Containerfile,
+  Directive,
+  Instruction,
+  InlineFileInput,
+  MountOptions,
+} from "./types.js";
+import { ValidationError, ParseError, locateErrors, validationError } from "./errors.js";
+import {
+  from,
+  run,
+  copy,
+  add,
+  workdir,
+  env,
+  expose,
+  cmd,
+  entrypoint,
+  arg,
+  label,
+  user,
+  volume,
+  shell,
+  healthcheck,
+  healthcheckNone,
+  stopSignal,
+  onbuild,
+  comment,
+  blank,
+  containerfile,
+} from "./instructions.js";
+import { stage } from "./stage.js";
+import { syntaxDirective, escapeDirective, checkDirective } from "./directives.js";
+import { requiresJsonForm } from "./paths.js";
+import { validateBoolean, validateNonNegativeInteger, validateOneOf } from "./schemas/index.js";
+
+/**
+ * A physical line of the source text (1-based line number)
+ */
+type SourceLine = {
+  readonly text: string;
+  readonly line: number;
+};
+
+/**
+ * Body of a heredoc read from the lines following its instruction
+ */
+type HeredocBody = {
+  readonly delimiter: string;
+  readonly quoted: boolean;
+  readonly body: string;
+};
+
+/**
+ * An instruction after line continuations are joined and heredoc bodies are read
+ */
+type InstructionNode = {
+  readonly kind: "instruction";
+  readonly keyword: string;
+  readonly args: string;
+  readonly line: number;
+  readonly column: number;
+  /** Column of `args` on the first physical line */
+  readonly argsColumn: number;
+  /** Length of the part of `args` that comes from the first physical line */
+  readonly firstLineLength: number;
+  readonly heredocs: ReadonlyArray<HeredocBody>;
+};
+
+/**
+ * Item found by the scanner: a block of comment lines, a blank line or an instruction
+ */
+type Node =
+  | { readonly kind: "comment"; readonly text: string; readonly line: number }
+  | { readonly kind: "blank"; readonly line: number }
+  | InstructionNode;
+
+/**
+ * A whitespace- or shell-separated word and its offset in the instruction arguments
+ */
+type Token = {
+  readonly value: string;
+  readonly offset: number;
+};
+
+/**
+ * A leading `--name[=value]` flag
+ */
+type Flag = {
+  readonly name: string;
+  readonly value: string | null;
+  readonly offset: number;
+};
+
+type InstructionResult = Result<Instruction, Array<ValidationError>>;
+
+const DIRECTIVE_PATTERN = /^#\s*([a-zA-Z][a-zA-Z0-9]*)\s*=\s*(.*?)\s*$/;
+
+const HEREDOC_PATTERN = /^<<(-?)(["']?)([A-Za-z0-9_][A-Za-z0-9_.-]*)\2$/;
+
+/**
+ * Instructions whose arguments may open heredocs
+ */
+const HEREDOC_KEYWORDS: ReadonlySet<string> = new Set(["RUN", "COPY", "ADD"]);
+
+/**
+ * Column of an argument offset, exact on the first physical line and
+ * falling back to the instruction's column on continuation lines
+ */
+function columnOf(node: InstructionNode, offset: number): number {
+  return offset < node.firstLineLength ? node.argsColumn + offset : node.column;
+}
+
+function errorAt(
+  node: InstructionNode,
+  offset: number | null,
+  field: string,
+  message: string,
+  value: unknown,
+): ParseError {
+  return {
+    ...validationError(field, message, value),
+    line: node.line,
+    column: offset === null ? node.column : columnOf(node, offset),
+  };
+}
+
+/**
+ * Split text on whitespace, keeping each word's offset
+ */
+function splitWords(text: string, base: number = 0): Array<Token> {
+  return [...text.matchAll(/\S+/g)].map((match) => ({
+    value: match[0],
+    offset: base + (match.index ?? 0),
+  }));
+}
+
+/**
+ * Split text into shell words, removing quotes and escapes.
+ * Inside double quotes only `"`, `$` and the escape character can be escaped;
+ * single quotes are literal. Variables are not expanded.
+ * With `split` false, unquoted whitespace is kept and the text is a single word.
+ */
+function lexWords(
+  text: string,
+  escape: string,
+  base: number = 0,
+  split: boolean = true,
+): Array<Token> {
+  const tokens: Array<Token> = [];
+  let value: string | null = null;
+  let start = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (split && quote === null && /\s/.test(ch)) {
+      if (value !== null) {
+        tokens.push({ value, offset: base + start });
+        value = null;
+      }
+      continue;
+    }
+    if (value === null) {
+      value = "";
+      start = i;
+    }
+    if (quote === "'") {
+      if (ch === "'") {
+        quote = null;
+      } else {
+        value += ch;
+      }
+    } else if (ch === escape && i + 1 < text.length) {
+      const next = text.charAt(i + 1);
+      if (quote === '"' && next !== '"' && next !== "$" && next !== escape) {
+        value += ch;
+      } else {
+        value += next;
+        i++;
+      }
+    } else if (quote === '"') {
+      if (ch === '"') {
+        quote = null;
+      } else {
+        value += ch;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else {
+      value += ch;
+    }
+  }
+  if (value !== null) {
+    tokens.push({ value, offset: base + start });
+  }
+  return tokens;
+}
+
+/**
+ * Read the leading `--flag` words of instruction arguments
+ */
+function takeFlags(args: string): {
+  readonly flags: ReadonlyArray<Flag>;
+  readonly rest: string;
+  readonly restOffset: number;
+} {
+  const flags: Array<Flag> = [];
+  for (const token of splitWords(args)) {
+    if (!token.value.startsWith("--")) {
+      return { flags, rest: args.slice(token.offset), restOffset: token.offset };
+    }
+    const equals = token.value.indexOf("=");
+    flags.push({
+      name: equals === -1 ? token.value.slice(2) : token.value.slice(2, equals),
+      value: equals === -1 ? null : token.value.slice(equals + 1),
+      offset: token.offset,
+    });
+  }
+  return { flags, rest: "", restOffset: args.length };
+}
+
+/**
+ * Report flags an instruction does not accept
+ */
+function unknownFlags(
+  node: InstructionNode,
+  flags: ReadonlyArray<Flag>,
+  known: ReadonlyArray<string>,
+): Array<ParseError> {
+  return flags
+    .filter((flag) => !known.includes(flag.name))
+    .map((flag) =>
+      errorAt(
+        node,
+        flag.offset,
+        "flags",
+        `unknown flag --${flag.name} for ${node.keyword}`,
+        flag.value === null ? `--${flag.name}` : `--${flag.name}=${flag.value}`,
+      ),
+    );
+}
+
+/**
+ * Find the last occurrence of a flag; later flags win, as in Docker
+ */
+function lastFlag(flags: ReadonlyArray<Flag>, name: string): Flag | undefined {
+  return [...flags].reverse().find((flag) => flag.name === name);
+}
+
+function flagValue(flags: ReadonlyArray<Flag>, name: string): string | undefined {
+  return lastFlag(flags, name)?.value ?? undefined;
+}
+
+function flagValues(flags: ReadonlyArray<Flag>, name: string): Array<string> {
+  return flags.flatMap((flag) => (flag.name === name && flag.value !== null ? [flag.value] : []));
+}
+
+/**
+ * Read and validate the last `--name` flag, locating errors at the flag.
+ * Ok(undefined) when the flag is absent.
+ */
+function flagWith<T>(
+  node: InstructionNode,
+  flags: ReadonlyArray<Flag>,
+  name: string,
+  validate: (value: string | null, field: string) => Result<T, Array<ValidationError>>,
+  field: string = name,
+): Result<T | undefined, Array<ParseError>> {
+  const flag = lastFlag(flags, name);
+  if (flag === undefined) {
+    return ok(undefined);
+  }
+  return validate(flag.value, field).mapErr((errors) =>
+    locateErrors(node.line, columnOf(node, flag.offset), errors),
+  );
+}
+
+/**
+ * Convert "true" and "false" to booleans; a bare flag (null) is true
+ */
+function parseBoolean(
+  value: string | null,
+  field: string,
+): Result<boolean, Array<ValidationError>> {
+  if (value === null) {
+    return ok(true);
+  }
+  return validateBoolean(value === "true" ? true : value === "false" ? false : value, field);
+}
+
+/**
+ * Convert digit strings to non-negative integers
+ */
+function parseNumber(value: string | null, field: string): Result<number, Array<ValidationError>> {
+  return validateNonNegativeInteger(
+    value !== null && /^\d+$/.test(value) ? Number(value) : value,
+    field,
+  );
+}
+
+/**
+ * Parse a JSON array of strings (exec form). Returns null for anything else,
+ * which Docker treats as shell form.
+ */
+function parseJsonArray(text: string): ReadonlyArray<string> | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("[")) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(trimmed);
+    return Array.isArray(value) && value.every((item) => typeof item === "string") ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the value of a RUN --mount flag into mount options for run()
+ */
+function parseMount(
+  node: InstructionNode,
+  flag: Flag,
+  index: number,
+): Result<MountOptions, Array<ParseError>> {
+  const options: Record<string, unknown> = { type: "bind" };
+  const errors: Array<ParseError> = [];
+  const set = <T>(key: string, parsed: Result<T, Array<ValidationError>>): void => {
+    parsed.match(
+      (value) => {
+        options[key] = value;
+      },
+      (parseErrors) =>
+        errors.push(...locateErrors(node.line, columnOf(node, flag.offset), parseErrors)),
+    );
+  };
+  for (const part of (flag.value ?? "").split(",")) {
+    const equals = part.indexOf("=");
+    const key = equals === -1 ? part : part.slice(0, equals);
+    const value = equals === -1 ? null : part.slice(equals + 1);
+    switch (key) {
+      case "type":
+      case "id":
+      case "sharing":
+      case "from":
+      case "mode":
+      case "env":
+        options[key] = value;
+        break;
+      case "target":
+      case "dst":
+      case "destination":
+        options["target"] = value;
+        break;
+      case "source":
+      case "src":
+        options["source"] = value;
+        break;
+      case "uid":
+      case "gid":
+      case "size":
+        set(key, parseNumber(value, `mounts[${index}].${key}`));
+        break;
+      case "readonly":
+      case "ro":
+        set("readonly", parseBoolean(value, `mounts[${index}].readonly`));
+        break;
+      case "readwrite":
+      case "rw":
+        set("readwrite", parseBoolean(value, `mounts[${index}].readwrite`));
+        break;
+      case "required":
+        set("required", parseBoolean(value, `mounts[${index}].required`));
+        break;
+      default:
+        errors.push(errorAt(node, flag.offset, "mounts", `unknown mount option "${key}"`, part));
+    }
+  }
+  return errors.length > 0 ? err(errors) : ok(options as MountOptions);
+}
+
+/**
+ * Find the heredoc body for a `<<DELIM` word, in order of appearance
+ */
+function heredocFor(
+  node: InstructionNode,
+  token: Token,
+  index: number,
+): Result<HeredocBody, Array<ParseError>> {
+  const body = node.heredocs[index];
+  if (body === undefined || HEREDOC_PATTERN.exec(token.value)?.[3] !== body.delimiter) {
+    return err([errorAt(node, token.offset, "heredoc", "unexpected heredoc", token.value)]);
+  }
+  return ok(body);
+}
+
+function parseFrom(node: InstructionNode): Array<InstructionResult> {
+  const { flags, rest, restOffset } = takeFlags(node.args);
+  const words = splitWords(rest, restOffset);
+  const errors = unknownFlags(node, flags, ["platform"]);
+  const [image, as, name, ...extra] = words;
+  if (image === undefined) {
+    errors.push(errorAt(node, null, "image", "FROM requires an image", node.args));
+  } else if (
+    (as !== undefined && (as.value.toUpperCase() !== "AS" || name === undefined)) ||
+    extra.length > 0
+  ) {
+    errors.push(errorAt(node, as?.offset ?? null, "as", "expected FROM <image> [AS <name>]", rest));
+  }
+  if (errors.length > 0 || image === undefined) {
+    return [err(errors)];
+  }
+  return [
+    from(image.value, {
+      ...(name !== undefined ? { as: name.value } : {}),
+      ...(flagValue(flags, "platform") !== undefined
+        ? { platform: flagValue(flags, "platform") }
+        : {}),
+    }),
+  ];
+}
+
+function parseRun(node: InstructionNode): Array<InstructionResult> {
+  const { flags, rest, restOffset } = takeFlags(node.args);
+  const errors = unknownFlags(node, flags, ["mount", "network", "security"]);
+  const mounts: Array<MountOptions> = [];
+  flags
+    .filter((candidate) => candidate.name === "mount")
+    .forEach((flag, i) =>
+      parseMount(node, flag, i).match(
+        (mount) => mounts.push(mount),
+        (mountErrors) => errors.push(...mountErrors),
+      ),
+    );
+  const network = flagWith(
+    node,
+    flags,
+    "network",
+    validateOneOf(["default", "none", "host"] as const),
+  );
+  const security = flagWith(
+    node,
+    flags,
+    "security",
+    validateOneOf(["sandbox", "insecure"] as const),
+  );
+  for (const result of [network, security]) {
+    if (result.isErr()) {
+      errors.push(...result.error);
+    }
+  }
+  const options = {
+    ...(mounts.length > 0 ? { mounts } : {}),
+    network: network.unwrapOr(undefined),
+    security: security.unwrapOr(undefined),
+  };
+
+  let command: Parameters<typeof run>[0] = rest.trim();
+  if (node.heredocs.length > 0) {
+    const words = splitWords(rest, restOffset);
+    const [word] = words;
+    if (words.length !== 1 || word === undefined) {
+      errors.push(
+        errorAt(
+          node,
+          restOffset,
+          "command",
+          "a RUN heredoc must be the whole command; use a #! line or move the command into the script",
+          rest,
+        ),
+      );
+    } else {
+      heredocFor(node, word, 0).match(
+        ({ body, delimiter, quoted }) => {
+          const shebang = /^#!(.*)\n/.exec(body);
+          command = {
+            body: shebang !== null ? body.slice(shebang[0].length) : body,
+            delimiter,
+            quoted,
+            ...(shebang?.[1] !== undefined ? { interpreter: shebang[1] } : {}),
+          };
+        },
+        (heredocErrors) => errors.push(...heredocErrors),
+      );
+    }
+  } else {
+    command = parseJsonArray(rest) ?? rest.trim();
+  }
+  if (errors.length > 0) {
+    return [err(errors)];
+  }
+  return [run(command, options)];
+}
+
+/**
+ * Parse the sources and destination shared by COPY and ADD
+ */
+function parseSourcesAndDest(
+  node: InstructionNode,
+  rest: string,
+  restOffset: number,
+): Result<
+  {
+    readonly sources: ReadonlyArray<string | InlineFileInput>;
+    readonly dest: string;
+    readonly form: "json" | undefined;
+  },
+  Array<ParseError>
+> {
+  const json = parseJsonArray(rest);
+  if (json !== null) {
+    const sources = json.slice(0, -1);
+    const dest = json[json.length - 1];
+    if (sources.length === 0 || dest === undefined) {
+      return err([
+        errorAt(node, restOffset, "src", "requires at least one source and a destination", rest),
+      ]);
+    }
+    return ok({ sources, dest, form: requiresJsonForm(json) ? undefined : "json" });
+  }
+
+  const words = splitWords(rest, restOffset);
+  const last = words[words.length - 1];
+  if (words.length < 2 || last === undefined) {
+    return err([
+      errorAt(node, restOffset, "src", "requires at least one source and a destination", rest),
+    ]);
+  }
+  const errors: Array<ParseError> = [];
+  const sources: Array<string | InlineFileInput> = [];
+  let heredocIndex = 0;
+  for (const word of words.slice(0, -1)) {
+    if (!word.value.startsWith("<<")) {
+      sources.push(word.value);
+      continue;
+    }
+    heredocFor(node, word, heredocIndex).match(
+      ({ body, delimiter, quoted }) => sources.push({ contents: body, delimiter, quoted }),
+      (heredocErrors) => errors.push(...heredocErrors),
+    );
+    heredocIndex++;
+  }
+  return errors.length > 0 ? err(errors) : ok({ sources, dest: last.value, form: undefined });
+}
+
+function parseCopy(node: InstructionNode): Array<InstructionResult> {
+  const { flags, rest, restOffset } = takeFlags(node.args);
+  const errors = unknownFlags(node, flags, [
+    "from",
+    "chown",
+    "chmod",
+    "link",
+    "parents",
+    "exclude",
+  ]);
+  const parsed = Result.combineWithAllErrors([
+    parseSourcesAndDest(node, rest, restOffset),
+    flagWith(node, flags, "link", parseBoolean),
+    flagWith(node, flags, "parents", parseBoolean),
+  ]).mapErr((parseErrors) => parseErrors.flat());
+  if (errors.length > 0 || parsed.isErr()) {
+    return [err([...errors, ...(parsed.isErr() ? parsed.error : [])])];
+  }
+  const [{ sources, dest, form }, link, parents] = parsed.value;
+  const exclude = flagValues(flags, "exclude");
+  return [
+    copy(sources, dest, {
+      from: flagValue(flags, "from"),
+      chown: flagValue(flags, "chown"),
+      chmod: flagValue(flags, "chmod"),
+      link,
+      parents,
+      ...(exclude.length > 0 ? { exclude } : {}),
+      form,
+    }),
+  ];
+}
+
+function parseAdd(node: InstructionNode): Array<InstructionResult> {
+  const { flags, rest, restOffset } = takeFlags(node.args);
+  const errors = unknownFlags(node, flags, ["chown", "chmod", "checksum", "keep-git-dir", "link"]);
+  if (node.heredocs.length > 0) {
+    errors.push(errorAt(node, restOffset, "src", "ADD does not support heredoc sources", rest));
+  }
+  const parsed = Result.combineWithAllErrors([
+    parseSourcesAndDest(node, rest, restOffset),
+    flagWith(node, flags, "keep-git-dir", parseBoolean, "keepGitDir"),
+    flagWith(node, flags, "link", parseBoolean),
+  ]).mapErr((parseErrors) => parseErrors.flat());
+  if (errors.length > 0 || parsed.isErr()) {
+    return [err([...errors, ...(parsed.isErr() ? parsed.error : [])])];
+  }
+  const [{ sources, dest, form }, keepGitDir, link] = parsed.value;
+  return [
+    add(sources as ReadonlyArray<string>, dest, {
+      chown: flagValue(flags, "chown"),
+      chmod: flagValue(flags, "chmod"),
+      checksum: flagValue(flags, "checksum"),
+      keepGitDir,
+      link,
+      form,
+    }),
+  ];
+}
+
+/**
+ * Parse ENV or LABEL pairs. ENV also accepts the legacy `ENV key value` form.
+ */
+function parsePairs(
+  node: InstructionNode,
+  escape: string,
+): Result<Array<[string, string]>, Array<ParseError>> {
+  const [first] = splitWords(node.args);
+  if (node.keyword === "ENV" && first !== undefined && !first.value.includes("=")) {
+    // The legacy value is the rest of the line, unquoted as one word
+    const value = node.args.slice(first.offset + first.value.length).trim();
+    return ok([[first.value, lexWords(value, escape, 0, false)[0]?.value ?? ""]]);
+  }
+  const pairs: Array<[string, string]> = [];
+  const errors: Array<ParseError> = [];
+  const tokens = lexWords(node.args, escape);
+  for (const token of tokens) {
+    const equals = token.value.indexOf("=");
+    if (equals === -1) {
+      errors.push(errorAt(node, token.offset, "pairs", "expected key=value", token.value));
+    } else {
+      pairs.push([token.value.slice(0, equals), token.value.slice(equals + 1)]);
+    }
+  }
+  if (tokens.length === 0) {
+    errors.push(errorAt(node, null, "pairs", `${node.keyword} requires at least one pair`, ""));
+  }
+  return errors.length > 0 ? err(errors) : ok(pairs);
+}
+
+function parseEnvOrLabel(node: InstructionNode, escape: string): Array<InstructionResult> {
+  const factory = node.keyword === "ENV" ? env : label;
+  return [
+    parsePairs(node, escape).match(
+      (pairs): InstructionResult => {
+        const [single] = pairs;
+        return pairs.length === 1 && single !== undefined
+          ? factory(single[0], single[1])
+          : factory(pairs.map(([key, value]) => ({ key, value })));
+      },
+      (errors) => err(errors),
+    ),
+  ];
+}
+
+function parseExpose(node: InstructionNode): Array<InstructionResult> {
+  const words = splitWords(node.args);
+  if (words.length === 0) {
+    return [err([errorAt(node, null, "port", "EXPOSE requires at least one port", node.args)])];
+  }
+  return words.map((word) => {
+    const match = /^(\d+)(?:-(\d+))?(?:\/(tcp|udp|sctp))?$/i.exec(word.value);
+    if (match === null) {
+      return err([
+        errorAt(node, word.offset, "port", "expected <port>[-<end>][/<protocol>]", word.value),
+      ]);
+    }
+    const [, start, end, protocol] = match;
+    const options =
+      protocol !== undefined
+        ? { protocol: protocol.toLowerCase() as "tcp" | "udp" | "sctp" }
+        : undefined;
+    return end !== undefined
+      ? expose({ start: Number(start), end: Number(end) }, options)
+      : expose(Number(start), options);
+  });
+}
+
+function parseArg(node: InstructionNode, escape: string): Array<InstructionResult> {
+  const tokens = lexWords(node.args, escape);
+  if (tokens.length === 0) {
+    return [err([errorAt(node, null, "name", "ARG requires a name", node.args)])];
+  }
+  return tokens.map((token) => {
+    const equals = token.value.indexOf("=");
+    return equals === -1
+      ? arg(token.value)
+      : arg(token.value.slice(0, equals), { defaultValue: token.value.slice(equals + 1) });
+  });
+}
+
+function parseUser(node: InstructionNode): Array<InstructionResult> {
+  const value = node.args.trim();
+  const colon = value.indexOf(":");
+  return [
+    colon === -1 ? user(value) : user(value.slice(0, colon), { group: value.slice(colon + 1) }),
+  ];
+}
+
+function parseHealthcheck(node: InstructionNode): Array<InstructionResult> {
+  if (node.args.trim().toUpperCase() === "NONE") {
+    return [healthcheckNone()];
+  }
+  const { flags, rest, restOffset } = takeFlags(node.args);
+  const errors = unknownFlags(node, flags, [
+    "interval",
+    "timeout",
+    "start-period",
+    "start-interval",
+    "retries",
+  ]);
+  const match = /^\s*CMD\s+/i.exec(rest);
+  if (match === null) {
+    errors.push(
+      errorAt(node, restOffset, "command", "expected HEALTHCHECK [flags] CMD <command>", rest),
+    );
+  }
+  const retries = flagWith(node, flags, "retries", parseNumber);
+  if (retries.isErr()) {
+    errors.push(...retries.error);
+  }
+  if (errors.length > 0 || match === null) {
+    return [err(errors)];
+  }
+  const command = rest.slice(match[0].length);
+  return [
+    healthcheck(parseJsonArray(command) ?? command.trim(), {
+      interval: flagValue(flags, "interval"),
+      timeout: flagValue(flags, "timeout"),
+      startPeriod: flagValue(flags, "start-period"),
+      startInterval: flagValue(flags, "start-interval"),
+      retries: retries.unwrapOr(undefined),
+    }),
+  ];
+}
+
+function parseOnbuild(node: InstructionNode, escape: string): Array<InstructionResult> {
+  const match = /^(\S+)(\s*)/.exec(node.args);
+  if (match === null) {
+    return [err([errorAt(node, null, "instruction", "ONBUILD requires an instruction", "")])];
+  }
+  const [whole, keyword] = match;
+  const inner: InstructionNode = {
+    ...node,
+    keyword: (keyword ?? "").toUpperCase(),
+    args: node.args.slice(whole.length),
+    column: columnOf(node, 0),
+    argsColumn: node.argsColumn + whole.length,
+    firstLineLength: node.firstLineLength - whole.length,
+  };
+  const results = parseInstruction(inner, escape);
+  const [result] = results;
+  if (results.length !== 1 || result === undefined) {
+    return [
+      err([
+        errorAt(node, 0, "instruction", "ONBUILD can only wrap a single instruction", node.args),
+      ]),
+    ];
+  }
+  return [onbuild(result)];
+}
+
+/**
+ * Map an instruction node to instruction Results using the factory functions.
+ * EXPOSE and ARG produce one instruction per port or name.
+ */
+function parseInstruction(node: InstructionNode, escape: string): Array<InstructionResult> {
+  const commandOf = (): string | ReadonlyArray<string> =>
+    parseJsonArray(node.args) ?? node.args.trim();
+  switch (node.keyword) {
+    case "FROM":
+      return parseFrom(node);
+    case "RUN":
+      return parseRun(node);
+    case "COPY":
+      return parseCopy(node);
+    case "ADD":
+      return parseAdd(node);
+    case "WORKDIR":
+      // The path is one word with its quotes and escapes removed, as the builder reads it
+      return [workdir(lexWords(node.args.trim(), escape, 0, false)[0]?.value ?? "")];
+    case "ENV":
+    case "LABEL":
+      return parseEnvOrLabel(node, escape);
+    case "EXPOSE":
+      return parseExpose(node);
+    case "CMD":
+      return [cmd(commandOf())];
+    case "ENTRYPOINT":
+      return [entrypoint(commandOf())];
+    case "ARG":
+      return parseArg(node, escape);
+    case "USER":
+      return parseUser(node);
+    case "VOLUME":
+      return [volume(parseJsonArray(node.args) ?? splitWords(node.args).map((word) => word.value))];
+    case "SHELL": {
+      const json = parseJsonArray(node.args);
+      return json === null
+        ? [err([errorAt(node, 0, "command", "SHELL requires JSON form", node.args)])]
+        : [shell(json)];
+    }
+    case "HEALTHCHECK":
+      return parseHealthcheck(node);
+    case "STOPSIGNAL": {
+      const signal = node.args.trim();
+      return [stopSignal(/^\d+$/.test(signal) ? Number(signal) : signal)];
+    }
+    case "ONBUILD":
+      return parseOnbuild(node, escape);
+    case "MAINTAINER":
+      return [
+        err([
+          errorAt(
+            node,
+            null,
+            "instruction",
+            "MAINTAINER is not supported; use LABEL instead",
+            node.keyword,
+          ),
+        ]),
+      ];
+    default:
+      return [
+        err([
+          errorAt(node, null, "instruction", `unknown instruction ${node.keyword}`, node.keyword),
+        ]),
+      ];
+  }
+}
+
+/**
+ * Read parser directives from the top of the file.
+ * Directive parsing stops at the first line that is not a known directive;
+ * one blank line after the directives is consumed as their separator.
+ */
+function readDirectives(lines: ReadonlyArray<SourceLine>): {
+  readonly directives: ReadonlyArray<{
+    readonly result: Result<Directive, Array<ValidationError>>;
+    readonly line: number;
+  }>;
+  readonly escape: string;
+  readonly next: number;
+} {
+  const directives: Array<{
+    readonly result: Result<Directive, Array<ValidationError>>;
+    readonly line: number;
+  }> = [];
+  let escape = "\\";
+  let next = 0;
+  for (const { text, line } of lines) {
+    const match = DIRECTIVE_PATTERN.exec(text.trim());
+    const key = match?.[1]?.toLowerCase();
+    const value = match?.[2] ?? "";
+    if (key === "syntax") {
+      directives.push({ result: syntaxDirective(value), line });
+    } else if (key === "escape") {
+      const result = validateOneOf(["\\", "`"] as const)(value, "char").andThen(escapeDirective);
+      directives.push({ result, line });
+      escape = result.map((directive) => directive.char).unwrapOr(escape);
+    } else if (key === "check") {
+      const parts = new Map(
+        value.split(";").map((part) => {
+          const equals = part.indexOf("=");
+          return [part.slice(0, equals).trim(), part.slice(equals + 1).trim()] as const;
+        }),
+      );
+      const skip = parts.get("skip");
+      const error = parts.get("error");
+      const errorFlag: Result<boolean | undefined, Array<ValidationError>> = error === undefined
+        ? ok(undefined)
+        : parseBoolean(error, "error");
+      directives.push({
+        result: errorFlag.andThen((flag) =>
+          checkDirective({
+            ...(skip !== undefined ? { skip: skip === "all" ? "all" : skip.split(",") } : {}),
+            ...(flag !== undefined ? { error: flag } : {}),
+          }),
+        ),
+        line,
+      });
+    } else {
+      break;
+    }
+    next++;
+  }
+  if (next > 0 && lines[next]?.text.trim() === "") {
+    next++;
+  }
+  return { directives, escape, next };
+}
+
+/**
+ * Find `<<DELIM` heredoc words outside quotes
+ */
+function findHeredocWords(
+  args: string,
+): Array<{ delimiter: string; quoted: boolean; stripTabs: boolean }> {
+  return splitWords(args).flatMap((word) => {
+    const match = HEREDOC_PATTERN.exec(word.value);
+    return match?.[3] !== undefined
+      ? [{ delimiter: match[3], quoted: match[2] !== "", stripTabs: match[1] === "-" }]
+      : [];
+  });
+}
+
+/**
+ * Group physical lines into comment blocks, blank lines and instructions,
+ * joining line continuations and reading heredoc bodies.
+ */
+function scan(
+  lines: ReadonlyArray<SourceLine>,
+  start: number,
+  escape: string,
+): Result<Array<Node>, Array<ParseError>> {
+  const nodes: Array<Node> = [];
+  const errors: Array<ParseError> = [];
+  const isComment = (text: string) => text.trimStart().startsWith("#");
+  const continues = (text: string) => text.trimEnd().endsWith(escape);
+  let i = start;
+
+  while (i < lines.length) {
+    const current = lines[i] as SourceLine;
+    if (current.text.trim() === "") {
+      nodes.push({ kind: "blank", line: current.line });
+      i++;
+      continue;
+    }
+
+    if (isComment(current.text)) {
+      const text: Array<string> = [];
+      while (i < lines.length && isComment((lines[i] as SourceLine).text)) {
+        text.push((lines[i] as SourceLine).text.trimStart().replace(/^# ?/, ""));
+        i++;
+      }
+      nodes.push({ kind: "comment", text: text.join("\n"), line: current.line });
+      continue;
+    }
+
+    const column = current.text.length - current.text.trimStart().length + 1;
+    let logical = current.text.trimStart();
+    const firstLength = logical.trimEnd().length;
+    i++;
+    while (continues(logical)) {
+      const stripped = logical.trimEnd().slice(0, -escape.length);
+      // Comment and empty lines inside a continuation are skipped, as Docker does
+      while (
+        i < lines.length &&
+        ((lines[i] as SourceLine).text.trim() === "" || isComment((lines[i] as SourceLine).text))
+      ) {
+        i++;
+      }
+      const next = lines[i];
+      if (next === undefined) {
+        logical = stripped;
+        break;
+      }
+      const joinsWords = /\s$/.test(stripped) || /^\s/.test(next.text);
+      logical = joinsWords
+        ? `${stripped.trimEnd()} ${next.text.trimStart()}`
+        : stripped + next.text;
+      i++;
+    }
+
+    const keywordMatch = /^(\S+)(\s*)/.exec(logical) as RegExpExecArray;
+    const [whole, keyword = ""] = keywordMatch;
+    const upper = keyword.toUpperCase();
+    const args = logical.slice(whole.length).trimEnd();
+
+    const heredocs: Array<HeredocBody> = [];
+    if (HEREDOC_KEYWORDS.has(upper)) {
+      for (const { delimiter, quoted, stripTabs } of findHeredocWords(args)) {
+        const body: Array<string> = [];
+        let terminated = false;
+        while (i < lines.length) {
+          const text = (lines[i] as SourceLine).text;
+          const content = stripTabs ? text.replace(/^\t+/, "") : text;
+          i++;
+          if (content === delimiter) {
+            terminated = true;
+            break;
+          }
+          body.push(content);
+        }
+        if (!terminated) {
+          errors.push({
+            ...validationError("heredoc", `unterminated heredoc, expected ${delimiter}`, delimiter),
+            line: current.line,
+            column,
+          });
+        }
+        heredocs.push({ delimiter, quoted, body: body.join("\n") });
+      }
+    }
+
+    nodes.push({
+      kind: "instruction",
+      keyword: upper,
+      args,
+      line: current.line,
+      column,
+      argsColumn: column + whole.length,
+      firstLineLength: Math.max(0, firstLength - whole.length),
+      heredocs,
+    });
+  }
+
+  return errors.length > 0 ? err(errors) : ok(nodes);
+}
+
+/**
+ * An instruction or comment/blank node with the line it came from
+ */
+type Located = {
+  readonly instruction: Instruction;
+  readonly line: number;
+};
+
+/**
+ * Split located instructions into stages at each FROM.
+ * Comments and blank lines directly before a FROM move with it, and blank
+ * lines at stage boundaries are dropped because render() separates stages.
+ */
+function splitStages(items: ReadonlyArray<Located>): Array<Array<Located>> {
+  const stages: Array<Array<Located>> = [];
+  let current: Array<Located> = [];
+  items.forEach((item) => {
+    if (item.instruction.type === "FROM" && current.some((i) => i.instruction.type === "FROM")) {
+      let split = current.length;
+      while (
+        split > 0 &&
+        ["COMMENT", "BLANK"].includes(current[split - 1]?.instruction.type ?? "")
+      ) {
+        split--;
+      }
+      stages.push(current.slice(0, split));
+      current = current.slice(split);
+    }
+    current.push(item);
+  });
+  stages.push(current);
+  return stages.map((stageItems) => {
+    let startIndex = 0;
+    let end = stageItems.length;
+    while (startIndex < end && stageItems[startIndex]?.instruction.type === "BLANK") {
+      startIndex++;
+    }
+    while (end > startIndex && stageItems[end - 1]?.instruction.type === "BLANK") {
+      end--;
+    }
+    return stageItems.slice(startIndex, end);
+  });
+}
+
+/**
+ * Map containerfile() errors back to source lines using their field path
+ */
+function locateContainerfileErrors(
+  errors: ReadonlyArray<ValidationError>,
+  instructionLines: (field: string) => number | undefined,
+): Array<ParseError> {
+  return errors.flatMap((error) => locateErrors(instructionLines(error.field) ?? 1, 1, [error]));
+}
+
+/**
+ * Locate factory errors at their instruction, keeping errors the parser already located
+ */
+function locateAt(
+  node: InstructionNode,
+  errors: ReadonlyArray<ValidationError>,
+): Array<ParseError> {
+  return errors.flatMap((error) =>
+    "line" in error ? [error as ParseError] : locateErrors(node.line, node.column, [error]),
+  );
+}
+
+/**
+ * Parse Dockerfile text into a Containerfile.
+ *
+ * Handles parser directives, line continuations (honouring `# escape=`), JSON and
+ * shell forms, flags, heredocs, comments and blank lines. Instructions are built
+ * through the factory functions, so the result is validated like hand-written
+ * definitions. Comments directly above an instruction are attached to it; other
+ * comments and blank lines become COMMENT and BLANK nodes. Multiple FROM
+ * instructions produce a multi-stage containerfile, with stages named after
+ * their `AS` alias (or `stage-<n>`).
+ *
+ * A RUN heredoc must be the whole command: `RUN python3 <<EOF` and
+ * `RUN cat <<EOF > /file` are rejected, since run() has no place for a command
+ * around the script. Use a `#!` line or move the command into the script instead.
+ *
+ * @param text - Dockerfile source
+ * @returns Result with Containerfile on success, ParseError[] (with line and column) on failure
+ *
+ * @example
+ * ```typescript
+ * parse("FROM node:20\nRUN npm ci\n").match(
+ *   (containerfile) => console.log(render(containerfile)),
+ *   (errors) => errors.forEach((e) => console.error(`${e.line}:${e.column} ${e.message}`)),
+ * );
+ * ```
+ */
+export function parse(text: string): Result<Containerfile, Array<ParseError>> {
+  if (typeof text !== "string") {
+    return err([{ ...validationError("text", "must be a string", text), line: 1, column: 1 }]);
+  }
+
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((lineText, i) => ({ text: lineText, line: i + 1 }));
+  const { directives, escape, next } = readDirectives(lines);
+
+  return scan(lines, next, escape).andThen((nodes) => {
+    const errors: Array<ParseError> = [];
+    const items: Array<Located> = [];
+    let pendingComment: { readonly text: string; readonly line: number } | null = null;
+
+    const push = (result: InstructionResult, line: number) => {
+      result.match(
+        (instruction) => items.push({ instruction, line }),
+        (instructionErrors) => errors.push(...locateErrors(line, 1, instructionErrors)),
+      );
+    };
+
+    const flushComment = () => {
+      if (pendingComment !== null) {
+        push(comment(pendingComment.text), pendingComment.line);
+        pendingComment = null;
+      }
+    };
+
+    for (const node of nodes) {
+      if (node.kind === "comment") {
+        flushComment();
+        pendingComment = { text: node.text, line: node.line };
+        continue;
+      }
+      if (node.kind === "blank") {
+        flushComment();
+        push(blank(), node.line);
+        continue;
+      }
+      const attached: { readonly text: string; readonly line: number } | null = pendingComment;
+      pendingComment = null;
+      parseInstruction(node, escape).forEach((result, i) => {
+        result.match(
+          (instruction) =>
+            items.push({
+              instruction:
+                i === 0 && attached !== null
+                  ? ({ ...instruction, comment: attached.text } as Instruction)
+                  : instruction,
+              line: node.line,
+            }),
+          (instructionErrors) => errors.push(...locateAt(node, instructionErrors)),
+        );
+      });
+    }
+    flushComment();
+
+    // Trailing blank lines are not rendered
+    while (items[items.length - 1]?.instruction.type === "BLANK") {
+      items.pop();
+    }
+
+    if (errors.length > 0) {
+      return err(errors);
+    }
+
+    const directiveResults = directives.map((directive) => directive.result);
+    const lineOfDirective = (field: string) => {
+      const match = /^directives\[(\d+)\]/.exec(field);
+      return match !== null ? directives[Number(match[1])]?.line : undefined;
+    };
+
+    const fromCount = items.filter((item) => item.instruction.type === "FROM").length;
+    if (fromCount <= 1) {
+      return containerfile(
+        items.map((item) => ok(item.instruction)),
+        { directives: directiveResults },
+      ).mapErr((containerfileErrors) =>
+        locateContainerfileErrors(containerfileErrors, (field) => {
+          const match = /^instructions\[(\d+)\]/.exec(field);
+          return match !== null ? items[Number(match[1])]?.line : lineOfDirective(field);
+        }),
+      );
+    }
+
+    const stages = splitStages(items);
+    return containerfile(
+      stages.map((stageItems, i) => {
+        const fromInstruction = stageItems.find((item) => item.instruction.type === "FROM")
+          ?.instruction as Extract<Instruction, { type: "FROM" }> | undefined;
+        return stage(
+          fromInstruction?.as ?? `stage-${i}`,
+          stageItems.map((item) => ok(item.instruction)),
+        );
+      }),
+      { directives: directiveResults },
+    ).mapErr((containerfileErrors) =>
+      locateContainerfileErrors(containerfileErrors, (field) => {
+        const match = /^stages\[(\d+)\]\.instructions\[(\d+)\]/.exec(field);
+        return match !== null
+          ? stages[Number(match[1])]?.[Number(match[2])]?.line
+          : lineOfDirective(field);
+      }),
+    );
+  });
+}
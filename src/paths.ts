@@ -0,0 +1,12 @@
+// pattern: Functional Core
+
+/**
+ * Whether paths must be written in JSON-array form.
+ * The space-separated form splits on whitespace and treats quotes specially.
+ *
+ * @param paths - Source and destination paths (or VOLUME paths)
+ * @returns True when any path contains whitespace or a quote
+ */
+export function requiresJsonForm(paths: ReadonlyArray<string>): boolean {
+  return paths.some((path) => /[\s"']/.test(path));
+}
@@ -15,7 +15,52 @@ import type {
   EntrypointInstruction,
   ArgInstruction,
   LabelInstruction,
+  UserInstruction,
+  VolumeInstruction,
+  ShellInstruction,
+  HealthcheckInstruction,
+  StopSignalInstruction,
+  OnbuildInstruction,
+  Mount,
+  Heredoc,
+  InlineFile,
+  AddSource,
+  KeyValuePair,
+  RenderOptions,
+  CommentInstruction,
+  Directive,
 } from "./types.js";
+import { requiresJsonForm } from "./paths.js";
+
+// A `# key=value` line at the top of a Dockerfile is read as a parser directive
+const DIRECTIVE_LINE = /^#\s*[a-zA-Z][a-zA-Z0-9]*\s*=/;
+
+/**
+ * RenderOptions with every default applied, threaded through the renderers
+ */
+type RenderContext = {
+  readonly lineWidth: number;
+  readonly indent: string;
+  readonly blankLinesBetweenStages: number;
+  readonly blankLinesBetweenGroups: number;
+  readonly trailingNewline: boolean;
+  /** Escape character from the `# escape=` directive, used for continuations and quoting */
+  readonly escape: string;
+};
+
+function resolveRenderOptions(
+  options: RenderOptions | undefined,
+  escape: string = "\\",
+): RenderContext {
+  return {
+    lineWidth: options?.lineWidth ?? Infinity,
+    indent: " ".repeat(Math.max(0, options?.indent ?? 4)),
+    blankLinesBetweenStages: Math.max(0, options?.blankLinesBetweenStages ?? 1),
+    blankLinesBetweenGroups: Math.max(0, options?.blankLinesBetweenGroups ?? 0),
+    trailingNewline: options?.trailingNewline ?? false,
+    escape,
+  };
+}
 
 /**
  * Formats an array as a JSON array with proper spacing after commas
@@ -36,11 +81,229 @@ function renderFrom(instruction: FromInstruction): string {
   return line;
 }
 
-function renderRun(instruction: RunInstruction): string {
+/**
+ * Formats a RUN --mount flag as comma-separated key=value pairs, skipping unset fields.
+ * Boolean options are only emitted when true.
+ */
+function formatMount(mount: Mount): string {
+  const fields: Array<readonly [string, string | number | boolean | null]> = [["type", mount.type]];
+  switch (mount.type) {
+    case "cache":
+      fields.push(
+        ["id", mount.id],
+        ["target", mount.target],
+        ["sharing", mount.sharing],
+        ["from", mount.from],
+        ["source", mount.source],
+        ["mode", mount.mode],
+        ["uid", mount.uid],
+        ["gid", mount.gid],
+        ["readonly", mount.readonly],
+      );
+      break;
+    case "secret":
+      fields.push(
+        ["id", mount.id],
+        ["target", mount.target],
+        ["env", mount.env],
+        ["mode", mount.mode],
+        ["uid", mount.uid],
+        ["gid", mount.gid],
+        ["required", mount.required],
+      );
+      break;
+    case "ssh":
+      fields.push(
+        ["id", mount.id],
+        ["target", mount.target],
+        ["mode", mount.mode],
+        ["uid", mount.uid],
+        ["gid", mount.gid],
+        ["required", mount.required],
+      );
+      break;
+    case "bind":
+      fields.push(
+        ["target", mount.target],
+        ["source", mount.source],
+        ["from", mount.from],
+        ["readwrite", mount.readwrite],
+      );
+      break;
+    case "tmpfs":
+      fields.push(["target", mount.target], ["size", mount.size]);
+      break;
+  }
+  return fields
+    .filter(([, value]) => value !== null && value !== false)
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join(",");
+}
+
+/**
+ * Picks a heredoc delimiter that matches no content line and is not already
+ * used by another heredoc in the same instruction: EOF, EOF_1, EOF_2, ...
+ */
+function chooseDelimiter(content: string, taken: ReadonlySet<string>): string {
+  const lines = new Set(content.split("\n"));
+  for (let i = 0; ; i++) {
+    const candidate = i === 0 ? "EOF" : `EOF_${i}`;
+    if (!lines.has(candidate) && !taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Formats a heredoc block (content lines followed by the closing delimiter)
+ */
+function formatHeredocBlock(content: string, delimiter: string): string {
+  return `${content}\n${delimiter}`;
+}
+
+function heredocScript(heredoc: Heredoc): string {
+  return heredoc.interpreter !== null ? `#!${heredoc.interpreter}\n${heredoc.body}` : heredoc.body;
+}
+
+/**
+ * Returns the delimiter render() uses for a RUN heredoc
+ */
+export function heredocDelimiter(heredoc: Heredoc): string {
+  return heredoc.delimiter ?? chooseDelimiter(heredocScript(heredoc), new Set());
+}
+
+function renderHeredocScript(line: string, heredoc: Heredoc): string {
+  const delimiter = heredocDelimiter(heredoc);
+  const opener = heredoc.quoted ? `<<"${delimiter}"` : `<<${delimiter}`;
+  return `${line} ${opener}\n${formatHeredocBlock(heredocScript(heredoc), delimiter)}`;
+}
+
+/**
+ * Splits a shell command at `&&` operators that are not inside quotes or escaped.
+ * Returns the trimmed segments between the operators.
+ */
+function splitAtAnd(command: string): Array<string> {
+  const segments: Array<string> = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command.charAt(i);
+    if (ch === "\\" && quote !== "'") {
+      i++;
+    } else if (quote !== null) {
+      if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "&" && command.charAt(i + 1) === "&") {
+      segments.push(command.slice(start, i).trim());
+      start = i + 2;
+      i++;
+    }
+  }
+  segments.push(command.slice(start).trim());
+  return segments;
+}
+
+/**
+ * Wraps a shell-form command onto continuation lines at `&&` boundaries when the
+ * full line would exceed the configured width. Commands that already span lines,
+ * or that have nothing to split, are left untouched.
+ */
+function wrapCommand(line: string, command: string, context: RenderContext): string {
+  const full = `${line} ${command}`;
+  if (full.length <= context.lineWidth || command.includes("\n")) {
+    return full;
+  }
+  const segments = splitAtAnd(command);
+  if (segments.length < 2 || segments.some((segment) => segment === "")) {
+    return full;
+  }
+  const [first, ...rest] = segments;
+  return [`${line} ${first}`, ...rest.map((segment) => `${context.indent}&& ${segment}`)].join(
+    ` ${context.escape}\n`,
+  );
+}
+
+function renderRun(instruction: RunInstruction, context: RenderContext): string {
+  let line = "RUN";
+  for (const mount of instruction.mounts) {
+    line += ` --mount=${formatMount(mount)}`;
+  }
+  if (instruction.network !== null) {
+    line += ` --network=${instruction.network}`;
+  }
+  if (instruction.security !== null) {
+    line += ` --security=${instruction.security}`;
+  }
   if (typeof instruction.command === "string") {
-    return `RUN ${instruction.command}`;
+    return wrapCommand(line, instruction.command, context);
+  }
+  if ("body" in instruction.command) {
+    return renderHeredocScript(line, instruction.command);
   }
-  return `RUN ${formatArray(instruction.command)}`;
+  return `${line} ${formatArray(instruction.command)}`;
+}
+
+/**
+ * Returns COPY sources with the delimiters render() uses filled in for inline files
+ */
+export function resolveInlineDelimiters(
+  src: ReadonlyArray<string | InlineFile>,
+): Array<string | (InlineFile & { readonly delimiter: string })> {
+  const taken = new Set(
+    src.flatMap((item) =>
+      typeof item === "string" || item.delimiter === null ? [] : [item.delimiter],
+    ),
+  );
+  return src.map((item) => {
+    if (typeof item === "string") {
+      return item;
+    }
+    if (item.delimiter !== null) {
+      return { ...item, delimiter: item.delimiter };
+    }
+    const delimiter = chooseDelimiter(item.contents, taken);
+    taken.add(delimiter);
+    return { ...item, delimiter };
+  });
+}
+
+/**
+ * Formats COPY sources, assigning delimiters to inline files.
+ * Returns the source words for the instruction line and the heredoc blocks that follow it.
+ */
+function formatSources(src: ReadonlyArray<string | InlineFile>): {
+  readonly words: ReadonlyArray<string>;
+  readonly blocks: ReadonlyArray<string>;
+} {
+  const words: Array<string> = [];
+  const blocks: Array<string> = [];
+  for (const item of resolveInlineDelimiters(src)) {
+    if (typeof item === "string") {
+      words.push(item);
+      continue;
+    }
+    words.push(item.quoted ? `<<"${item.delimiter}"` : `<<${item.delimiter}`);
+    blocks.push(formatHeredocBlock(item.contents, item.delimiter));
+  }
+  return { words, blocks };
+}
+
+/**
+ * Formats the sources and destination of COPY/ADD in shell or JSON-array form
+ */
+function formatPaths(
+  words: ReadonlyArray<string>,
+  dest: string,
+  form: "shell" | "json" | null,
+): string {
+  const paths = [...words, dest];
+  if (form === "json" || (form === null && requiresJsonForm(paths))) {
+    return formatArray(paths);
+  }
+  return paths.join(" ");
 }
 
 function renderCopy(instruction: CopyInstruction): string {
@@ -54,9 +317,39 @@ function renderCopy(instruction: CopyInstruction): string {
   if (instruction.chmod !== null) {
     line += ` --chmod=${instruction.chmod}`;
   }
-  const srcStr = instruction.src.join(" ");
-  line += ` ${srcStr} ${instruction.dest}`;
-  return line;
+  if (instruction.link) {
+    line += " --link";
+  }
+  if (instruction.parents) {
+    line += " --parents";
+  }
+  for (const pattern of instruction.exclude) {
+    line += ` --exclude=${pattern}`;
+  }
+  const { words, blocks } = formatSources(instruction.src);
+  // Heredocs only work in shell form, and their quoted delimiters must not force JSON
+  const form = blocks.length > 0 ? "shell" : instruction.form;
+  line += ` ${formatPaths(words, instruction.dest, form)}`;
+  return [line, ...blocks].join("\n");
+}
+
+/**
+ * Formats an ADD source, re-attaching the `#ref:subdir` fragment of Git sources
+ */
+export function formatAddSource(source: AddSource): string {
+  switch (source.kind) {
+    case "local":
+      return source.path;
+    case "url":
+      return source.url;
+    case "git": {
+      if (source.ref === null && source.subdir === null) {
+        return source.url;
+      }
+      const subdir = source.subdir !== null ? `:${source.subdir}` : "";
+      return `${source.url}#${source.ref ?? ""}${subdir}`;
+    }
+  }
 }
 
 function renderAdd(instruction: AddInstruction): string {
@@ -67,17 +360,60 @@ function renderAdd(instruction: AddInstruction): string {
   if (instruction.chmod !== null) {
     line += ` --chmod=${instruction.chmod}`;
   }
-  const srcStr = instruction.src.join(" ");
-  line += ` ${srcStr} ${instruction.dest}`;
+  if (instruction.checksum !== null) {
+    line += ` --checksum=${instruction.checksum}`;
+  }
+  if (instruction.keepGitDir) {
+    line += " --keep-git-dir=true";
+  }
+  if (instruction.link) {
+    line += " --link";
+  }
+  line += ` ${formatPaths(instruction.src.map(formatAddSource), instruction.dest, instruction.form)}`;
   return line;
 }
 
-function renderWorkdir(instruction: WorkdirInstruction): string {
-  return `WORKDIR ${instruction.path}`;
+/**
+ * WORKDIR reads its path as one word, so whitespace needs no quotes; quotes and the
+ * escape character do, or the builder would remove them
+ */
+function renderWorkdir(instruction: WorkdirInstruction, context: RenderContext): string {
+  const { path } = instruction;
+  return `WORKDIR ${/["']/.test(path) || path.includes(context.escape) ? formatValue(path, context.escape) : path}`;
 }
 
-function renderEnv(instruction: EnvInstruction): string {
-  return `ENV ${instruction.key}=${instruction.value}`;
+/**
+ * Formats an ENV or LABEL value as a single Dockerfile word.
+ * Values are double-quoted only when they are empty or contain whitespace, quotes or
+ * the escape character; inside the quotes `"` and the escape character are escaped
+ * (`\` by default, `` ` `` under `# escape=`). `$` is deliberately left alone so
+ * `${VAR}` substitutions still expand at build time.
+ */
+function formatValue(value: string, escape: string): string {
+  if (value !== "" && !/[\s"']/.test(value) && !value.includes(escape)) {
+    return value;
+  }
+  let escaped = "";
+  for (const ch of value) {
+    escaped += ch === '"' || ch === escape ? `${escape}${ch}` : ch;
+  }
+  return `"${escaped}"`;
+}
+
+/**
+ * Formats ENV or LABEL pairs, one `key=value` per continuation line when there are several
+ */
+function formatPairs(
+  keyword: string,
+  pairs: ReadonlyArray<KeyValuePair>,
+  context: RenderContext,
+): string {
+  const words = pairs.map(({ key, value }) => `${key}=${formatValue(value, context.escape)}`);
+  return `${keyword} ${words.join(` ${context.escape}\n${context.indent}`)}`;
+}
+
+function renderEnv(instruction: EnvInstruction, context: RenderContext): string {
+  return formatPairs("ENV", instruction.pairs, context);
 }
 
 function renderExpose(instruction: ExposeInstruction): string {
@@ -106,22 +442,95 @@ function renderEntrypoint(instruction: EntrypointInstruction): string {
   return `ENTRYPOINT ${formatArray(instruction.command)}`;
 }
 
-function renderArg(instruction: ArgInstruction): string {
+function renderArg(instruction: ArgInstruction, context: RenderContext): string {
   if (instruction.defaultValue !== null) {
-    return `ARG ${instruction.name}=${instruction.defaultValue}`;
+    return `ARG ${instruction.name}=${formatValue(instruction.defaultValue, context.escape)}`;
   }
   return `ARG ${instruction.name}`;
 }
 
-function renderLabel(instruction: LabelInstruction): string {
-  return `LABEL ${instruction.key}="${instruction.value}"`;
+function renderLabel(instruction: LabelInstruction, context: RenderContext): string {
+  return formatPairs("LABEL", instruction.pairs, context);
+}
+
+function renderUser(instruction: UserInstruction): string {
+  if (instruction.group !== null) {
+    return `USER ${instruction.user}:${instruction.group}`;
+  }
+  return `USER ${instruction.user}`;
+}
+
+function renderVolume(instruction: VolumeInstruction): string {
+  if (requiresJsonForm(instruction.paths)) {
+    return `VOLUME ${formatArray(instruction.paths)}`;
+  }
+  return `VOLUME ${instruction.paths.join(" ")}`;
+}
+
+function renderShell(instruction: ShellInstruction): string {
+  return `SHELL ${formatArray(instruction.command)}`;
+}
+
+function renderHealthcheck(instruction: HealthcheckInstruction): string {
+  if (instruction.command === null) {
+    return "HEALTHCHECK NONE";
+  }
+  let line = "HEALTHCHECK";
+  if (instruction.interval !== null) {
+    line += ` --interval=${instruction.interval}`;
+  }
+  if (instruction.timeout !== null) {
+    line += ` --timeout=${instruction.timeout}`;
+  }
+  if (instruction.startPeriod !== null) {
+    line += ` --start-period=${instruction.startPeriod}`;
+  }
+  if (instruction.startInterval !== null) {
+    line += ` --start-interval=${instruction.startInterval}`;
+  }
+  if (instruction.retries !== null) {
+    line += ` --retries=${instruction.retries}`;
+  }
+  if (typeof instruction.command === "string") {
+    return `${line} CMD ${instruction.command}`;
+  }
+  return `${line} CMD ${formatArray(instruction.command)}`;
+}
+
+function renderStopSignal(instruction: StopSignalInstruction): string {
+  return `STOPSIGNAL ${instruction.signal}`;
+}
+
+function renderOnbuild(instruction: OnbuildInstruction, context: RenderContext): string {
+  return `ONBUILD ${renderWithContext(instruction.instruction, context)}`;
+}
+
+/**
+ * Formats comment text as `#` lines, one per line of text
+ */
+function formatComment(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => (line === "" ? "#" : `# ${line}`))
+    .join("\n");
+}
+
+function renderComment(instruction: CommentInstruction): string {
+  return formatComment(instruction.text);
+}
+
+function renderBlank(): string {
+  return "";
 }
 
 /**
  * Renderer dispatch table - maps instruction type to render function
  */
 const renderers: {
-  readonly [K in Instruction["type"]]: (instruction: Extract<Instruction, { type: K }>) => string;
+  readonly [K in Instruction["type"]]: (
+    instruction: Extract<Instruction, { type: K }>,
+    context: RenderContext,
+  ) => string;
 } = {
   FROM: renderFrom,
   RUN: renderRun,
@@ -134,21 +543,102 @@ const renderers: {
   ENTRYPOINT: renderEntrypoint,
   ARG: renderArg,
   LABEL: renderLabel,
+  USER: renderUser,
+  VOLUME: renderVolume,
+  SHELL: renderShell,
+  HEALTHCHECK: renderHealthcheck,
+  STOPSIGNAL: renderStopSignal,
+  ONBUILD: renderOnbuild,
+  COMMENT: renderComment,
+  BLANK: renderBlank,
 };
 
+function renderWithContext(instruction: Instruction, context: RenderContext): string {
+  const renderer = renderers[instruction.type] as (
+    instruction: Instruction,
+    context: RenderContext,
+  ) => string;
+  const rendered = renderer(instruction, context);
+  if ("comment" in instruction && instruction.comment !== null) {
+    return `${formatComment(instruction.comment)}\n${rendered}`;
+  }
+  return rendered;
+}
+
 /**
  * Renders a single instruction to its Dockerfile string representation
  */
-export function renderInstruction(instruction: Instruction): string {
-  const renderer = renderers[instruction.type] as (instruction: Instruction) => string;
-  return renderer(instruction);
+export function renderInstruction(instruction: Instruction, options?: RenderOptions): string {
+  return renderWithContext(instruction, resolveRenderOptions(options));
+}
+
+/**
+ * Group of an instruction for blank-line separation: its own type, except that
+ * COMMENT nodes belong to the group of the instruction they precede
+ */
+function groupOf(instructions: ReadonlyArray<Instruction>, index: number): string {
+  for (let i = index; i < instructions.length; i++) {
+    const type = instructions[i]?.type;
+    if (type !== "COMMENT") {
+      return type ?? "COMMENT";
+    }
+  }
+  return "COMMENT";
+}
+
+/**
+ * Renders a list of instructions, separating instruction groups
+ * (runs of the same instruction type) with the configured blank lines.
+ * Explicit BLANK nodes replace the automatic separator on either side.
+ */
+function renderInstructions(
+  instructions: ReadonlyArray<Instruction>,
+  context: RenderContext,
+): string {
+  const groupSeparator = "\n".repeat(context.blankLinesBetweenGroups + 1);
+  return instructions
+    .map((instruction, i) => {
+      const rendered = renderWithContext(instruction, context);
+      const previous = instructions[i - 1];
+      if (previous === undefined) {
+        return rendered;
+      }
+      const sameGroup =
+        previous.type === "BLANK" ||
+        instruction.type === "BLANK" ||
+        groupOf(instructions, i - 1) === groupOf(instructions, i);
+      return (sameGroup ? "\n" : groupSeparator) + rendered;
+    })
+    .join("");
 }
 
 /**
  * Renders a Stage to its Dockerfile string representation
  */
-function renderStage(stageToRender: Stage): string {
-  return stageToRender.instructions.map(renderInstruction).join("\n");
+function renderStage(stageToRender: Stage, context: RenderContext): string {
+  return renderInstructions(stageToRender.instructions, context);
+}
+
+/**
+ * Formats a parser directive as its `# key=value` line
+ */
+function formatDirective(directive: Directive): string {
+  switch (directive.type) {
+    case "syntax":
+      return `# syntax=${directive.image}`;
+    case "escape":
+      return `# escape=${directive.char}`;
+    case "check": {
+      const parts: Array<string> = [];
+      if (directive.skip.length > 0) {
+        parts.push(`skip=${directive.skip.join(",")}`);
+      }
+      if (directive.error !== null) {
+        parts.push(`error=${directive.error}`);
+      }
+      return `# check=${parts.join(";")}`;
+    }
+  }
 }
 
 /**
@@ -156,18 +646,32 @@ function renderStage(stageToRender: Stage): string {
  */
 function isSingleStage(
   containerfile: Containerfile,
-): containerfile is { readonly instructions: ReadonlyArray<Instruction> } {
+): containerfile is Extract<Containerfile, { readonly instructions: unknown }> {
   return "instructions" in containerfile;
 }
 
 /**
  * Renders a Containerfile to its Dockerfile string representation
  * Handles both single-stage and multi-stage builds
+ *
+ * @param containerfile - Validated containerfile
+ * @param options - Optional formatting (line width, indentation, blank lines, trailing newline)
  */
-export function render(containerfile: Containerfile): string {
-  if (isSingleStage(containerfile)) {
-    return containerfile.instructions.map(renderInstruction).join("\n");
-  }
-
-  return containerfile.stages.map(renderStage).join("\n\n");
+export function render(containerfile: Containerfile, options?: RenderOptions): string {
+  const directives = containerfile.directives ?? [];
+  const escapeDirective = directives.find((directive) => directive.type === "escape");
+  const context = resolveRenderOptions(options, escapeDirective?.char);
+  const body = isSingleStage(containerfile)
+    ? renderInstructions(containerfile.instructions, context)
+    : containerfile.stages
+        .map((stageToRender) => renderStage(stageToRender, context))
+        .join("\n".repeat(context.blankLinesBetweenStages + 1));
+  // A blank line ends the directive block, so a leading comment is never read as a directive
+  const output =
+    directives.length > 0
+      ? `${directives.map(formatDirective).join("\n")}\n\n${body}`
+      : DIRECTIVE_LINE.test(body)
+        ? `\n${body}`
+        : body;
+  return context.trailingNewline ? `${output}\n` : output;
 }
@@ -6,15 +6,29 @@ export {
   type ImageName,
   type DockerPath,
   type PortRange,
+  type UserIdentifier,
+  type Duration,
+  type Signal,
   // Schemas
   PortSchema,
   ImageNameSchema,
   DockerPathSchema,
+  UserIdentifierSchema,
+  DurationSchema,
   // Validation functions
   validatePort,
   validateImageName,
   validateDockerPath,
   validatePortRange,
+  validateUserIdentifier,
+  validateDuration,
+  validateSignal,
+  validateFileMode,
+  validateBoolean,
+  validateOneOf,
+  validateHeredocDelimiter,
+  validateChecksum,
+  validateNonNegativeInteger,
   validateString,
   validateNonEmptyString,
   validateStringArray,
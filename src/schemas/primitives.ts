@@ -21,6 +21,21 @@ export type ImageName = string & { readonly __brand: "ImageName" };
  */
 export type DockerPath = string & { readonly __brand: "DockerPath" };
 
+/**
+ * Valid user or group reference (name, numeric ID, or variable substitution).
+ */
+export type UserIdentifier = string & { readonly __brand: "UserIdentifier" };
+
+/**
+ * Valid duration string (Go duration format, e.g. "30s", "1m30s", "500ms").
+ */
+export type Duration = string & { readonly __brand: "Duration" };
+
+/**
+ * Valid stop signal (POSIX signal name with or without SIG prefix, or signal number).
+ */
+export type Signal = string & { readonly __brand: "Signal" };
+
 /**
  * Schema for valid port numbers.
  * Validates: integer, range 0-65535
@@ -65,9 +80,103 @@ const DockerPathSchemaBase = Type.String({
 
 export const DockerPathSchema = Type.Unsafe<DockerPath>(DockerPathSchemaBase);
 
+/**
+ * Schema for USER user/group references.
+ * Supports: POSIX-style names (node, www-data), Windows account names (ContainerUser),
+ * numeric IDs (1000), and variable substitution ($USER, ${APP_UID}).
+ *
+ * Note: ":" is not allowed; the group is a separate field so it can be validated independently.
+ */
+const UserIdentifierPattern =
+  "^(?:[A-Za-z_][A-Za-z0-9_.-]*\\$?|[0-9]+|\\$[A-Za-z_][A-Za-z0-9_]*|\\$\\{[A-Za-z_][A-Za-z0-9_]*\\})$";
+
+const UserIdentifierSchemaBase = Type.String({
+  minLength: 1,
+  maxLength: 256,
+  pattern: UserIdentifierPattern,
+});
+
+export const UserIdentifierSchema = Type.Unsafe<UserIdentifier>(UserIdentifierSchemaBase);
+
+/**
+ * Largest valid numeric UID/GID (2^32 - 2; 2^32 - 1 is reserved as "no user").
+ */
+const MAX_USER_ID = 4294967294;
+
+/**
+ * Schema for durations used by HEALTHCHECK options.
+ * Supports one or more number+unit pairs (ns, us, µs, ms, s, m, h),
+ * with optional fractions: 30s, 1m30s, 1.5s, 2h, 500ms.
+ */
+const DurationPattern = "^(?:[0-9]+(?:\\.[0-9]+)?(?:ns|us|µs|ms|s|m|h))+$";
+
+const DurationSchemaBase = Type.String({
+  minLength: 2,
+  pattern: DurationPattern,
+});
+
+export const DurationSchema = Type.Unsafe<Duration>(DurationSchemaBase);
+
+/**
+ * Signal names accepted by Docker's STOPSIGNAL (without the SIG prefix).
+ */
+const SIGNAL_NAMES: ReadonlySet<string> = new Set([
+  "ABRT",
+  "ALRM",
+  "BUS",
+  "CHLD",
+  "CLD",
+  "CONT",
+  "FPE",
+  "HUP",
+  "ILL",
+  "INT",
+  "IO",
+  "IOT",
+  "KILL",
+  "PIPE",
+  "POLL",
+  "PROF",
+  "PWR",
+  "QUIT",
+  "SEGV",
+  "STKFLT",
+  "STOP",
+  "SYS",
+  "TERM",
+  "TRAP",
+  "TSTP",
+  "TTIN",
+  "TTOU",
+  "URG",
+  "USR1",
+  "USR2",
+  "VTALRM",
+  "WINCH",
+  "XCPU",
+  "XFSZ",
+]);
+
+/**
+ * Highest valid signal number (SIGRTMAX on Linux).
+ */
+const MAX_SIGNAL_NUMBER = 64;
+
+/**
+ * Real-time signal offsets: RTMIN+n and RTMAX-n (n in 1-15).
+ */
+const RealtimeSignalPattern = /^RT(?:MIN(?:\+(?:[1-9]|1[0-5]))?|MAX(?:-(?:[1-9]|1[0-5]))?)$/;
+
+/**
+ * Variable substitution in place of a literal value ($VAR or ${VAR}).
+ */
+const VariableReferencePattern = /^\$(?:[A-Za-z_][A-Za-z0-9_]*|\{[A-Za-z_][A-Za-z0-9_]*\})$/;
+
 const CompiledPortValidator = TypeCompiler.Compile(PortSchema);
 const CompiledImageNameValidator = TypeCompiler.Compile(ImageNameSchema);
 const CompiledDockerPathValidator = TypeCompiler.Compile(DockerPathSchema);
+const CompiledUserIdentifierValidator = TypeCompiler.Compile(UserIdentifierSchema);
+const CompiledDurationValidator = TypeCompiler.Compile(DurationSchema);
 
 /**
  * Validate a value as a Port.
@@ -121,6 +230,191 @@ export function validateDockerPath(
   return ok(value as DockerPath);
 }
 
+/**
+ * Validate a value as a UserIdentifier.
+ * Accepts a user/group name string or a numeric UID/GID (number or digit string).
+ * Numeric IDs are normalized to their decimal string form.
+ */
+export function validateUserIdentifier(
+  value: unknown,
+  field: string = "user",
+): Result<UserIdentifier, Array<ValidationError>> {
+  if (typeof value === "number") {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_USER_ID) {
+      return err([
+        validationError(field, `invalid numeric ID: must be integer 0-${MAX_USER_ID}`, value),
+      ]);
+    }
+    return ok(String(value) as UserIdentifier);
+  }
+
+  if (!CompiledUserIdentifierValidator.Check(value)) {
+    return err([
+      validationError(
+        field,
+        "must be a user/group name, numeric ID, or variable reference (without ':')",
+        value,
+      ),
+    ]);
+  }
+
+  if (/^[0-9]+$/.test(value) && Number(value) > MAX_USER_ID) {
+    return err([
+      validationError(field, `invalid numeric ID: must be integer 0-${MAX_USER_ID}`, value),
+    ]);
+  }
+
+  return ok(value);
+}
+
+/**
+ * Validate a value as a Signal.
+ * Accepts a known signal name (case-insensitive, with or without "SIG" prefix),
+ * a signal number 1-64 (number or digit string), or a variable reference.
+ * Numbers are normalized to their decimal string form; names are kept as given.
+ */
+export function validateSignal(
+  value: unknown,
+  field: string = "signal",
+): Result<Signal, Array<ValidationError>> {
+  const numberMessage = `invalid signal number: must be integer 1-${MAX_SIGNAL_NUMBER}`;
+
+  if (typeof value === "number") {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_SIGNAL_NUMBER) {
+      return err([validationError(field, numberMessage, value)]);
+    }
+    return ok(String(value) as Signal);
+  }
+
+  if (typeof value !== "string" || value.length === 0) {
+    return err([validationError(field, "must be a signal name or number", value)]);
+  }
+
+  if (/^[0-9]+$/.test(value)) {
+    const signalNumber = Number(value);
+    if (signalNumber < 1 || signalNumber > MAX_SIGNAL_NUMBER) {
+      return err([validationError(field, numberMessage, value)]);
+    }
+    return ok(value as Signal);
+  }
+
+  if (VariableReferencePattern.test(value)) {
+    return ok(value as Signal);
+  }
+
+  const upper = value.toUpperCase();
+  const name = upper.startsWith("SIG") ? upper.slice(3) : upper;
+  if (!SIGNAL_NAMES.has(name) && !RealtimeSignalPattern.test(name)) {
+    return err([validationError(field, `unknown signal name: ${value}`, value)]);
+  }
+  return ok(value as Signal);
+}
+
+/**
+ * Validate an octal file mode string (e.g. "0755", "644").
+ */
+export function validateFileMode(
+  value: unknown,
+  field: string = "mode",
+): Result<string, Array<ValidationError>> {
+  if (typeof value !== "string" || !/^[0-7]{3,4}$/.test(value)) {
+    return err([validationError(field, 'must be an octal file mode like "0755"', value)]);
+  }
+  return ok(value);
+}
+
+/**
+ * Validate that a value is a boolean.
+ */
+export function validateBoolean(
+  value: unknown,
+  field: string = "value",
+): Result<boolean, Array<ValidationError>> {
+  if (typeof value !== "boolean") {
+    return err([validationError(field, "must be a boolean", value)]);
+  }
+  return ok(value);
+}
+
+/**
+ * Validate that a value is one of a fixed set of string literals.
+ */
+export function validateOneOf<T extends string>(
+  allowed: ReadonlyArray<T>,
+): (value: unknown, field?: string) => Result<T, Array<ValidationError>> {
+  return (value, field = "value") => {
+    if (typeof value !== "string" || !(allowed as ReadonlyArray<string>).includes(value)) {
+      return err([
+        validationError(field, `must be one of: ${allowed.map((a) => `"${a}"`).join(", ")}`, value),
+      ]);
+    }
+    return ok(value as T);
+  };
+}
+
+/**
+ * Validate a heredoc delimiter word (e.g. "EOF", "SCRIPT", "robots.txt").
+ * Delimiters for COPY double as file names, so dots and dashes are allowed.
+ */
+export function validateHeredocDelimiter(
+  value: unknown,
+  field: string = "delimiter",
+): Result<string, Array<ValidationError>> {
+  if (typeof value !== "string" || !/^[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(value)) {
+    return err([
+      validationError(
+        field,
+        "must be a word of letters, digits, '_', '.' or '-' (not starting with '.' or '-')",
+        value,
+      ),
+    ]);
+  }
+  return ok(value);
+}
+
+/**
+ * Validate an ADD --checksum value ("sha256:" followed by 64 hex digits).
+ */
+export function validateChecksum(
+  value: unknown,
+  field: string = "checksum",
+): Result<string, Array<ValidationError>> {
+  if (typeof value !== "string" || !/^sha256:[a-f0-9]{64}$/.test(value)) {
+    return err([
+      validationError(field, 'must be "sha256:" followed by 64 lowercase hex digits', value),
+    ]);
+  }
+  return ok(value);
+}
+
+/**
+ * Validate a value as a Duration.
+ */
+export function validateDuration(
+  value: unknown,
+  field: string = "duration",
+): Result<Duration, Array<ValidationError>> {
+  if (!CompiledDurationValidator.Check(value)) {
+    return err([
+      validationError(field, 'invalid duration: expected number+unit like "30s" or "1m30s"', value),
+    ]);
+  }
+  return ok(value as Duration);
+}
+
+/**
+ * Validate that a value is a non-negative integer.
+ */
+export function validateNonNegativeInteger(
+  value: unknown,
+  field: string = "value",
+): Result<number, Array<ValidationError>> {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    return err([validationError(field, "must be a non-negative integer", value)]);
+  }
+  return ok(value);
+}
+
 /**
  * Validated port range with start <= end guarantee.
  */
@@ -0,0 +1,129 @@
+// pattern: Functional Core
+
+import { Result, ok, err } from "neverthrow";
+import type { Instruction } from "./types.js";
+import { ValidationError, validationError } from "./errors.js";
+
+/**
+ * Shell used for shell-form commands until a SHELL instruction overrides it.
+ * Every FROM starts a new build stage with this shell.
+ */
+export const DEFAULT_SHELL: ReadonlyArray<string> = ["/bin/sh", "-c"];
+
+const POSIX_SHELLS: ReadonlySet<string> = new Set([
+  "sh",
+  "bash",
+  "dash",
+  "ash",
+  "zsh",
+  "ksh",
+  "mksh",
+]);
+const CMD_SHELLS: ReadonlySet<string> = new Set(["cmd", "cmd.exe"]);
+const POWERSHELL_SHELLS: ReadonlySet<string> = new Set([
+  "powershell",
+  "powershell.exe",
+  "pwsh",
+  "pwsh.exe",
+]);
+
+/**
+ * Resolve the shell in effect for each instruction in a sequence.
+ * FROM resets the shell to DEFAULT_SHELL; SHELL applies to the instructions after it.
+ *
+ * @returns Array parallel to `instructions` with the active shell for each entry
+ */
+export function resolveActiveShells(
+  instructions: ReadonlyArray<Instruction>,
+): Array<ReadonlyArray<string>> {
+  let active = DEFAULT_SHELL;
+  return instructions.map((instruction) => {
+    if (instruction.type === "FROM") {
+      active = DEFAULT_SHELL;
+    }
+    const current = active;
+    if (instruction.type === "SHELL") {
+      active = instruction.command;
+    }
+    return current;
+  });
+}
+
+/**
+ * Check whether a shell accepts a command string as its final argument
+ * (e.g. `sh -c`, `cmd /S /C`, `pwsh -Command`).
+ *
+ * @returns true/false for recognised shells, null when the executable is unknown
+ */
+export function acceptsCommandString(shell: ReadonlyArray<string>): boolean | null {
+  const executable = shell[0];
+  if (executable === undefined) {
+    return false;
+  }
+
+  const name = (executable.split(/[/\\]/).pop() ?? executable).toLowerCase();
+  const last = shell.length > 1 ? (shell[shell.length - 1] ?? "") : "";
+
+  if (POSIX_SHELLS.has(name)) {
+    // "-c" or a flag cluster ending in c ("-ec", "-euxc")
+    return /^-[a-zA-Z]*c$/.test(last);
+  }
+  if (CMD_SHELLS.has(name)) {
+    return last.toLowerCase() === "/c";
+  }
+  if (POWERSHELL_SHELLS.has(name)) {
+    return ["-c", "-command"].includes(last.toLowerCase());
+  }
+  return null;
+}
+
+/**
+ * Check whether an instruction is a shell-form command run through the active shell.
+ */
+function isShellForm(instruction: Instruction): boolean {
+  switch (instruction.type) {
+    case "RUN":
+      // Heredoc scripts without an interpreter line are fed to the active shell
+      if (typeof instruction.command === "string") {
+        return true;
+      }
+      return "body" in instruction.command && instruction.command.interpreter === null;
+    case "CMD":
+    case "ENTRYPOINT":
+      return typeof instruction.command === "string";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validate shell-form instructions against the shell active in their stage.
+ * Catches SHELL overrides like `["/bin/bash"]` that would make Docker treat
+ * the whole command string as a script path instead of a command.
+ *
+ * Unknown shell executables are not checked.
+ */
+export function validateShellForms(
+  instructions: ReadonlyArray<Instruction>,
+): Result<Array<Instruction>, Array<ValidationError>> {
+  const shells = resolveActiveShells(instructions);
+  const errors: Array<ValidationError> = [];
+
+  instructions.forEach((instruction, i) => {
+    const shell = shells[i] ?? DEFAULT_SHELL;
+    if (isShellForm(instruction) && acceptsCommandString(shell) === false) {
+      errors.push(
+        validationError(
+          `instructions[${i}].command`,
+          `shell-form ${instruction.type} requires the active SHELL ${JSON.stringify(shell)} to end with a command flag (e.g. "-c")`,
+          instruction,
+        ),
+      );
+    }
+  });
+
+  if (errors.length > 0) {
+    return err(errors);
+  }
+  return ok([...instructions]);
+}
@@ -4,9 +4,12 @@ import { Result, err } from "neverthrow";
 import type { Instruction, Stage } from "./types.js";
 import { ValidationError, prefixErrors, validationError, isReadonlyArray } from "./errors.js";
 import { validateNonEmptyString } from "./schemas/index.js";
+import { validateShellForms } from "./shell.js";
 
 /**
  * Validate and combine instruction Results for a stage.
+ * Shell-form commands are checked against the stage's active SHELL once all
+ * instructions are valid.
  * Returns all instructions on success, all collected errors on failure.
  */
 function validateInstructionResults(
@@ -30,7 +33,9 @@ function validateInstructionResults(
     result.mapErr((errors) => prefixErrors(`instructions[${i}]`, errors)),
   );
 
-  return Result.combineWithAllErrors(prefixedResults).mapErr((errors) => errors.flat());
+  return Result.combineWithAllErrors(prefixedResults)
+    .mapErr((errors) => errors.flat())
+    .andThen(validateShellForms);
 }
 
 /**
@@ -1,5 +1,9 @@
 // pattern: Functional Core
 
+import type { Result } from "neverthrow";
+import type { ValidationError } from "./errors.js";
+import type { LintOptions } from "./lint/types.js";
+
 /**
  * FROM instruction - specifies base image
  */
@@ -8,14 +12,129 @@ export type FromInstruction = {
   readonly image: string;
   readonly as: string | null;
   readonly platform: string | null;
+  readonly comment: string | null;
+};
+
+/**
+ * Cache mount for RUN --mount=type=cache (persistent compiler/package manager caches)
+ */
+export type CacheMount = {
+  readonly type: "cache";
+  readonly target: string;
+  readonly id: string | null;
+  readonly sharing: "shared" | "private" | "locked" | null;
+  readonly from: string | null;
+  readonly source: string | null;
+  readonly mode: string | null;
+  readonly uid: number | null;
+  readonly gid: number | null;
+  readonly readonly: boolean;
+};
+
+/**
+ * Secret mount for RUN --mount=type=secret (exposed as a file or environment variable)
+ */
+export type SecretMount = {
+  readonly type: "secret";
+  readonly id: string | null;
+  readonly target: string | null;
+  readonly env: string | null;
+  readonly mode: string | null;
+  readonly uid: number | null;
+  readonly gid: number | null;
+  readonly required: boolean;
+};
+
+/**
+ * SSH agent mount for RUN --mount=type=ssh
+ */
+export type SshMount = {
+  readonly type: "ssh";
+  readonly id: string | null;
+  readonly target: string | null;
+  readonly mode: string | null;
+  readonly uid: number | null;
+  readonly gid: number | null;
+  readonly required: boolean;
+};
+
+/**
+ * Bind mount for RUN --mount=type=bind (build context or another stage, read-only by default)
+ */
+export type BindMount = {
+  readonly type: "bind";
+  readonly target: string;
+  readonly source: string | null;
+  readonly from: string | null;
+  readonly readwrite: boolean;
+};
+
+/**
+ * Tmpfs mount for RUN --mount=type=tmpfs
+ */
+export type TmpfsMount = {
+  readonly type: "tmpfs";
+  readonly target: string;
+  readonly size: number | null;
+};
+
+/**
+ * Discriminated union of RUN --mount types
+ */
+export type Mount = CacheMount | SecretMount | SshMount | BindMount | TmpfsMount;
+
+/**
+ * Inline script for a RUN heredoc
+ *
+ * Renders as:
+ * ```dockerfile
+ * RUN <<EOF
+ * #!/usr/bin/env python3
+ * print("hello")
+ * EOF
+ * ```
+ *
+ * `interpreter` is rendered as a `#!` line; without it the script runs in the active shell.
+ * A null `delimiter` lets the renderer pick one that does not collide with the body.
+ * A `quoted` delimiter (`RUN <<'EOF'`) stops the builder expanding `$VAR` in the body
+ * before the script runs.
+ */
+export type Heredoc = {
+  readonly body: string;
+  readonly interpreter: string | null;
+  readonly delimiter: string | null;
+  readonly quoted: boolean;
+};
+
+/**
+ * Inline file contents used as a COPY source (`COPY <<"EOF" /dest`)
+ *
+ * When a COPY has several inline sources or a directory destination, the
+ * delimiter doubles as the created file's name.
+ * A `quoted` delimiter copies the contents verbatim; an unquoted one lets the
+ * builder expand `$VAR` references in them.
+ */
+export type InlineFile = {
+  readonly contents: string;
+  readonly delimiter: string | null;
+  readonly quoted: boolean;
 };
 
 /**
  * RUN instruction - executes commands
+ *
+ * Flags render in a stable order: `--mount` (in array order), `--network`, `--security`.
+ *
+ * @example
+ * `RUN --mount=type=cache,target=/root/.npm --network=none npm ci --offline`
  */
 export type RunInstruction = {
   readonly type: "RUN";
-  readonly command: string | ReadonlyArray<string>;
+  readonly command: string | ReadonlyArray<string> | Heredoc;
+  readonly mounts: ReadonlyArray<Mount>;
+  readonly network: "default" | "none" | "host" | null;
+  readonly security: "sandbox" | "insecure" | null;
+  readonly comment: string | null;
 };
 
 /**
@@ -24,38 +143,73 @@ export type RunInstruction = {
  * @example
  * Single source: `COPY file.txt /dest/`
  * Multiple sources: `COPY file1.txt file2.txt /dest/`
+ * Inline file: `COPY <<EOF /etc/app.conf`
+ * With flags: `COPY --link --parents --exclude=*.md --exclude=tests ./packages/ /app/`
+ * JSON form: `COPY ["My Docs/readme.md", "/docs/"]`
  *
- * The `src` field is always a ReadonlyArray<string>.
- * The factory function normalizes single files to arrays for consistent handling.
+ * The `src` field is always a ReadonlyArray of paths and inline files.
+ * `form` forces shell or JSON-array rendering; `null` renders JSON form only when a
+ * path contains whitespace or quotes.
+ * The factory function normalizes single sources to arrays for consistent handling.
  * When using an array, the final element in the container must be a directory for correct semantics.
  */
 export type CopyInstruction = {
   readonly type: "COPY";
-  readonly src: ReadonlyArray<string>;
+  readonly src: ReadonlyArray<string | InlineFile>;
   readonly dest: string;
   readonly from: string | null;
   readonly chown: string | null;
   readonly chmod: string | null;
+  readonly link: boolean;
+  readonly parents: boolean;
+  readonly exclude: ReadonlyArray<string>;
+  readonly form: "shell" | "json" | null;
+  readonly comment: string | null;
 };
 
 /**
- * ADD instruction - copies files with URL/archive support
+ * Source of an ADD instruction, classified by the add() factory
+ *
+ * - `local`: path in the build context (`archive.tar.gz`)
+ * - `url`: HTTP(S) download (`https://example.com/file.tar.gz`)
+ * - `git`: Git repository (`https://github.com/moby/buildkit.git#v0.12.0:docs`,
+ *   `git@github.com:user/repo.git`), with the `#ref:subdir` fragment split out
+ */
+export type AddSource =
+  | { readonly kind: "local"; readonly path: string }
+  | { readonly kind: "url"; readonly url: string }
+  | {
+      readonly kind: "git";
+      readonly url: string;
+      readonly ref: string | null;
+      readonly subdir: string | null;
+    };
+
+/**
+ * ADD instruction - copies files with URL/archive/Git support
  *
  * @example
  * Single source: `ADD file.tar.gz /app/`
  * Multiple sources: `ADD file1.txt file2.txt /app/`
- * URL source: `ADD https://example.com/file.tar.gz /app/`
+ * Verified download: `ADD --checksum=sha256:24454f83... https://example.com/file.tar.gz /app/`
+ * Git repository: `ADD --keep-git-dir=true https://github.com/moby/buildkit.git#v0.12.0 /src/`
  *
- * The `src` field is always a ReadonlyArray<string>.
- * The factory function normalizes single sources to arrays for consistent handling.
- * Sources can be local files or URLs. When using an array, the final destination must be a directory.
+ * The `src` field is always a ReadonlyArray<AddSource>.
+ * The factory function normalizes single sources to arrays and classifies each one.
+ * `form` behaves as for COPY.
+ * When using an array, the final destination must be a directory.
  */
 export type AddInstruction = {
   readonly type: "ADD";
-  readonly src: ReadonlyArray<string>;
+  readonly src: ReadonlyArray<AddSource>;
   readonly dest: string;
   readonly chown: string | null;
   readonly chmod: string | null;
+  readonly checksum: string | null;
+  readonly keepGitDir: boolean;
+  readonly link: boolean;
+  readonly form: "shell" | "json" | null;
+  readonly comment: string | null;
 };
 
 /**
@@ -64,15 +218,32 @@ export type AddInstruction = {
 export type WorkdirInstruction = {
   readonly type: "WORKDIR";
   readonly path: string;
+  readonly comment: string | null;
+};
+
+/**
+ * Key/value pair set by an ENV or LABEL instruction
+ */
+export type KeyValuePair = {
+  readonly key: string;
+  readonly value: string;
 };
 
 /**
  * ENV instruction - sets environment variables
+ *
+ * @example
+ * Single pair: `ENV NODE_ENV=production`
+ * Multiple pairs render one per line:
+ * ```
+ * ENV NODE_ENV=production \
+ *     PORT=8080
+ * ```
  */
 export type EnvInstruction = {
   readonly type: "ENV";
-  readonly key: string;
-  readonly value: string;
+  readonly pairs: ReadonlyArray<KeyValuePair>;
+  readonly comment: string | null;
 };
 
 /**
@@ -93,6 +264,7 @@ export type ExposeInstruction = {
   readonly port: number;
   readonly endPort: number | null;
   readonly protocol: "tcp" | "udp" | "sctp" | null;
+  readonly comment: string | null;
 };
 
 /**
@@ -101,6 +273,7 @@ export type ExposeInstruction = {
 export type CmdInstruction = {
   readonly type: "CMD";
   readonly command: string | ReadonlyArray<string>;
+  readonly comment: string | null;
 };
 
 /**
@@ -109,6 +282,7 @@ export type CmdInstruction = {
 export type EntrypointInstruction = {
   readonly type: "ENTRYPOINT";
   readonly command: string | ReadonlyArray<string>;
+  readonly comment: string | null;
 };
 
 /**
@@ -118,15 +292,127 @@ export type ArgInstruction = {
   readonly type: "ARG";
   readonly name: string;
   readonly defaultValue: string | null;
+  readonly comment: string | null;
 };
 
 /**
  * LABEL instruction - metadata
+ *
+ * Like ENV, multiple pairs render as a single multi-line instruction.
  */
 export type LabelInstruction = {
   readonly type: "LABEL";
-  readonly key: string;
-  readonly value: string;
+  readonly pairs: ReadonlyArray<KeyValuePair>;
+  readonly comment: string | null;
+};
+
+/**
+ * USER instruction - sets the user (and optionally group) for subsequent instructions
+ *
+ * Name form: `USER node:node`
+ * Numeric form: `USER 1000:1000`
+ *
+ * Numeric IDs are stored in their decimal string form.
+ */
+export type UserInstruction = {
+  readonly type: "USER";
+  readonly user: string;
+  readonly group: string | null;
+  readonly comment: string | null;
+};
+
+/**
+ * VOLUME instruction - declares externally mounted volume paths
+ *
+ * Space-separated form: `VOLUME /data /logs`
+ * JSON form: `VOLUME ["/my data"]`
+ *
+ * The renderer picks the JSON form automatically when any path contains whitespace or quotes.
+ */
+export type VolumeInstruction = {
+  readonly type: "VOLUME";
+  readonly paths: ReadonlyArray<string>;
+  readonly comment: string | null;
+};
+
+/**
+ * SHELL instruction - overrides the shell used for shell-form commands
+ *
+ * Always exec form: `SHELL ["/bin/bash", "-o", "pipefail", "-c"]`
+ *
+ * The override applies to subsequent shell-form RUN, CMD and ENTRYPOINT
+ * instructions until the next SHELL or the end of the stage.
+ */
+export type ShellInstruction = {
+  readonly type: "SHELL";
+  readonly command: ReadonlyArray<string>;
+  readonly comment: string | null;
+};
+
+/**
+ * HEALTHCHECK instruction - configures container health monitoring
+ *
+ * Check: `HEALTHCHECK --interval=30s --retries=3 CMD curl -f http://localhost/ || exit 1`
+ * Disable inherited check: `HEALTHCHECK NONE`
+ *
+ * The command uses the shell/exec forms of RUN (heredocs are not supported).
+ * A `null` command represents the NONE form; all options are null in that case.
+ */
+export type HealthcheckInstruction = {
+  readonly type: "HEALTHCHECK";
+  readonly command: string | ReadonlyArray<string> | null;
+  readonly interval: string | null;
+  readonly timeout: string | null;
+  readonly startPeriod: string | null;
+  readonly startInterval: string | null;
+  readonly retries: number | null;
+  readonly comment: string | null;
+};
+
+/**
+ * STOPSIGNAL instruction - sets the signal sent to stop the container
+ *
+ * Name form: `STOPSIGNAL SIGINT`
+ * Number form: `STOPSIGNAL 9`
+ *
+ * Numeric signals are stored in their decimal string form.
+ */
+export type StopSignalInstruction = {
+  readonly type: "STOPSIGNAL";
+  readonly signal: string;
+  readonly comment: string | null;
+};
+
+/**
+ * ONBUILD instruction - registers a trigger instruction for downstream builds
+ *
+ * `ONBUILD COPY . /app`
+ * `ONBUILD RUN npm ci`
+ *
+ * The wrapped instruction cannot be ONBUILD, FROM or MAINTAINER.
+ */
+export type OnbuildInstruction = {
+  readonly type: "ONBUILD";
+  readonly instruction: Instruction;
+  readonly comment: string | null;
+};
+
+/**
+ * Comment node - renders one `# ...` line per line of text
+ *
+ * Comments can also be attached to any other instruction through the `comment`
+ * field, which every factory accepts as an option.
+ */
+export type CommentInstruction = {
+  readonly type: "COMMENT";
+  readonly text: string;
+};
+
+/**
+ * Blank node - renders an empty line, for spacing between instructions
+ */
+export type BlankInstruction = {
+  readonly type: "BLANK";
 };
 
 /**
@@ -143,7 +429,15 @@ export type Instruction =
   | CmdInstruction
   | EntrypointInstruction
   | ArgInstruction
-  | LabelInstruction;
+  | LabelInstruction
+  | UserInstruction
+  | VolumeInstruction
+  | ShellInstruction
+  | HealthcheckInstruction
+  | StopSignalInstruction
+  | OnbuildInstruction
+  | CommentInstruction
+  | BlankInstruction;
 
 /**
  * A named stage in a multi-stage build
@@ -153,12 +447,61 @@ export type Stage = {
   readonly instructions: ReadonlyArray<Instruction>;
 };
 
+/**
+ * `# syntax=...` parser directive - selects the Dockerfile frontend image
+ */
+export type SyntaxDirective = {
+  readonly type: "syntax";
+  readonly image: string;
+};
+
+/**
+ * `# escape=...` parser directive - sets the escape character (`\` or `` ` ``)
+ */
+export type EscapeDirective = {
+  readonly type: "escape";
+  readonly char: "\\" | "`";
+};
+
+/**
+ * `# check=...` parser directive - configures build checks
+ *
+ * `# check=skip=JSONArgsRecommended,StageNameCasing;error=true`
+ * An empty `skip` array and `null` error omit that part of the directive.
+ */
+export type CheckDirective = {
+  readonly type: "check";
+  readonly skip: ReadonlyArray<string>;
+  readonly error: boolean | null;
+};
+
+/**
+ * Discriminated union of parser directives, rendered at the top of the file
+ */
+export type Directive = SyntaxDirective | EscapeDirective | CheckDirective;
+
 /**
  * A Containerfile definition - either single-stage (instructions) or multi-stage (stages)
+ *
+ * containerfile() and parse() always set `directives`, empty when no parser directives
+ * are set; hand-built definitions may leave it out.
  */
 export type Containerfile =
-  | { readonly instructions: ReadonlyArray<Instruction> }
-  | { readonly stages: ReadonlyArray<Stage> };
+  | {
+      readonly directives?: ReadonlyArray<Directive>;
+      readonly instructions: ReadonlyArray<Instruction>;
+    }
+  | { readonly directives?: ReadonlyArray<Directive>; readonly stages: ReadonlyArray<Stage> };
+
+/**
+ * Options for factory functions that only accept a comment
+ * (workdir, env, cmd, entrypoint, label, volume, shell, healthcheckNone, stopSignal, onbuild)
+ *
+ * `comment` renders as `# ...` lines directly above the instruction.
+ */
+export type CommentOptions = {
+  readonly comment?: string;
+};
 
 /**
  * Options for the from() factory function
@@ -166,6 +509,117 @@ export type Containerfile =
 export type FromOptions = {
   readonly as?: string;
   readonly platform?: string;
+  readonly comment?: string;
+};
+
+/**
+ * Mount options for RUN --mount=type=cache
+ */
+export type CacheMountOptions = {
+  readonly type: "cache";
+  readonly target: string;
+  readonly id?: string;
+  readonly sharing?: "shared" | "private" | "locked";
+  readonly from?: string;
+  readonly source?: string;
+  readonly mode?: string;
+  readonly uid?: number;
+  readonly gid?: number;
+  readonly readonly?: boolean;
+};
+
+/**
+ * Mount options for RUN --mount=type=secret (requires id, target or env)
+ */
+export type SecretMountOptions = {
+  readonly type: "secret";
+  readonly id?: string;
+  readonly target?: string;
+  readonly env?: string;
+  readonly mode?: string;
+  readonly uid?: number;
+  readonly gid?: number;
+  readonly required?: boolean;
+};
+
+/**
+ * Mount options for RUN --mount=type=ssh
+ */
+export type SshMountOptions = {
+  readonly type: "ssh";
+  readonly id?: string;
+  readonly target?: string;
+  readonly mode?: string;
+  readonly uid?: number;
+  readonly gid?: number;
+  readonly required?: boolean;
+};
+
+/**
+ * Mount options for RUN --mount=type=bind
+ */
+export type BindMountOptions = {
+  readonly type: "bind";
+  readonly target: string;
+  readonly source?: string;
+  readonly from?: string;
+  readonly readwrite?: boolean;
+};
+
+/**
+ * Mount options for RUN --mount=type=tmpfs
+ */
+export type TmpfsMountOptions = {
+  readonly type: "tmpfs";
+  readonly target: string;
+  readonly size?: number;
+};
+
+/**
+ * Discriminated union of mount options accepted by run()
+ */
+export type MountOptions =
+  | CacheMountOptions
+  | SecretMountOptions
+  | SshMountOptions
+  | BindMountOptions
+  | TmpfsMountOptions;
+
+/**
+ * Heredoc script accepted by run()
+ */
+export type HeredocInput = {
+  readonly body: string;
+  readonly interpreter?: string;
+  readonly delimiter?: string;
+  /** Quote the delimiter so the builder leaves `$VAR` in the body alone (default: false) */
+  readonly quoted?: boolean;
+};
+
+/**
+ * Inline file contents accepted as a copy() source
+ */
+export type InlineFileInput = {
+  readonly contents: string;
+  readonly delimiter?: string;
+  /** Quote the delimiter so `$VAR` in the contents is copied verbatim (default: true) */
+  readonly quoted?: boolean;
+};
+
+/**
+ * Pairs accepted by env() and label(): a record, or an array of pairs when
+ * a key repeats or the order of integer-like keys matters
+ */
+export type PairsInput = Readonly<Record<string, string>> | ReadonlyArray<KeyValuePair>;
+
+/**
+ * Options for the run() factory function
+ */
+export type RunOptions = {
+  readonly mounts?: ReadonlyArray<MountOptions>;
+  readonly network?: "default" | "none" | "host";
+  readonly security?: "sandbox" | "insecure";
+  readonly comment?: string;
 };
 
 /**
@@ -175,6 +629,11 @@ export type CopyOptions = {
   readonly from?: string;
   readonly chown?: string;
   readonly chmod?: string;
+  readonly link?: boolean;
+  readonly parents?: boolean;
+  readonly exclude?: ReadonlyArray<string>;
+  readonly form?: "shell" | "json";
+  readonly comment?: string;
 };
 
 /**
@@ -183,6 +642,11 @@ export type CopyOptions = {
 export type AddOptions = {
   readonly chown?: string;
   readonly chmod?: string;
+  readonly checksum?: string;
+  readonly keepGitDir?: boolean;
+  readonly link?: boolean;
+  readonly form?: "shell" | "json";
+  readonly comment?: string;
 };
 
 /**
@@ -190,6 +654,7 @@ export type AddOptions = {
  */
 export type ExposeOptions = {
   readonly protocol?: "tcp" | "udp" | "sctp";
+  readonly comment?: string;
 };
 
 /**
@@ -197,4 +662,100 @@ export type ExposeOptions = {
  */
 export type ArgOptions = {
   readonly defaultValue?: string;
+  readonly comment?: string;
+};
+
+/**
+ * Options for the healthcheck() factory function
+ */
+export type HealthcheckOptions = {
+  readonly interval?: string;
+  readonly timeout?: string;
+  readonly startPeriod?: string;
+  readonly startInterval?: string;
+  readonly retries?: number;
+  readonly comment?: string;
+};
+
+/**
+ * Options for the checkDirective() factory function
+ */
+export type CheckDirectiveOptions = {
+  readonly skip?: ReadonlyArray<string> | "all";
+  readonly error?: boolean;
+};
+
+/**
+ * Options for the containerfile() factory function
+ */
+export type ContainerfileOptions = {
+  readonly directives?: ReadonlyArray<Result<Directive, Array<ValidationError>>>;
+};
+
+/**
+ * Options for render()
+ *
+ * Every option defaults to the historical output, so `render(containerfile)` is unchanged.
+ */
+export type RenderOptions = {
+  /**
+   * Maximum line width. Shell-form RUN commands longer than this are split onto
+   * continuation lines at top-level `&&` boundaries. Default: no wrapping.
+   */
+  readonly lineWidth?: number;
+  /** Number of spaces used to indent continuation lines. Default: 4 */
+  readonly indent?: number;
+  /** Blank lines between build stages. Default: 1 */
+  readonly blankLinesBetweenStages?: number;
+  /**
+   * Blank lines between instruction groups, where a group is a run of consecutive
+   * instructions of the same type (e.g. all ARGs, then all LABELs). Default: 0
+   */
+  readonly blankLinesBetweenGroups?: number;
+  /** End the output with a newline. Default: false */
+  readonly trailingNewline?: boolean;
+};
+
+/**
+ * Options for generateTypeScript()
+ */
+export type CodegenOptions = {
+  /** Module the factories are imported from. Default: "@bojanrajkovic/containerfile-ts" */
+  readonly importPath?: string;
+  /** Name of the exported Containerfile constant. Default: "fixture" */
+  readonly exportName?: string;
+};
+
+/**
+ * One generator entry in a containerfile.config.ts file
+ */
+export type GeneratorConfig = {
+  /** Generator module path, or a glob pattern (`*`, `**`, `?`), relative to the config file */
+  readonly module: string;
+  /**
+   * Dockerfile path relative to the config file. `{dir}` expands to the module's
+   * directory and `{name}` to its file name without extension, for glob entries.
+   */
+  readonly output: string;
+  /** Export to render. Default: the default export, or the only Containerfile export */
+  readonly export?: string;
+  /** Default values for ARG instructions declared by the generator */
+  readonly buildArgs?: Readonly<Record<string, string>>;
+};
+
+/**
+ * Contents of a containerfile.config.ts file, see defineConfig()
+ */
+export type ContainerfileConfig = {
+  readonly generators: ReadonlyArray<GeneratorConfig>;
+  /** Rules and severity overrides for `containerfile-ts lint` */
+  readonly lint?: LintOptions;
+};
+
+/**
+ * Options for the user() factory function
+ */
+export type UserOptions = {
+  readonly group?: string | number;
+  readonly comment?: string;
 };
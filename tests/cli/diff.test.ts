@@ -0,0 +1,82 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../../src/cli/diff.js";
+
+const labels = { fromFile: "a/Dockerfile", toFile: "b/Dockerfile" };
+
+function lines(...values: Array<string>): string {
+  return `${values.join("\n")}\n`;
+}
+
+describe("unifiedDiff()", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(unifiedDiff("FROM alpine\n", "FROM alpine\n", labels)).toBe("");
+    expect(unifiedDiff("FROM alpine", "FROM alpine", labels)).toBe("");
+    expect(unifiedDiff("", "", labels)).toBe("");
+  });
+
+  it("marks a last line without a newline", () => {
+    expect(unifiedDiff("FROM alpine\nRUN a", lines("FROM alpine", "RUN a"), labels)).toBe(
+      [
+        "--- a/Dockerfile",
+        "+++ b/Dockerfile",
+        "@@ -1,2 +1,2 @@",
+        " FROM alpine",
+        "-RUN a",
+        "\\ No newline at end of file",
+        "+RUN a",
+      ].join("\n"),
+    );
+  });
+
+  it("shows a changed line with its context", () => {
+    const diff = unifiedDiff(
+      lines("FROM alpine", "WORKDIR /app", "RUN a", 'CMD ["app"]'),
+      lines("FROM alpine", "WORKDIR /app", "RUN b", 'CMD ["app"]'),
+      labels,
+    );
+    expect(diff).toBe(
+      [
+        "--- a/Dockerfile",
+        "+++ b/Dockerfile",
+        "@@ -1,4 +1,4 @@",
+        " FROM alpine",
+        " WORKDIR /app",
+        "-RUN a",
+        "+RUN b",
+        ' CMD ["app"]',
+      ].join("\n"),
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const old = lines(..."abcdefghijkl".split(""));
+    const changed = lines(..."Abcdefghijkl".split("").slice(0, 11), "L");
+    expect(unifiedDiff(old, changed, { ...labels, context: 1 })).toBe(
+      [
+        "--- a/Dockerfile",
+        "+++ b/Dockerfile",
+        "@@ -1,2 +1,2 @@",
+        "-a",
+        "+A",
+        " b",
+        "@@ -11,2 +11,2 @@",
+        " k",
+        "-l",
+        "+L",
+      ].join("\n"),
+    );
+  });
+
+  it("formats insertions and deletions at the edges of the file", () => {
+    expect(unifiedDiff("", lines("FROM alpine"), labels)).toBe(
+      ["--- a/Dockerfile", "+++ b/Dockerfile", "@@ -0,0 +1 @@", "+FROM alpine"].join("\n"),
+    );
+    expect(unifiedDiff(lines("a", "b", "c", "d", "e"), lines("a"), { ...labels, context: 0 })).toBe(
+      ["--- a/Dockerfile", "+++ b/Dockerfile", "@@ -2,4 +1,0 @@", "-b", "-c", "-d", "-e"].join(
+        "\n",
+      ),
+    );
+  });
+});
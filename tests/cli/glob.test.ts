@@ -0,0 +1,64 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { expandGlob, isGlob } from "../../src/cli/glob.js";
+
+const root = mkdtempSync(join(tmpdir(), "containerfile-glob-"));
+
+beforeAll(() => {
+  for (const file of [
+    "services/api/containerfile.ts",
+    "services/web/containerfile.ts",
+    "services/web/helpers.ts",
+    "services/legacy/v1/containerfile.ts",
+    "services/.hidden/containerfile.ts",
+    "node_modules/pkg/containerfile.ts",
+    "tools/a1.containerfile.ts",
+    "tools/a22.containerfile.ts",
+  ]) {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(join(root, file), "");
+  }
+});
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+describe("isGlob()", () => {
+  it("detects wildcards", () => {
+    expect(isGlob("services/*/containerfile.ts")).toBe(true);
+    expect(isGlob("tools/a?.ts")).toBe(true);
+    expect(isGlob("services/api/containerfile.ts")).toBe(false);
+  });
+});
+
+describe("expandGlob()", () => {
+  it("matches * within one path segment", async () => {
+    expect(await expandGlob("services/*/containerfile.ts", root)).toEqual([
+      "services/api/containerfile.ts",
+      "services/web/containerfile.ts",
+    ]);
+  });
+
+  it("matches ** across directories, skipping hidden entries and node_modules", async () => {
+    expect(await expandGlob("**/containerfile.ts", root)).toEqual([
+      "services/api/containerfile.ts",
+      "services/legacy/v1/containerfile.ts",
+      "services/web/containerfile.ts",
+    ]);
+  });
+
+  it("matches ? as one character", async () => {
+    expect(await expandGlob("tools/a?.containerfile.ts", root)).toEqual([
+      "tools/a1.containerfile.ts",
+    ]);
+  });
+
+  it("resolves literal segments, including parent directories", async () => {
+    expect(await expandGlob("../services/*/helpers.ts", join(root, "tools"))).toEqual([
+      "../services/web/helpers.ts",
+    ]);
+    expect(await expandGlob("missing/*.ts", root)).toEqual([]);
+  });
+});
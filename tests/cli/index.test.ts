@@ -0,0 +1,500 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { main, EXIT_OK, EXIT_FAILURE, EXIT_USAGE } from "../../src/cli/index.js";
+
+// Commands import generators through tsx, which compiles the library on first use
+vi.setConfig({ testTimeout: 20_000 });
+
+const indexPath = join(import.meta.dirname, "..", "..", "src", "index.js");
+const workDir = mkdtempSync(join(tmpdir(), "containerfile-cli-"));
+afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+writeFileSync(join(workDir, "package.json"), JSON.stringify({ type: "module" }));
+
+let moduleCount = 0;
+
+/**
+ * Write a generator module importing the library from source; returns its file name
+ */
+function writeModule(body: string): string {
+  const name = `generator-${moduleCount++}.ts`;
+  writeFileSync(
+    join(workDir, name),
+    `import * as cf from ${JSON.stringify(indexPath)};\n${body}\n`,
+  );
+  return name;
+}
+
+/**
+ * Write files into a fresh project directory under workDir; returns its name.
+ * ".ts" files get the library import prepended.
+ */
+function writeProject(files: Record<string, string>): string {
+  const project = `project-${moduleCount++}`;
+  for (const [file, contents] of Object.entries(files)) {
+    const path = join(workDir, project, file);
+    mkdirSync(dirname(path), { recursive: true });
+    const header = file.endsWith(".ts")
+      ? `import * as cf from ${JSON.stringify(indexPath)};\n`
+      : "";
+    writeFileSync(path, `${header}${contents}\n`);
+  }
+  return project;
+}
+
+function runCli(...argv: Array<string>) {
+  return startCli(undefined, ...argv).done;
+}
+
+/**
+ * Start the CLI without waiting for it: `output` fills in as it runs,
+ * and `done` resolves with it once the command returns
+ */
+function startCli(signal: AbortSignal | undefined, ...argv: Array<string>) {
+  const output = { code: -1, stdout: "", stderr: "" };
+  const done = main(argv, {
+    cwd: workDir,
+    stdout: (text) => (output.stdout += text),
+    stderr: (text) => (output.stderr += text),
+    signal,
+  }).then((code) => {
+    output.code = code;
+    return output;
+  });
+  return { output, done };
+}
+
+describe("containerfile-ts render", () => {
+  it("renders a Result export to stdout", async () => {
+    const module = writeModule(
+      'export const app = cf.containerfile([cf.from("alpine"), cf.run("apk add curl")]);',
+    );
+    const { code, stdout, stderr } = await runCli("render", module);
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("FROM alpine\nRUN apk add curl\n");
+    expect(stderr).toBe("");
+  });
+
+  it("prefers the default export and passes renderOptions to render()", async () => {
+    const module = writeModule(
+      [
+        'export const other = cf.containerfile([cf.from("debian")]);',
+        "export const renderOptions = { blankLinesBetweenGroups: 1 };",
+        'export default cf.containerfile([cf.from("alpine"), cf.run("true")])._unsafeUnwrap();',
+      ].join("\n"),
+    );
+    const { code, stdout } = await runCli("render", module);
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("FROM alpine\n\nRUN true\n");
+  });
+
+  it("fails on an invalid renderOptions export", async () => {
+    const module = writeModule(
+      [
+        'export const renderOptions = { indent: "2", trailingNewline: 1 };',
+        'export const app = cf.containerfile([cf.from("alpine")]);',
+      ].join("\n"),
+    );
+    const { code, stdout, stderr } = await runCli("render", module);
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe("");
+    expect(stderr).toBe(
+      `${module}: export "renderOptions" is not valid\n` +
+        '  renderOptions.indent: must be a non-negative integer (got "2")\n' +
+        "  renderOptions.trailingNewline: must be a boolean (got 1)\n",
+    );
+  });
+
+  it("renders the export chosen with --export", async () => {
+    const module = writeModule(
+      [
+        'export const a = cf.containerfile([cf.from("alpine")]);',
+        'export const b = cf.containerfile([cf.from("debian")]);',
+      ].join("\n"),
+    );
+    const { code, stdout } = await runCli("render", module, "--export", "b");
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("FROM debian\n");
+  });
+
+  it("writes to --output, creating directories", async () => {
+    const module = writeModule('export const app = cf.containerfile([cf.from("alpine")]);');
+    const { code, stdout } = await runCli("render", module, "-o", "out/app/Dockerfile");
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("");
+    expect(readFileSync(join(workDir, "out", "app", "Dockerfile"), "utf-8")).toBe("FROM alpine\n");
+  });
+
+  it("prints ValidationErrors with field paths and fails", async () => {
+    const module = writeModule(
+      'export const app = cf.containerfile([cf.from("alpine"), cf.copy([], "/app")]);',
+    );
+    const { code, stdout, stderr } = await runCli("render", module);
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe("");
+    expect(stderr).toBe(
+      `${module}: export "app" is an Err result\n` +
+        "  instructions[1].src: must have at least one path (got [])\n",
+    );
+  });
+
+  it("fails when the export cannot be determined", async () => {
+    const ambiguous = writeModule(
+      [
+        'export const a = cf.containerfile([cf.from("alpine")]);',
+        'export const b = cf.containerfile([cf.from("debian")]);',
+      ].join("\n"),
+    );
+    const none = writeModule("export const value = 42;");
+
+    const several = await runCli("render", ambiguous);
+    expect(several.code).toBe(EXIT_FAILURE);
+    expect(several.stderr).toContain("several Containerfiles (a, b)");
+
+    const missing = await runCli("render", ambiguous, "--export", "c");
+    expect(missing.code).toBe(EXIT_FAILURE);
+    expect(missing.stderr).toContain('no export named "c"');
+
+    const empty = await runCli("render", none);
+    expect(empty.code).toBe(EXIT_FAILURE);
+    expect(empty.stderr).toContain("exports no Containerfile or Result");
+  });
+
+  it("fails when the module cannot be loaded", async () => {
+    const { code, stderr } = await runCli("render", "missing.ts");
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stderr).toMatch(/^missing\.ts: cannot load module: /);
+  });
+});
+
+describe("containerfile-ts check", () => {
+  it("passes when the Dockerfile matches the rendered module", async () => {
+    const module = writeModule(
+      'export const app = cf.containerfile([cf.from("alpine"), cf.run("true")]);',
+    );
+    writeFileSync(join(workDir, "Dockerfile.current"), "FROM alpine\nRUN true\n");
+    const { code, stdout, stderr } = await runCli("check", module, "-o", "Dockerfile.current");
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("Dockerfile.current: up to date\n");
+    expect(stderr).toBe("");
+  });
+
+  it("prints a unified diff and fails on drift", async () => {
+    const module = writeModule(
+      'export const app = cf.containerfile([cf.from("alpine"), cf.run("apk add curl")]);',
+    );
+    writeFileSync(join(workDir, "Dockerfile.edited"), "FROM alpine\nRUN apk add wget\n");
+    const { code, stdout, stderr } = await runCli("check", module, "-o", "Dockerfile.edited");
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe(
+      [
+        "--- Dockerfile.edited",
+        `+++ Dockerfile.edited (rendered from ${module})`,
+        "@@ -1,2 +1,2 @@",
+        " FROM alpine",
+        "-RUN apk add wget",
+        "+RUN apk add curl",
+        "",
+      ].join("\n"),
+    );
+    expect(stderr).toBe(
+      `Dockerfile.edited: out of date; run \`containerfile-ts render ${module} -o Dockerfile.edited\`\n`,
+    );
+  });
+
+  it("fails when the Dockerfile differs only by its final newline", async () => {
+    const module = writeModule('export const app = cf.containerfile([cf.from("alpine")]);');
+    writeFileSync(join(workDir, "Dockerfile.unterminated"), "FROM alpine");
+    const { code, stdout } = await runCli("check", module, "-o", "Dockerfile.unterminated");
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toContain("-FROM alpine\n\\ No newline at end of file\n+FROM alpine\n");
+  });
+
+  it("fails when the Dockerfile is missing or the module is invalid", async () => {
+    const valid = writeModule('export const app = cf.containerfile([cf.from("alpine")]);');
+    const missing = await runCli("check", valid, "-o", "Dockerfile.missing");
+    expect(missing.code).toBe(EXIT_FAILURE);
+    expect(missing.stderr).toContain("Dockerfile.missing: missing;");
+
+    const invalid = writeModule('export const app = cf.containerfile([cf.from("")]);');
+    const failed = await runCli("check", invalid, "-o", "Dockerfile.current");
+    expect(failed.code).toBe(EXIT_FAILURE);
+    expect(failed.stderr).toContain("instructions[0].image:");
+  });
+
+  it("requires --output", async () => {
+    expect((await runCli("check", "app.ts")).code).toBe(EXIT_USAGE);
+  });
+});
+
+const config = (generators: ReadonlyArray<Record<string, unknown>>) =>
+  `export default cf.defineConfig(${JSON.stringify({ generators })});`;
+
+describe("containerfile-ts generate", () => {
+  it("renders every configured generator, expanding globs and applying build args", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "app.ts", output: "Dockerfile", buildArgs: { NODE_VERSION: "22" } },
+        { module: "services/*/image.ts", output: "{dir}/{name}.Dockerfile" },
+      ]),
+      "app.ts": [
+        "export default cf.containerfile([",
+        '  cf.arg("NODE_VERSION", { defaultValue: "20" }),',
+        '  cf.from("node:${NODE_VERSION}"),',
+        "]);",
+      ].join("\n"),
+      "services/api/image.ts": 'export default cf.containerfile([cf.from("api")]);',
+      "services/web/image.ts": 'export default cf.containerfile([cf.from("web")]);',
+    });
+    const configPath = join(project, "containerfile.config.ts");
+
+    const first = await runCli("generate", "--config", configPath);
+    expect(first.code).toBe(EXIT_OK);
+    expect(first.stdout).toBe(
+      [
+        `${project}/Dockerfile: written`,
+        `${project}/services/api/image.Dockerfile: written`,
+        `${project}/services/web/image.Dockerfile: written`,
+        "",
+      ].join("\n"),
+    );
+    expect(readFileSync(join(workDir, project, "Dockerfile"), "utf-8")).toBe(
+      "ARG NODE_VERSION=22\nFROM node:${NODE_VERSION}\n",
+    );
+    expect(readFileSync(join(workDir, project, "services/web/image.Dockerfile"), "utf-8")).toBe(
+      "FROM web\n",
+    );
+
+    const second = await runCli("generate", "-c", configPath);
+    expect(second.stdout).toContain(`${project}/Dockerfile: unchanged`);
+  });
+
+  it("reports each failing generator and still writes the others", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "good.ts", output: "good.Dockerfile" },
+        { module: "bad.ts", output: "bad.Dockerfile" },
+        { module: "good.ts", output: "args.Dockerfile", buildArgs: { MISSING: "1" } },
+      ]),
+      "good.ts": 'export default cf.containerfile([cf.from("alpine")]);',
+      "bad.ts": 'export default cf.containerfile([cf.from("alpine"), cf.workdir("")]);',
+    });
+    const { code, stdout, stderr } = await runCli(
+      "generate",
+      "-c",
+      join(project, "containerfile.config.ts"),
+    );
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe(`${project}/good.Dockerfile: written\n`);
+    expect(stderr).toBe(
+      [
+        `${project}/bad.ts: export "default" is an Err result`,
+        '  instructions[1].path: Expected string length greater or equal to 1 (got "")',
+        `${project}/good.ts: invalid build args`,
+        '  buildArgs.MISSING: no ARG MISSING is declared (got "1")',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("reports outputs that cannot be written and still writes the others", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "app.ts", output: "taken/Dockerfile" },
+        { module: "app.ts", output: "app.Dockerfile" },
+      ]),
+      "app.ts": 'export default cf.containerfile([cf.from("alpine")]);',
+      // A file where the output's parent directory should be
+      taken: "",
+    });
+    const { code, stdout, stderr } = await runCli(
+      "generate",
+      "-c",
+      join(project, "containerfile.config.ts"),
+    );
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe(`${project}/app.Dockerfile: written\n`);
+    expect(stderr).toMatch(new RegExp(`^${project}/taken/Dockerfile: ENOTDIR: .*\n$`));
+  });
+
+  it("reports invalid config files with field paths", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "app.ts" },
+        { module: "missing/*.ts", output: "Dockerfile" },
+      ]),
+      "glob.config.ts": config([{ module: "missing/*.ts", output: "{name}.Dockerfile" }]),
+      "duplicate.config.ts": config([
+        { module: "a.ts", output: "Dockerfile" },
+        { module: "b.ts", output: "Dockerfile" },
+      ]),
+    });
+    const invalid = await runCli("generate", "-c", join(project, "containerfile.config.ts"));
+    expect(invalid.code).toBe(EXIT_FAILURE);
+    expect(invalid.stderr).toBe(
+      [
+        `${project}/containerfile.config.ts: invalid config`,
+        "  generators[0].output: must be a non-empty string (got undefined)",
+        "",
+      ].join("\n"),
+    );
+
+    const unresolved = await runCli("generate", "-c", join(project, "glob.config.ts"));
+    expect(unresolved.code).toBe(EXIT_FAILURE);
+    expect(unresolved.stderr).toBe(
+      [
+        `${project}/glob.config.ts: invalid config`,
+        '  generators[0].module: matches no files (got "missing/*.ts")',
+        "",
+      ].join("\n"),
+    );
+
+    const duplicate = await runCli("generate", "-c", join(project, "duplicate.config.ts"));
+    expect(duplicate.code).toBe(EXIT_FAILURE);
+    expect(duplicate.stderr).toContain(
+      `generators[1].output: ${project}/b.ts writes the same file as generators[0]`,
+    );
+
+    const missing = await runCli("generate");
+    expect(missing.code).toBe(EXIT_FAILURE);
+    expect(missing.stderr).toMatch(/^containerfile\.config\.ts: cannot load module: /);
+  });
+
+  it("checks every configured generator when check has no module", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "a.ts", output: "a.Dockerfile" },
+        { module: "b.ts", output: "b.Dockerfile" },
+      ]),
+      "a.ts": 'export default cf.containerfile([cf.from("alpine")]);',
+      "b.ts": 'export default cf.containerfile([cf.from("debian")]);',
+      "a.Dockerfile": "FROM alpine",
+      "b.Dockerfile": "FROM ubuntu",
+    });
+    const configPath = join(project, "containerfile.config.ts");
+    const { code, stdout, stderr } = await runCli("check", "-c", configPath);
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toContain(`${project}/a.Dockerfile: up to date`);
+    expect(stdout).toContain("-FROM ubuntu\n+FROM debian");
+    expect(stderr).toBe(
+      `${project}/b.Dockerfile: out of date; run \`containerfile-ts generate -c ${configPath}\`\n`,
+    );
+  });
+
+  it("regenerates generators whose imports change in --watch mode", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": config([
+        { module: "app.ts", output: "app.Dockerfile" },
+        { module: "other.ts", output: "other.Dockerfile" },
+      ]),
+      "base.ts": 'export const image = "alpine";',
+      "app.ts": [
+        'import { image } from "./base.js";',
+        "export default cf.containerfile([cf.from(image)]);",
+      ].join("\n"),
+      "other.ts": 'export default cf.containerfile([cf.from("debian")]);',
+    });
+    const controller = new AbortController();
+    const running = startCli(
+      controller.signal,
+      "generate",
+      "--watch",
+      "-c",
+      join(project, "containerfile.config.ts"),
+    );
+
+    const output = join(workDir, project, "app.Dockerfile");
+    // The watchers are running once the CLI says so
+    await expect
+      .poll(() => running.output.stdout, { timeout: 10_000 })
+      .toContain("Watching for changes");
+    expect(readFileSync(output, "utf-8")).toBe("FROM alpine\n");
+    writeFileSync(join(workDir, project, "base.ts"), 'export const image = "busybox";\n');
+    await expect
+      .poll(() => readFileSync(output, "utf-8"), { timeout: 10_000, interval: 100 })
+      .toBe("FROM busybox\n");
+
+    controller.abort();
+    const { code, stdout } = await running.done;
+    expect(code).toBe(EXIT_OK);
+    // Only the generator importing base.ts was regenerated
+    expect(stdout.match(/other\.Dockerfile/g)).toHaveLength(1);
+  });
+});
+
+describe("containerfile-ts lint", () => {
+  it("reports diagnostics with locations and fixes, failing only on errors", async () => {
+    const module = writeModule(
+      [
+        "export default cf.containerfile([",
+        '  cf.stage("build", [cf.from("node:22", { as: "build" }), cf.run("cd src && make")]),',
+        '  cf.stage("runtime", [cf.from("alpine:3.20"), cf.cmd("node server.js"), cf.cmd(["node"])]),',
+        "]);",
+      ].join("\n"),
+    );
+    const { code, stdout } = await runCli("lint", module);
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe(
+      [
+        `${module}: stages[0].instructions[1]: info: RUN changes directory with cd; use WORKDIR so later instructions see it (no-cd-in-run)`,
+        `${module}: stages[1].instructions[1]: warning: CMD uses shell form, so signals are not delivered to the process; use JSON form (json-args-recommended)`,
+        '  fix: Use ["node","server.js"]',
+        `${module}: stages[1].instructions[1]: warning: CMD is overridden by a later CMD in this stage (redundant-instruction)`,
+        "  fix: Remove this CMD",
+        "2 warnings, 1 info (2 with a fix)",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("lints configured generators with the config's rules and severities", async () => {
+    const project = writeProject({
+      "containerfile.config.ts": [
+        "export default cf.defineConfig({",
+        '  generators: [{ module: "*.ts", output: "{name}.Dockerfile" }],',
+        '  lint: { severity: { "no-sudo": "error", "workdir-absolute": "off" } },',
+        "});",
+      ].join("\n"),
+      "app.ts":
+        'export default cf.containerfile([cf.from("alpine:3.20"), cf.run("sudo apk add curl")]);',
+      "clean.ts": 'export default cf.containerfile([cf.from("alpine:3.20"), cf.workdir("app")]);',
+    });
+    const { code, stdout } = await runCli("lint", "-c", join(project, "containerfile.config.ts"));
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe(
+      [
+        `${project}/app.ts: instructions[1]: error: RUN uses sudo; switch USER instead (no-sudo)`,
+        "1 error",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("prints a summary when nothing is found", async () => {
+    const module = writeModule('export default cf.containerfile([cf.from("alpine:3.20")]);');
+    expect((await runCli("lint", module)).stdout).toBe("No problems found\n");
+  });
+});
+
+describe("containerfile-ts usage", () => {
+  it("prints usage for --help", async () => {
+    const { code, stdout } = await runCli("--help");
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toContain("Usage: containerfile-ts <command> [options]");
+  });
+
+  it("rejects missing or unknown commands and arguments", async () => {
+    expect((await runCli()).code).toBe(EXIT_USAGE);
+    expect((await runCli("build")).stderr).toContain('unknown command "build"');
+    expect((await runCli("render")).code).toBe(EXIT_USAGE);
+    expect((await runCli("render", "a.ts", "b.ts")).code).toBe(EXIT_USAGE);
+    expect((await runCli("render", "a.ts", "--bogus")).code).toBe(EXIT_USAGE);
+    expect((await runCli("generate", "a.ts")).code).toBe(EXIT_USAGE);
+    expect((await runCli("check", "-o", "Dockerfile")).code).toBe(EXIT_USAGE);
+    expect((await runCli("lint", "a.ts", "b.ts")).code).toBe(EXIT_USAGE);
+    expect((await runCli("lint", "-e", "image")).code).toBe(EXIT_USAGE);
+  });
+});
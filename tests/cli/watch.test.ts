@@ -0,0 +1,89 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { watchFiles, type WatchOptions } from "../../src/cli/watch.js";
+
+const workDir = mkdtempSync(join(tmpdir(), "containerfile-watch-"));
+afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+let fileCount = 0;
+
+function writeWatched(): string {
+  const path = join(workDir, `file-${fileCount++}.txt`);
+  writeFileSync(path, "initial\n");
+  return path;
+}
+
+/**
+ * Start watching; `ready` resolves once the watchers are in place
+ */
+function startWatching(
+  files: ReadonlyArray<string>,
+  onChange: (changed: ReadonlySet<string>) => Promise<Iterable<string>>,
+  options: Omit<WatchOptions, "signal" | "onReady"> = {},
+) {
+  const controller = new AbortController();
+  let ready = () => {};
+  const isReady = new Promise<void>((resolve) => (ready = resolve));
+  const done = watchFiles(files, onChange, {
+    ...options,
+    signal: controller.signal,
+    onReady: ready,
+  });
+  return { ready: isReady, done, stop: () => controller.abort() };
+}
+
+describe("watchFiles()", () => {
+  it("calls onChange with the changed files and watches the files it returns", async () => {
+    const first = writeWatched();
+    const second = writeWatched();
+    const onChange = vi.fn(async () => [first, second]);
+    const watcher = startWatching([first], onChange);
+    await watcher.ready;
+
+    writeFileSync(first, "edited\n");
+    await expect.poll(() => onChange.mock.calls.length, { timeout: 5_000 }).toBe(1);
+    expect(onChange).toHaveBeenLastCalledWith(new Set([first]));
+
+    writeFileSync(second, "edited\n");
+    await expect.poll(() => onChange.mock.calls.length, { timeout: 5_000 }).toBe(2);
+    expect(onChange).toHaveBeenLastCalledWith(new Set([second]));
+
+    watcher.stop();
+    await watcher.done;
+  });
+
+  it("reports onChange failures and keeps watching the same files", async () => {
+    const file = writeWatched();
+    const failure = new Error("generator exploded");
+    const onChange = vi
+      .fn<(changed: ReadonlySet<string>) => Promise<Iterable<string>>>()
+      .mockRejectedValueOnce(failure)
+      .mockResolvedValue([file]);
+    const onError = vi.fn();
+    const watcher = startWatching([file], onChange, { onError });
+    await watcher.ready;
+
+    writeFileSync(file, "first\n");
+    await expect.poll(() => onError.mock.calls.length, { timeout: 5_000 }).toBe(1);
+    expect(onError).toHaveBeenCalledWith(failure);
+
+    writeFileSync(file, "second\n");
+    await expect.poll(() => onChange.mock.calls.length, { timeout: 5_000 }).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    watcher.stop();
+    await expect(watcher.done).resolves.toBeUndefined();
+  });
+
+  it("returns at once when the signal is already aborted", async () => {
+    const onReady = vi.fn();
+    const onChange = vi.fn(async () => []);
+    await watchFiles([writeWatched()], onChange, { signal: AbortSignal.abort(), onReady });
+    expect(onReady).toHaveBeenCalledTimes(1);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateTypeScript } from "../src/codegen.js";
+import { from, run, copy, env, label, comment, containerfile } from "../src/instructions.js";
+import { stage } from "../src/stage.js";
+import { checkDirective } from "../src/directives.js";
+import { parse } from "../src/parse.js";
+import { render } from "../src/render.js";
+import type { Containerfile } from "../src/types.js";
+
+function build(results: Parameters<typeof containerfile>[0]): Containerfile {
+  return containerfile(results)._unsafeUnwrap();
+}
+
+describe("generateTypeScript()", () => {
+  it("emits an import, the containerfile call, an error check and an export", () => {
+    const source = generateTypeScript(build([from("node:20-alpine"), run("npm ci")]));
+    expect(source).toBe(
+      [
+        'import { containerfile, from, run } from "@bojanrajkovic/containerfile-ts";',
+        "",
+        'const result = containerfile([from("node:20-alpine"), run("npm ci")]);',
+        "",
+        "if (result.isErr()) {",
+        "  throw new Error(`Containerfile generation failed: ${JSON.stringify(result.error)}`);",
+        "}",
+        "",
+        "export const fixture = result.value;",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("uses the import path and export name options", () => {
+    const source = generateTypeScript(build([from("alpine")]), {
+      importPath: "../../../src/index.js",
+      exportName: "dockerfile",
+    });
+    expect(source).toContain('from "../../../src/index.js";');
+    expect(source).toContain("export const dockerfile = result.value;");
+  });
+
+  it("breaks long calls across lines, keeping a trailing options object on the call line", () => {
+    const source = generateTypeScript(
+      build([
+        from("node:20-alpine"),
+        copy(["package.json", "package-lock.json", "tsconfig.json"], "/app/", {
+          chown: "node:node",
+          chmod: "644",
+        }),
+      ]),
+    );
+    expect(source).toContain(
+      [
+        '  copy(["package.json", "package-lock.json", "tsconfig.json"], "/app/", {',
+        '    chown: "node:node",',
+        '    chmod: "644",',
+        "  }),",
+      ].join("\n"),
+    );
+  });
+
+  it("writes stages, directives, records and comments", () => {
+    const source = generateTypeScript(
+      containerfile(
+        [
+          stage("build", [from("node:20", { as: "build" }), run("npm run build")]),
+          stage("runtime", [
+            comment("Runtime image"),
+            from("node:20-alpine"),
+            label({ "org.opencontainers.image.title": "app" }),
+            env({ A: "1", B: 'say "hi"' }, { comment: "Defaults" }),
+          ]),
+        ],
+        { directives: [checkDirective({ skip: "all", error: false })] },
+      )._unsafeUnwrap(),
+    );
+    expect(source).toContain(
+      'stage("build", [from("node:20", { as: "build" }), run("npm run build")])',
+    );
+    expect(source).toContain('comment("Runtime image")');
+    expect(source).toContain('label("org.opencontainers.image.title", "app")');
+    expect(source).toContain(`env({ A: "1", B: 'say "hi"' }, { comment: "Defaults" })`);
+    expect(source).toContain('directives: [checkDirective({ skip: "all", error: false })]');
+  });
+
+  it("omits heredoc delimiters that render() would choose", () => {
+    const source = generateTypeScript(
+      build([
+        from("alpine"),
+        run({ body: "echo hi", delimiter: "EOF" }),
+        run({ body: "cat <<EOF\nEOF", delimiter: "EOF_1" }),
+        run({ body: "print(1)", interpreter: "/usr/bin/python3", delimiter: "PY" }),
+      ]),
+    );
+    expect(source).toContain('run({ body: "echo hi" })');
+    expect(source).toContain('run({ body: "cat <<EOF\\nEOF" })');
+    expect(source).toContain('delimiter: "PY"');
+  });
+
+  it("writes pairs as an array when a record would merge or reorder them", () => {
+    const source = generateTypeScript(
+      build([
+        from("alpine"),
+        env([
+          { key: "PATH", value: "/opt/bin" },
+          { key: "PATH", value: "/app/bin" },
+        ]),
+        label(
+          [
+            { key: "b", value: "1" },
+            { key: "10", value: "2" },
+          ],
+          { comment: "Build info" },
+        ),
+      ]),
+    );
+    expect(source).toContain(
+      'env([\n    { key: "PATH", value: "/opt/bin" },\n    { key: "PATH", value: "/app/bin" },\n  ])',
+    );
+    expect(source).toContain(
+      'label(\n    [\n      { key: "b", value: "1" },\n      { key: "10", value: "2" },\n    ],\n    { comment: "Build info" },\n  )',
+    );
+  });
+
+  it("writes pairs with a __proto__ key as an array", () => {
+    const parsed = parse("FROM alpine\nLABEL __proto__=x b=2\n")._unsafeUnwrap();
+    const source = generateTypeScript(parsed);
+    expect(source).toContain(
+      'label([\n    { key: "__proto__", value: "x" },\n    { key: "b", value: "2" },\n  ])',
+    );
+  });
+
+  it("keeps inline file delimiters copy() needs as file names", () => {
+    const source = generateTypeScript(
+      build([
+        from("alpine"),
+        copy({ contents: "hello", delimiter: "EOF" }, "/etc/"),
+        copy({ contents: "welcome", delimiter: "EOF" }, "/etc/motd"),
+      ]),
+    );
+    expect(source).toContain('copy({ contents: "hello", delimiter: "EOF" }, "/etc/")');
+    expect(source).toContain('copy({ contents: "welcome" }, "/etc/motd")');
+  });
+
+  it("writes quoted: false only for unquoted inline files", () => {
+    const source = generateTypeScript(
+      build([
+        from("alpine"),
+        copy({ contents: "a" }, "/a"),
+        copy({ contents: "$HOME", quoted: false }, "/b"),
+      ]),
+    );
+    expect(source).toContain('copy({ contents: "a" }, "/a")');
+    expect(source).toContain('copy({ contents: "$HOME", quoted: false }, "/b")');
+  });
+
+  describe("fixtures", () => {
+    const fixturesDir = join(import.meta.dirname, "fixtures");
+    const indexPath = join(import.meta.dirname, "..", "src", "index.js");
+    const outputDir = mkdtempSync(join(tmpdir(), "containerfile-codegen-"));
+    afterAll(() => rmSync(outputDir, { recursive: true, force: true }));
+
+    const fixtures = readdirSync(fixturesDir, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory())
+      .map((dirent) => dirent.name);
+
+    for (const fixtureName of fixtures) {
+      it(`generates a module that reproduces ${fixtureName}`, async () => {
+        const fixtureDir = join(fixturesDir, fixtureName);
+        const expected = readFileSync(join(fixtureDir, "expected.Dockerfile"), "utf-8").trim();
+        const { renderOptions } = await import(join(fixtureDir, "generator.ts"));
+
+        const parsed = parse(expected);
+        expect(parsed.isOk()).toBe(true);
+        if (parsed.isErr()) {
+          return;
+        }
+
+        const modulePath = join(outputDir, `${fixtureName}.ts`);
+        writeFileSync(modulePath, generateTypeScript(parsed.value, { importPath: indexPath }));
+        const { fixture } = await import(modulePath);
+
+        expect(render(fixture, renderOptions)).toBe(expected);
+      });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import { defineConfig, validateConfig, withBuildArgs } from "../src/config.js";
+import { from, arg, run, containerfile } from "../src/instructions.js";
+import { stage } from "../src/stage.js";
+import { render } from "../src/render.js";
+
+describe("defineConfig()", () => {
+  it("returns the config unchanged", () => {
+    const config = { generators: [{ module: "app.ts", output: "Dockerfile" }] };
+    expect(defineConfig(config)).toBe(config);
+  });
+});
+
+describe("validateConfig()", () => {
+  it("accepts generator entries with optional export and buildArgs", () => {
+    const result = validateConfig({
+      generators: [
+        { module: "app.ts", output: "Dockerfile" },
+        { module: "services/*/containerfile.ts", output: "{dir}/Dockerfile", export: "image" },
+        { module: "worker.ts", output: "worker.Dockerfile", buildArgs: { NODE_VERSION: "22" } },
+      ],
+    });
+    expect(result._unsafeUnwrap()).toEqual({
+      generators: [
+        { module: "app.ts", output: "Dockerfile" },
+        { module: "services/*/containerfile.ts", output: "{dir}/Dockerfile", export: "image" },
+        { module: "worker.ts", output: "worker.Dockerfile", buildArgs: { NODE_VERSION: "22" } },
+      ],
+    });
+  });
+
+  it("requires a non-empty generators array", () => {
+    expect(validateConfig(undefined)._unsafeUnwrapErr()[0]?.message).toBe(
+      "config must be an object",
+    );
+    expect(validateConfig({ generators: [] })._unsafeUnwrapErr()[0]?.field).toBe("generators");
+  });
+
+  it("collects entry errors with field paths", () => {
+    const result = validateConfig({
+      generators: [
+        { module: "app.ts", output: "" },
+        { module: 42, output: "Dockerfile", export: "", buildArgs: { "BAD NAME": "1", OK: "" } },
+        "app.ts",
+      ],
+    });
+    expect(result._unsafeUnwrapErr().map((e) => e.field)).toEqual([
+      "generators[0].output",
+      "generators[1].module",
+      "generators[1].export",
+      "generators[1].buildArgs.BAD NAME.name",
+      "generators[1].buildArgs.OK.defaultValue",
+      "generators[2]",
+    ]);
+  });
+
+  it("validates lint options", () => {
+    const severity = { "no-sudo": "error" };
+    expect(
+      validateConfig({
+        generators: [{ module: "a.ts", output: "D" }],
+        lint: { severity },
+      })._unsafeUnwrap().lint,
+    ).toEqual({ severity });
+    const result = validateConfig({
+      generators: [{ module: "a.ts", output: "D" }],
+      lint: { rules: "recommended" },
+    });
+    expect(result._unsafeUnwrapErr().map((e) => e.field)).toEqual(["lint.rules"]);
+  });
+});
+
+describe("withBuildArgs()", () => {
+  it("replaces ARG defaults in every stage", () => {
+    const cf = containerfile([
+      stage("build", [arg("NODE_VERSION", { defaultValue: "20" }), from("node:${NODE_VERSION}")]),
+      stage("runtime", [
+        from("alpine"),
+        arg("NODE_VERSION", { comment: "Re-declared" }),
+        run("true"),
+      ]),
+    ])._unsafeUnwrap();
+    const updated = withBuildArgs(cf, { NODE_VERSION: "22" });
+    expect(render(updated._unsafeUnwrap())).toBe(
+      [
+        "ARG NODE_VERSION=22",
+        "FROM node:${NODE_VERSION}",
+        "",
+        "FROM alpine",
+        "# Re-declared",
+        "ARG NODE_VERSION=22",
+        "RUN true",
+      ].join("\n"),
+    );
+  });
+
+  it("rejects build args no ARG declares", () => {
+    const cf = containerfile([from("alpine"), arg("A")])._unsafeUnwrap();
+    expect(withBuildArgs(cf, { A: "1", B: "2" })._unsafeUnwrapErr()).toEqual([
+      { field: "buildArgs.B", message: "no ARG B is declared", value: "2" },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import {
+  syntaxDirective,
+  escapeDirective,
+  checkDirective,
+  validateDirectives,
+} from "../src/directives.js";
+
+describe("syntaxDirective()", () => {
+  it("returns Ok for a frontend image", () => {
+    const result = syntaxDirective("docker/dockerfile:1.7");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({ type: "syntax", image: "docker/dockerfile:1.7" });
+    }
+  });
+
+  it("returns Err for an empty image", () => {
+    const result = syntaxDirective("");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("image");
+    }
+  });
+});
+
+describe("escapeDirective()", () => {
+  it("accepts backslash and backtick", () => {
+    expect(escapeDirective("\\").isOk()).toBe(true);
+    expect(escapeDirective("`").isOk()).toBe(true);
+  });
+
+  it("returns Err for any other character", () => {
+    const result = escapeDirective("^" as unknown as "`");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("char");
+    }
+  });
+});
+
+describe("checkDirective()", () => {
+  it("returns Ok with skipped rules and error flag", () => {
+    const result = checkDirective({
+      skip: ["JSONArgsRecommended", "StageNameCasing"],
+      error: true,
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        type: "check",
+        skip: ["JSONArgsRecommended", "StageNameCasing"],
+        error: true,
+      });
+    }
+  });
+
+  it("accepts skip all", () => {
+    const result = checkDirective({ skip: "all" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.skip).toEqual(["all"]);
+      expect(result.value.error).toBeNull();
+    }
+  });
+
+  it("returns Err for invalid rule names", () => {
+    const result = checkDirective({ skip: ["Valid", "not valid"] });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("skip[1]");
+    }
+  });
+
+  it("returns Err when neither skip nor error is set", () => {
+    const result = checkDirective({});
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].message).toContain("skip or error");
+    }
+  });
+});
+
+describe("validateDirectives()", () => {
+  it("returns an empty array when no directives are given", () => {
+    expect(validateDirectives(undefined)._unsafeUnwrap()).toEqual([]);
+  });
+
+  it("prefixes errors with the directive index", () => {
+    const result = validateDirectives([
+      syntaxDirective("docker/dockerfile:1"),
+      syntaxDirective(""),
+    ]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("directives[1].image");
+    }
+  });
+
+  it("returns Err for duplicate directives", () => {
+    const result = validateDirectives([escapeDirective("`"), escapeDirective("\\")]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("directives[1]");
+      expect(result.error[0].message).toContain("duplicate escape");
+    }
+  });
+});
@@ -0,0 +1,95 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import type { Result } from "neverthrow";
+import { equals } from "../src/equals.js";
+import {
+  from,
+  run,
+  copy,
+  env,
+  expose,
+  comment,
+  blank,
+  containerfile,
+} from "../src/instructions.js";
+import { stage } from "../src/stage.js";
+import { syntaxDirective } from "../src/directives.js";
+import type { ValidationError } from "../src/errors.js";
+import type { Containerfile } from "../src/types.js";
+
+function unwrap(result: Result<Containerfile, Array<ValidationError>>): Containerfile {
+  if (result.isErr()) {
+    throw new Error(JSON.stringify(result.error));
+  }
+  return result.value;
+}
+
+describe("equals()", () => {
+  it("returns true for identical containerfiles", () => {
+    const build = () => unwrap(containerfile([from("alpine"), run("apk add curl")]));
+    expect(equals(build(), build())).toBe(true);
+  });
+
+  it("returns false when an instruction field differs", () => {
+    const a = unwrap(containerfile([from("alpine"), env("A", "1")]));
+    const b = unwrap(containerfile([from("alpine"), env("A", "2")]));
+    expect(equals(a, b)).toBe(false);
+  });
+
+  it("returns false when instructions are reordered or missing", () => {
+    const a = unwrap(containerfile([from("alpine"), run("a"), run("b")]));
+    const b = unwrap(containerfile([from("alpine"), run("b"), run("a")]));
+    const c = unwrap(containerfile([from("alpine"), run("a")]));
+    expect(equals(a, b)).toBe(false);
+    expect(equals(a, c)).toBe(false);
+  });
+
+  it("returns false when directives differ", () => {
+    const a = unwrap(containerfile([from("alpine")]));
+    const b = unwrap(
+      containerfile([from("alpine")], { directives: [syntaxDirective("docker/dockerfile:1")] }),
+    );
+    expect(equals(a, b)).toBe(false);
+  });
+
+  it("ignores stage names and single- versus multi-stage structure", () => {
+    const a = unwrap(containerfile([stage("one", [from("alpine", { as: "base" }), run("true")])]));
+    const b = unwrap(containerfile([from("alpine", { as: "base" }), run("true")]));
+    expect(equals(a, b)).toBe(true);
+  });
+
+  it("ignores blank lines and where comments are attached", () => {
+    const a = unwrap(
+      containerfile([comment("base"), blank(), from("alpine"), blank(), run("true")]),
+    );
+    const b = unwrap(containerfile([from("alpine", { comment: "base" }), run("true")]));
+    expect(equals(a, b)).toBe(true);
+  });
+
+  it("ignores details render() does not preserve", () => {
+    const a = unwrap(
+      containerfile([
+        from("alpine"),
+        expose(80, { protocol: "tcp" }),
+        copy("a", "/b", { form: "shell" }),
+        run({ body: "echo hi" }),
+      ]),
+    );
+    const b = unwrap(
+      containerfile([
+        from("alpine"),
+        expose(80),
+        copy("a", "/b"),
+        run({ body: "echo hi", delimiter: "EOF" }),
+      ]),
+    );
+    expect(equals(a, b)).toBe(true);
+  });
+
+  it("distinguishes a forced JSON form", () => {
+    const a = unwrap(containerfile([from("alpine"), copy("a", "/b", { form: "json" })]));
+    const b = unwrap(containerfile([from("alpine"), copy("a", "/b")]));
+    expect(equals(a, b)).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+// pattern: Functional Core
+
+import {
+  containerfile,
+  from,
+  workdir,
+  copy,
+  run,
+  env,
+  cmd,
+  comment,
+  blank,
+} from "../../../src/index.js";
+
+/**
+ * Annotated fixture that exercises:
+ * - Standalone comment nodes, including multi-line text with an empty line
+ * - The comment option on factories with and without other options
+ * - Blank line nodes for spacing
+ */
+const result = containerfile([
+  comment("Example service image\n\nBuilt by CI on every merge to main."),
+  from("node:20-alpine", { comment: "Keep in sync with .nvmrc" }),
+  workdir("/app"),
+  blank(),
+  comment("Dependencies first for better layer caching"),
+  copy(["package.json", "package-lock.json"], "./"),
+  run("npm ci --omit=dev", { comment: "Production dependencies only" }),
+  blank(),
+  copy(".", "."),
+  env("NODE_ENV", "production", { comment: "Enables framework optimisations" }),
+  cmd(["node", "server.js"]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,51 @@
+// pattern: Functional Core
+
+import { containerfile, stage, from, workdir, copy, run, cmd } from "../../../src/index.js";
+
+/**
+ * BuildKit mounts fixture that exercises:
+ * - RUN --mount=type=bind from the build context
+ * - RUN --mount=type=cache with id, sharing, uid and gid
+ * - RUN --mount=type=secret with target, required and mode
+ * - RUN --mount=type=ssh with defaults
+ * - RUN --mount=type=tmpfs with size
+ * - RUN --mount=type=bind from another stage (read-write)
+ * - Multiple mounts on a single RUN rendered in order
+ * - RUN --network and --security flags after mounts
+ */
+const result = containerfile([
+  stage("builder", [
+    from("node:20-alpine", { as: "builder" }),
+    workdir("/app"),
+    run("npm ci", {
+      mounts: [
+        { type: "bind", target: "package.json", source: "package.json" },
+        { type: "cache", target: "/root/.npm", id: "npm", sharing: "locked", uid: 1000, gid: 1000 },
+        { type: "secret", id: "npmrc", target: "/root/.npmrc", required: true, mode: "0400" },
+      ],
+    }),
+    run("git clone git@github.com:example/private.git vendor/private", {
+      mounts: [{ type: "ssh" }],
+    }),
+    copy(".", "."),
+    run(["npm", "run", "build"], {
+      mounts: [{ type: "tmpfs", target: "/tmp", size: 67108864 }],
+      network: "none",
+    }),
+    run("npm test", { network: "host", security: "insecure" }),
+  ]),
+  stage("runtime", [
+    from("node:20-alpine"),
+    workdir("/app"),
+    run("cp -r /src/dist ./dist", {
+      mounts: [{ type: "bind", target: "/src", from: "builder", source: "/app", readwrite: true }],
+    }),
+    cmd(["node", "dist/index.js"]),
+  ]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -13,18 +13,25 @@ import {
   expose,
   entrypoint,
   cmd,
+  user,
+  healthcheck,
+  stopSignal,
 } from "../../../src/index.js";
 
 /**
  * Comprehensive fixture that exercises all instruction types and options:
  * - FROM with --platform and AS alias
  * - ARG with and without defaultValue
- * - LABEL instruction
- * - ENV instruction
+ * - LABEL instruction, quoted and escaped only when needed
+ * - LABEL and ENV with multiple pairs rendered as one multi-line instruction
+ * - ENV instruction, including a quoted value that keeps ${VAR} substitution
  * - ADD with chown and chmod
  * - COPY with --from, --chown, --chmod, and array sources
  * - RUN with exec form (array)
  * - EXPOSE with port range and UDP protocol
+ * - USER with group
+ * - HEALTHCHECK with all timing options and exec form
+ * - STOPSIGNAL for graceful shutdown
  * - ENTRYPOINT instruction
  * - CMD instruction
  */
@@ -41,10 +48,17 @@ const result = containerfile([
   // LABEL for metadata
   label("maintainer", "team@example.com"),
   label("version", "1.0.0"),
+  label("description", 'Example "comprehensive" image'),
+  label({
+    "org.opencontainers.image.title": "comprehensive",
+    "org.opencontainers.image.licenses": "MIT",
+  }),
 
   // ENV for runtime configuration
   env("NODE_ENV", "${APP_ENV}"),
   env("PORT", "8080"),
+  env("GREETING", "hello ${APP_ENV} world"),
+  env({ LOG_LEVEL: "info", LOG_FORMAT: "json" }),
 
   // WORKDIR
   workdir("/app"),
@@ -73,6 +87,21 @@ const result = containerfile([
   // EXPOSE with single port (TCP is default, omitted in output)
   expose(8080),
 
+  // USER with group (drops root for runtime)
+  user("node", { group: "node" }),
+
+  // HEALTHCHECK with all options
+  healthcheck(["node", "healthcheck.js"], {
+    interval: "30s",
+    timeout: "3s",
+    startPeriod: "1m30s",
+    startInterval: "500ms",
+    retries: 3,
+  }),
+
+  // STOPSIGNAL for graceful shutdown
+  stopSignal("SIGINT"),
+
   // ENTRYPOINT instruction
   entrypoint(["node", "--experimental-specifier-resolution=node"]),
 
@@ -0,0 +1,28 @@
+// pattern: Functional Core
+
+import { containerfile, stage, from, shell, run, cmd } from "../../../src/index.js";
+
+/**
+ * Custom shell fixture that exercises:
+ * - SHELL override with bash pipefail options
+ * - Shell-form RUN under the overridden shell
+ * - SHELL resetting to the default at the next stage's FROM
+ */
+const result = containerfile([
+  stage("fetch", [
+    from("debian:bookworm-slim", { as: "fetch" }),
+    shell(["/bin/bash", "-o", "pipefail", "-c"]),
+    run("curl -fsSL https://example.com/tool.tar.gz | tar -xz -C /opt"),
+  ]),
+  stage("runtime", [
+    from("debian:bookworm-slim"),
+    run("mkdir -p /opt/tool"),
+    cmd("/opt/tool/bin/tool --serve"),
+  ]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
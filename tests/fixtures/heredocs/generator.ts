@@ -0,0 +1,47 @@
+// pattern: Functional Core
+
+import { containerfile, from, arg, run, copy, cmd } from "../../../src/index.js";
+
+/**
+ * Heredoc fixture that exercises:
+ * - RUN heredoc executed by the default shell
+ * - RUN heredoc with an interpreter line and custom delimiter
+ * - RUN heredoc whose body contains "EOF", forcing an alternative delimiter
+ * - RUN heredoc with a quoted delimiter, leaving $VAR to the shell
+ * - COPY with a single inline file to a file path
+ * - COPY with several named inline files into a directory
+ * - COPY with an unquoted delimiter, expanding a build argument
+ */
+const result = containerfile([
+  from("python:3.12-slim"),
+  run({
+    body: "apt-get update\napt-get install -y --no-install-recommends curl\nrm -rf /var/lib/apt/lists/*",
+  }),
+  run(
+    {
+      body: 'import sys\nprint(f"python {sys.version}")',
+      interpreter: "/usr/bin/env python3",
+      delimiter: "PYTHON",
+    },
+    { network: "none" },
+  ),
+  run({ body: "cat > /etc/motd <<'EOF'\nwelcome\nEOF\n" }),
+  run({ body: 'echo "built by $(whoami) in $PWD"', quoted: true }),
+  copy({ contents: "[app]\nport = 8080\n" }, "/etc/app/config.ini"),
+  copy(
+    [
+      { contents: "User-agent: *\nDisallow:", delimiter: "robots.txt" },
+      { contents: "/* TEAM */", delimiter: "humans.txt" },
+    ],
+    "/srv/www/",
+  ),
+  arg("APP_VERSION", { defaultValue: "1.0.0" }),
+  copy({ contents: "version=${APP_VERSION}", quoted: false }, "/etc/app/version"),
+  cmd(["python", "-m", "http.server", "--directory", "/srv/www"]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,29 @@
+// pattern: Functional Core
+
+import { containerfile, from, copy, cmd } from "../../../src/index.js";
+
+/**
+ * Inline file fixture that exercises:
+ * - COPY with a single inline file into a directory, named by its delimiter
+ * - COPY with several inline files whose delimiters render() would also choose
+ * - COPY with a single inline file to a file path, with a chosen delimiter
+ */
+const result = containerfile([
+  from("alpine:3.20"),
+  copy({ contents: "hello", delimiter: "EOF" }, "/etc/"),
+  copy(
+    [
+      { contents: "first", delimiter: "EOF" },
+      { contents: "second", delimiter: "EOF_1" },
+    ],
+    "/srv/",
+  ),
+  copy({ contents: "welcome" }, "/etc/motd"),
+  cmd(["cat", "/etc/EOF", "/srv/EOF", "/srv/EOF_1", "/etc/motd"]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
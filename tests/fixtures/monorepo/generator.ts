@@ -0,0 +1,36 @@
+// pattern: Functional Core
+
+import { containerfile, stage, from, workdir, copy, run, cmd } from "../../../src/index.js";
+
+/**
+ * Monorepo fixture that exercises:
+ * - COPY --link for layer reuse
+ * - COPY --parents to keep the package directory layout
+ * - COPY --exclude repeated once per pattern
+ * - COPY --link combined with --from
+ * - COPY in JSON form for a path containing whitespace
+ */
+const result = containerfile([
+  stage("builder", [
+    from("node:20-alpine", { as: "builder" }),
+    workdir("/repo"),
+    copy(["package.json", "pnpm-lock.yaml", "pnpm-workspace.yaml"], "./", { link: true }),
+    copy("packages/*/package.json", "./", { parents: true }),
+    run("pnpm install --frozen-lockfile"),
+    copy(".", ".", { exclude: ["**/*.test.ts", "**/fixtures", "docs"] }),
+    run("pnpm --filter api build"),
+  ]),
+  stage("runtime", [
+    from("node:20-alpine"),
+    workdir("/app"),
+    copy("/repo/packages/api/dist/", "./", { from: "builder", chown: "node:node", link: true }),
+    copy("/repo/docs/Getting Started.md", "./docs/", { from: "builder" }),
+    cmd(["node", "index.js"]),
+  ]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,23 @@
+// pattern: Functional Core
+
+import { containerfile, from, workdir, onbuild, copy, run, cmd } from "../../../src/index.js";
+
+/**
+ * Internal base image fixture that exercises:
+ * - ONBUILD wrapping COPY and shell-form RUN
+ * - ONBUILD wrapping an instruction with options
+ */
+const result = containerfile([
+  from("node:20-alpine"),
+  workdir("/app"),
+  onbuild(copy(["package.json", "package-lock.json"], "/app/", { chown: "node:node" })),
+  onbuild(run("npm ci --omit=dev")),
+  onbuild(copy(".", "/app/")),
+  cmd(["node", "index.js"]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,27 @@
+// pattern: Functional Core
+
+import { containerfile, from, workdir, add, run } from "../../../src/index.js";
+
+/**
+ * Remote sources fixture that exercises:
+ * - ADD --checksum for a verified HTTP download
+ * - ADD from a Git repository with ref and subdirectory
+ * - ADD --keep-git-dir combined with --link
+ */
+const result = containerfile([
+  from("alpine:3.19"),
+  add("https://github.com/tianon/gosu/releases/download/1.17/gosu-amd64", "/usr/local/bin/gosu", {
+    checksum: "sha256:bbc4136d03ab138b1ad66fa4fc051bafc6cc7ffae632b069a53657279a450de3",
+    chmod: "755",
+  }),
+  add("https://github.com/moby/buildkit.git#v0.12.0:docs", "/docs/"),
+  add("git@github.com:example/app.git#main", "/src/", { keepGitDir: true, link: true }),
+  workdir("/src"),
+  run("git describe --tags"),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,38 @@
+// pattern: Functional Core
+
+import {
+  containerfile,
+  from,
+  env,
+  volume,
+  user,
+  expose,
+  healthcheck,
+  healthcheckNone,
+  cmd,
+} from "../../../src/index.js";
+
+/**
+ * Stateful service fixture that exercises:
+ * - VOLUME with space-separated paths
+ * - VOLUME rendered in JSON form when a path contains whitespace
+ * - USER with numeric UID and GID
+ * - HEALTHCHECK NONE followed by a shell-form HEALTHCHECK
+ */
+const result = containerfile([
+  from("postgres:16-alpine"),
+  env("PGDATA", "/var/lib/postgresql/data"),
+  volume(["/var/lib/postgresql/data", "/var/log/postgresql"]),
+  volume("/var/lib/postgresql/backup files"),
+  user(70, { group: 70 }),
+  expose(5432),
+  healthcheckNone(),
+  healthcheck("pg_isready -U postgres || exit 1", { interval: "10s" }),
+  cmd(["postgres"]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
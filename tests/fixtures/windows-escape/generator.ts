@@ -0,0 +1,46 @@
+// pattern: Functional Core
+
+import {
+  containerfile,
+  from,
+  shell,
+  env,
+  workdir,
+  run,
+  copy,
+  cmd,
+  syntaxDirective,
+  escapeDirective,
+  checkDirective,
+} from "../../../src/index.js";
+
+/**
+ * Windows fixture that exercises:
+ * - syntax, escape and check parser directives rendered at the top
+ * - Backtick escape character for multi-pair ENV continuations
+ * - Windows paths that need no quoting once backslash is not the escape character
+ */
+const result = containerfile(
+  [
+    from("mcr.microsoft.com/windows/servercore:ltsc2022"),
+    shell(["powershell", "-Command"]),
+    env({ APP_HOME: "C:\\app", LOG_DIR: "C:\\app\\logs" }),
+    workdir("C:\\app"),
+    copy("app/", "C:\\app\\"),
+    run("New-Item -ItemType Directory -Path $env:LOG_DIR"),
+    cmd(["C:\\app\\server.exe"]),
+  ],
+  {
+    directives: [
+      syntaxDirective("docker/dockerfile:1.7"),
+      escapeDirective("`"),
+      checkDirective({ skip: ["JSONArgsRecommended"] }),
+    ],
+  },
+);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
@@ -0,0 +1,43 @@
+// pattern: Functional Core
+
+import { containerfile, stage, from, arg, env, run, copy, cmd } from "../../../src/index.js";
+import type { RenderOptions } from "../../../src/index.js";
+
+/**
+ * Render options fixture that exercises:
+ * - Wrapping long shell-form RUN commands at && boundaries
+ * - Leaving && inside quotes untouched
+ * - Custom continuation indentation, also used by multi-pair ENV
+ * - Blank lines between instruction groups and between stages
+ */
+const result = containerfile([
+  stage("build", [
+    from("debian:bookworm-slim", { as: "build" }),
+    arg("VERSION"),
+    arg("TARGET"),
+    env({ DEBIAN_FRONTEND: "noninteractive", LANG: "C.UTF-8" }),
+    run(
+      "apt-get update && apt-get install -y --no-install-recommends build-essential curl && rm -rf /var/lib/apt/lists/*",
+    ),
+    run("echo 'configure && make' > /build.log && make -j4 all"),
+    run("make install"),
+  ]),
+  stage("runtime", [
+    from("debian:bookworm-slim"),
+    copy("/usr/local/bin/app", "/usr/local/bin/app", { from: "build" }),
+    cmd(["app"]),
+  ]),
+]);
+
+if (result.isErr()) {
+  throw new Error(`Fixture generation failed: ${JSON.stringify(result.error)}`);
+}
+
+export const fixture = result.value;
+
+export const renderOptions: RenderOptions = {
+  lineWidth: 40,
+  indent: 2,
+  blankLinesBetweenStages: 2,
+  blankLinesBetweenGroups: 1,
+};
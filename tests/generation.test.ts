@@ -22,14 +22,15 @@ describe("Dockerfile generation", () => {
 
       // Load the generator
       const generatorPath = join(fixtureDir, "generator.ts");
-      const { fixture } = await import(generatorPath);
+      // Generators may also export renderOptions to exercise non-default formatting
+      const { fixture, renderOptions } = await import(generatorPath);
 
       // Load the expected output
       const expectedPath = join(fixtureDir, "expected.Dockerfile");
       const expected = readFileSync(expectedPath, "utf-8").trim();
 
       // Generate and compare
-      const generated = render(fixture);
+      const generated = render(fixture, renderOptions);
 
       expect(generated).toBe(expected);
     });
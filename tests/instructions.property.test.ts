@@ -2,7 +2,7 @@
 
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
-import { from, workdir, env, expose, containerfile } from "../src/instructions.js";
+import { from, workdir, env, label, arg, expose, containerfile } from "../src/instructions.js";
 import { render } from "../src/render.js";
 
 // Generator for valid Docker image names
@@ -16,8 +16,64 @@ const validPath = fc.string({ minLength: 1, maxLength: 50 }).filter((s) => s.tri
 // Generator for valid port numbers
 const validPort = fc.integer({ min: 0, max: 65535 });
 
-// Generator for non-empty strings
-const nonEmptyString = fc.string({ minLength: 1, maxLength: 50 });
+// Generator for ENV/LABEL keys
+const validKey = fc.stringMatching(/^[A-Za-z_][\w.-]{0,30}$/);
+
+// Generator for ENV/LABEL values, biased towards characters that need quoting
+const quotableValue = fc.oneof(
+  fc.string(),
+  fc.string({
+    unit: fc.constantFrom("a", "Z", " ", "\t", '"', "'", "\\", "$", "{", "}", "=", "#"),
+  }),
+);
+
+/**
+ * Reads a single Dockerfile word back into its value, following BuildKit's lexer:
+ * unquoted backslashes escape the next character, single quotes are literal, and
+ * inside double quotes only `"`, `$` and `\` can be escaped. Variables are not
+ * expanded. Throws on unquoted whitespace or an unterminated quote.
+ */
+function unquoteWord(word: string): string {
+  let value = "";
+  let i = 0;
+  while (i < word.length) {
+    const ch = word.charAt(i);
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < word.length && word.charAt(j) !== ch) {
+        if (ch === '"' && word.charAt(j) === "\\" && '"$\\'.includes(word.charAt(j + 1))) {
+          j += 1;
+        }
+        value += word.charAt(j);
+        j += 1;
+      }
+      if (j >= word.length) {
+        throw new Error(`unterminated quote in ${word}`);
+      }
+      i = j + 1;
+    } else if (ch === "\\") {
+      value += word.charAt(i + 1);
+      i += 2;
+    } else if (/\s/.test(ch)) {
+      throw new Error(`unquoted whitespace in ${word}`);
+    } else {
+      value += ch;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+/**
+ * Renders a single instruction and returns the text after `prefix`.
+ */
+function renderAfter(instruction: Parameters<typeof containerfile>[0][number], prefix: string) {
+  const cfResult = containerfile([instruction]);
+  expect(cfResult.isOk()).toBe(true);
+  const rendered = cfResult.isOk() ? render(cfResult.value) : "";
+  expect(rendered.startsWith(prefix)).toBe(true);
+  return rendered.slice(prefix.length);
+}
 
 describe("Factory function roundtrip properties", () => {
   it("from() with valid image produces renderable FROM instruction", () => {
@@ -53,13 +109,26 @@ describe("Factory function roundtrip properties", () => {
 
   it("env() with valid key produces renderable ENV instruction", () => {
     fc.assert(
-      fc.property(nonEmptyString, fc.string(), (key, value) => {
+      fc.property(validKey, fc.string(), (key, value) => {
         const result = env(key, value);
         expect(result.isOk()).toBe(true);
         if (result.isOk()) {
           expect(result.value.type).toBe("ENV");
-          expect(result.value.key).toBe(key);
-          expect(result.value.value).toBe(value);
+          expect(result.value.pairs).toEqual([{ key, value }]);
+        }
+      }),
+    );
+  });
+
+  it("env() with a record keeps every pair in order", () => {
+    fc.assert(
+      fc.property(fc.dictionary(validKey, fc.string(), { minKeys: 1 }), (pairs) => {
+        const result = env(pairs);
+        expect(result.isOk()).toBe(true);
+        if (result.isOk()) {
+          expect(result.value.pairs).toEqual(
+            Object.entries(pairs).map(([key, value]) => ({ key, value })),
+          );
         }
       }),
     );
@@ -94,6 +163,55 @@ describe("Factory function roundtrip properties", () => {
   });
 });
 
+describe("ENV, LABEL and ARG quoting properties", () => {
+  it("rendered ENV value parses back to the original", () => {
+    fc.assert(
+      fc.property(quotableValue, (value) => {
+        expect(unquoteWord(renderAfter(env("KEY", value), "ENV KEY="))).toBe(value);
+      }),
+    );
+  });
+
+  it("rendered LABEL value parses back to the original", () => {
+    fc.assert(
+      fc.property(quotableValue, (value) => {
+        expect(unquoteWord(renderAfter(label("key", value), "LABEL key="))).toBe(value);
+      }),
+    );
+  });
+
+  it("rendered ARG default parses back to the original", () => {
+    fc.assert(
+      fc.property(
+        quotableValue.filter((value) => value !== ""),
+        (value) => {
+          expect(unquoteWord(renderAfter(arg("KEY", { defaultValue: value }), "ARG KEY="))).toBe(
+            value,
+          );
+        },
+      ),
+    );
+  });
+
+  it("values are only quoted when they need to be", () => {
+    fc.assert(
+      fc.property(fc.stringMatching(/^[\w./:@${}-]+$/), (value) => {
+        expect(renderAfter(env("KEY", value), "ENV KEY=")).toBe(value);
+      }),
+    );
+  });
+
+  it("${VAR} substitutions are rendered unescaped", () => {
+    fc.assert(
+      fc.property(fc.stringMatching(/^[A-Z_]{1,10}$/), quotableValue, (name, suffix) => {
+        expect(renderAfter(env("KEY", `\${${name}}${suffix}`), "ENV KEY=")).toMatch(
+          new RegExp(`^"?\\$\\{${name}\\}`),
+        );
+      }),
+    );
+  });
+});
+
 describe("Error collection properties", () => {
   it("containerfile collects all errors from multiple invalid instructions", () => {
     fc.assert(
@@ -13,9 +13,19 @@ import {
   copy,
   add,
   expose,
+  user,
+  volume,
+  shell,
+  healthcheck,
+  healthcheckNone,
+  stopSignal,
+  onbuild,
+  comment,
+  blank,
   containerfile,
 } from "../src/instructions.js";
 import { stage } from "../src/stage.js";
+import { syntaxDirective, escapeDirective } from "../src/directives.js";
 import { Result } from "neverthrow";
 import type { Stage } from "../src/types.js";
 import type { ValidationError } from "../src/errors.js";
@@ -108,8 +118,7 @@ describe("env()", () => {
     expect(result.isOk()).toBe(true);
     if (result.isOk()) {
       expect(result.value.type).toBe("ENV");
-      expect(result.value.key).toBe("NODE_ENV");
-      expect(result.value.value).toBe("production");
+      expect(result.value.pairs).toEqual([{ key: "NODE_ENV", value: "production" }]);
     }
   });
 
@@ -135,6 +144,79 @@ describe("env()", () => {
       expect(result.error[0].message).toContain("string");
     }
   });
+
+  it("returns Err for value containing a newline", () => {
+    const result = env("KEY", "line1\nline2");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("value");
+      expect(result.error[0].message).toContain("newlines");
+    }
+  });
+
+  it("returns Err for key containing whitespace or '='", () => {
+    const result = env("MY KEY", "value");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("key");
+    }
+    expect(env("A=B", "value").isErr()).toBe(true);
+  });
+
+  it("accepts a record of pairs in insertion order", () => {
+    const result = env({ NODE_ENV: "production", PORT: "8080", EMPTY: "" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pairs).toEqual([
+        { key: "NODE_ENV", value: "production" },
+        { key: "PORT", value: "8080" },
+        { key: "EMPTY", value: "" },
+      ]);
+    }
+  });
+
+  it("reports record errors as pairs.<key>", () => {
+    const result = env({ GOOD: "ok", "BAD KEY": "value", MULTI: "a\nb" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["pairs.BAD KEY", "pairs.MULTI"]);
+    }
+  });
+
+  it("keeps an array of pairs as given, with repeated and integer-like keys", () => {
+    const pairs = [
+      { key: "PATH", value: "/opt/bin:$PATH" },
+      { key: "B", value: "1" },
+      { key: "10", value: "ten" },
+      { key: "PATH", value: "/app/bin:$PATH" },
+    ];
+    const result = env(pairs, { comment: "Paths" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pairs).toEqual(pairs);
+      expect(result.value.comment).toBe("Paths");
+    }
+  });
+
+  it("reports array errors as pairs[<index>]", () => {
+    const result = env([
+      { key: "GOOD", value: "ok" },
+      { key: "BAD KEY", value: "a\nb" },
+    ]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["pairs[1]", "pairs[1]"]);
+    }
+    expect(env([]).isErr()).toBe(true);
+  });
+
+  it("returns Err for an empty record", () => {
+    const result = env({});
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("pairs");
+    }
+  });
 });
 
 describe("label()", () => {
@@ -143,8 +225,7 @@ describe("label()", () => {
     expect(result.isOk()).toBe(true);
     if (result.isOk()) {
       expect(result.value.type).toBe("LABEL");
-      expect(result.value.key).toBe("maintainer");
-      expect(result.value.value).toBe("user@example.com");
+      expect(result.value.pairs).toEqual([{ key: "maintainer", value: "user@example.com" }]);
     }
   });
 
@@ -162,6 +243,37 @@ describe("label()", () => {
       expect(result.error[0].message).toContain("string");
     }
   });
+
+  it("returns Err for value containing a newline", () => {
+    const result = label("description", "first\r\nsecond");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("value");
+    }
+  });
+
+  it("accepts a record of pairs", () => {
+    const result = label({
+      "org.opencontainers.image.title": "api",
+      "org.opencontainers.image.version": "1.0.0",
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pairs).toHaveLength(2);
+      expect(result.value.pairs[0]).toEqual({
+        key: "org.opencontainers.image.title",
+        value: "api",
+      });
+    }
+  });
+
+  it("reports record errors as pairs.<key>", () => {
+    const result = label({ "": "empty key", "com.example.notes": 42 as unknown as string });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["pairs.", "pairs.com.example.notes"]);
+    }
+  });
 });
 
 describe("arg()", () => {
@@ -208,6 +320,14 @@ describe("arg()", () => {
       expect(result.error[0].field).toBe("defaultValue");
     }
   });
+
+  it("returns Err for a name with whitespace or '=' and a multi-line default", () => {
+    const result = arg("MY VAR=1", { defaultValue: "a\nb" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["name", "defaultValue"]);
+    }
+  });
 });
 
 describe("run()", () => {
@@ -242,6 +362,188 @@ describe("run()", () => {
     const result = run(["npm", ""]);
     expect(result.isErr()).toBe(true);
   });
+
+  it("defaults to no mounts", () => {
+    const result = run("npm ci");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.mounts).toEqual([]);
+    }
+  });
+
+  it("accepts cache mount with defaults filled in", () => {
+    const result = run("npm ci", { mounts: [{ type: "cache", target: "/root/.npm" }] });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.mounts).toEqual([
+        {
+          type: "cache",
+          target: "/root/.npm",
+          id: null,
+          sharing: null,
+          from: null,
+          source: null,
+          mode: null,
+          uid: null,
+          gid: null,
+          readonly: false,
+        },
+      ]);
+    }
+  });
+
+  it("accepts every mount type", () => {
+    const result = run("make", {
+      mounts: [
+        { type: "cache", target: "/cache", sharing: "private", readonly: true },
+        { type: "secret", env: "API_TOKEN" },
+        { type: "ssh", id: "github", required: true },
+        { type: "bind", target: "/src", from: "builder" },
+        { type: "tmpfs", target: "/tmp", size: 1024 },
+      ],
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.mounts.map((m) => m.type)).toEqual([
+        "cache",
+        "secret",
+        "ssh",
+        "bind",
+        "tmpfs",
+      ]);
+    }
+  });
+
+  it("returns Err for secret mount without id, target or env", () => {
+    const result = run("make", { mounts: [{ type: "secret" }] });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("mounts[0].id");
+    }
+  });
+
+  it("returns Err for invalid sharing mode", () => {
+    const result = run("make", {
+      mounts: [
+        {
+          type: "cache",
+          target: "/cache",
+          sharing: "exclusive" as unknown as "locked",
+        },
+      ],
+    });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("mounts[0].sharing");
+    }
+  });
+
+  it("returns Err for unknown mount type", () => {
+    const result = run("make", {
+      mounts: [{ type: "volume", target: "/data" } as unknown as { type: "tmpfs"; target: string }],
+    });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("mounts[0].type");
+    }
+  });
+
+  it("collects errors across mounts with indexed fields", () => {
+    const result = run("make", {
+      mounts: [
+        { type: "cache", target: "/ok" },
+        { type: "cache", target: "", uid: -1, mode: "rwx" },
+        { type: "bind", target: "/a,b" },
+      ],
+    });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual([
+        "mounts[1].target",
+        "mounts[1].mode",
+        "mounts[1].uid",
+        "mounts[2].target",
+      ]);
+    }
+  });
+
+  it("defaults network and security to null", () => {
+    const result = run("npm ci");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.network).toBeNull();
+      expect(result.value.security).toBeNull();
+    }
+  });
+
+  it("accepts network and security options", () => {
+    const result = run("npm test", { network: "none", security: "insecure" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.network).toBe("none");
+      expect(result.value.security).toBe("insecure");
+    }
+  });
+
+  it("returns Err for invalid network and security values", () => {
+    const result = run("npm test", {
+      network: "bridge" as unknown as "none",
+      security: "privileged" as unknown as "insecure",
+    });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["network", "security"]);
+    }
+  });
+
+  it("accepts heredoc script and normalizes trailing newline", () => {
+    const result = run({ body: "apt-get update\napt-get install -y curl\n" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.command).toEqual({
+        body: "apt-get update\napt-get install -y curl",
+        interpreter: null,
+        delimiter: null,
+        quoted: false,
+      });
+    }
+  });
+
+  it("strips #! from heredoc interpreter", () => {
+    const result = run({ body: "print(1)", interpreter: "#!/usr/bin/env python3" });
+    expect(result.isOk()).toBe(true);
+    if (
+      result.isOk() &&
+      typeof result.value.command === "object" &&
+      "body" in result.value.command
+    ) {
+      expect(result.value.command.interpreter).toBe("/usr/bin/env python3");
+    }
+  });
+
+  it("returns Err for heredoc delimiter colliding with a body line", () => {
+    const result = run({ body: "echo start\nEND\necho done", delimiter: "END" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("command.delimiter");
+    }
+  });
+
+  it("returns Err for empty heredoc body and invalid delimiter", () => {
+    const result = run({ body: "", delimiter: "not valid" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["command.body", "command.delimiter"]);
+    }
+  });
+
+  it("collects command and mount errors together", () => {
+    const result = run("", { mounts: [{ type: "tmpfs", target: "" }] });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["command", "mounts[0].target"]);
+    }
+  });
 });
 
 describe("cmd()", () => {
@@ -334,6 +636,105 @@ describe("copy()", () => {
     expect(result.isErr()).toBe(true);
   });
 
+  it("defaults link, parents and exclude", () => {
+    const result = copy(".", "/app/");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.link).toBe(false);
+      expect(result.value.parents).toBe(false);
+      expect(result.value.exclude).toEqual([]);
+    }
+  });
+
+  it("accepts link, parents and exclude options", () => {
+    const result = copy("packages/", "/app/", {
+      link: true,
+      parents: true,
+      exclude: ["**/*.test.ts", "**/fixtures"],
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.link).toBe(true);
+      expect(result.value.parents).toBe(true);
+      expect(result.value.exclude).toEqual(["**/*.test.ts", "**/fixtures"]);
+    }
+  });
+
+  it("returns Err for invalid exclude patterns", () => {
+    const result = copy(".", "/app/", { exclude: ["ok", "", "has space"] });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["exclude[1]"]);
+    }
+  });
+
+  it("returns Err for non-boolean link at runtime", () => {
+    const result = copy(".", "/app/", { link: "yes" as unknown as boolean });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("link");
+    }
+  });
+
+  it("accepts inline file source", () => {
+    const result = copy({ contents: "daemon off;\n" }, "/etc/nginx/conf.d/daemon.conf");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.src).toEqual([
+        { contents: "daemon off;", delimiter: null, quoted: true },
+      ]);
+    }
+  });
+
+  it("accepts mixed paths and named inline files", () => {
+    const result = copy(["index.html", { contents: "ok", delimiter: "health.txt" }], "/srv/");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.src).toEqual([
+        "index.html",
+        { contents: "ok", delimiter: "health.txt", quoted: true },
+      ]);
+    }
+  });
+
+  it("returns Err for a non-boolean inline file quoted flag", () => {
+    const result = copy({ contents: "a", quoted: "no" as unknown as boolean }, "/a");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src[0].quoted");
+    }
+  });
+
+  it("returns Err for unnamed inline file copied into a directory", () => {
+    const result = copy([{ contents: "a" }], "/srv/");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src[0].delimiter");
+    }
+  });
+
+  it("returns Err for duplicate inline file delimiters", () => {
+    const result = copy(
+      [
+        { contents: "a", delimiter: "file.txt" },
+        { contents: "b", delimiter: "file.txt" },
+      ],
+      "/srv/",
+    );
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src");
+    }
+  });
+
+  it("returns Err for inline file delimiter colliding with contents", () => {
+    const result = copy({ contents: "line\nEOF", delimiter: "EOF" }, "/etc/file");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src[0].delimiter");
+    }
+  });
+
   it("collects multiple errors", () => {
     const result = copy("", "");
     expect(result.isErr()).toBe(true);
@@ -341,6 +742,56 @@ describe("copy()", () => {
       expect(result.error.length).toBeGreaterThanOrEqual(2);
     }
   });
+
+  it("defaults form to null", () => {
+    const result = copy("a.txt", "/app/");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.form).toBeNull();
+    }
+  });
+
+  it("accepts paths with whitespace and a forced JSON form", () => {
+    const result = copy("My Docs/readme.md", "/docs/", { form: "json" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.src).toEqual(["My Docs/readme.md"]);
+      expect(result.value.form).toBe("json");
+    }
+  });
+
+  it("returns Err when shell form is forced for paths with whitespace or quotes", () => {
+    const result = copy("My Docs/readme.md", "/docs/", { form: "shell" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("form");
+    }
+    expect(copy("it's.txt", "/docs/", { form: "shell" }).isErr()).toBe(true);
+  });
+
+  it("returns Err for JSON form with inline file sources", () => {
+    const result = copy({ contents: "hello" }, "/etc/motd", { form: "json" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("form");
+    }
+  });
+
+  it("returns Err for inline file sources alongside paths that need JSON form", () => {
+    const result = copy({ contents: "hello" }, "/etc/my motd");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src");
+    }
+  });
+
+  it("returns Err for unknown form", () => {
+    const result = copy("a.txt", "/app/", { form: "exec" as unknown as "json" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("form");
+    }
+  });
 });
 
 describe("add()", () => {
@@ -349,8 +800,103 @@ describe("add()", () => {
     expect(result.isOk()).toBe(true);
     if (result.isOk()) {
       expect(result.value.type).toBe("ADD");
-      expect(result.value.src).toEqual(["https://example.com/file.tar.gz"]);
+      expect(result.value.src).toEqual([{ kind: "url", url: "https://example.com/file.tar.gz" }]);
       expect(result.value.dest).toBe("/app/");
+      expect(result.value.checksum).toBeNull();
+      expect(result.value.keepGitDir).toBe(false);
+      expect(result.value.link).toBe(false);
+    }
+  });
+
+  it("classifies local paths", () => {
+    const result = add(["a.tar.gz", "b.tar.gz"], "/app/");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.src).toEqual([
+        { kind: "local", path: "a.tar.gz" },
+        { kind: "local", path: "b.tar.gz" },
+      ]);
+    }
+  });
+
+  it("classifies Git sources and splits the ref and subdir", () => {
+    const result = add(
+      [
+        "https://github.com/moby/buildkit.git#v0.12.0:docs",
+        "git@github.com:user/repo.git",
+        "ssh://git@example.com/repo#main",
+      ],
+      "/src/",
+    );
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.src).toEqual([
+        {
+          kind: "git",
+          url: "https://github.com/moby/buildkit.git",
+          ref: "v0.12.0",
+          subdir: "docs",
+        },
+        { kind: "git", url: "git@github.com:user/repo.git", ref: null, subdir: null },
+        { kind: "git", url: "ssh://git@example.com/repo", ref: "main", subdir: null },
+      ]);
+    }
+  });
+
+  it("accepts checksum for a single URL source", () => {
+    const checksum = "sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d";
+    const result = add("https://example.com/file.tar.gz", "/app/", { checksum });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.checksum).toBe(checksum);
+    }
+  });
+
+  it("returns Err for malformed checksum", () => {
+    const result = add("https://example.com/file.tar.gz", "/app/", { checksum: "md5:abc" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("checksum");
+    }
+  });
+
+  it("returns Err for checksum on a non-URL source", () => {
+    const checksum = "sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d";
+    const local = add("file.tar.gz", "/app/", { checksum });
+    expect(local.isErr()).toBe(true);
+    if (local.isErr()) {
+      expect(local.error[0].field).toBe("checksum");
+      expect(local.error[0].message).toContain("HTTP(S) URL");
+    }
+    const git = add("https://github.com/moby/buildkit.git", "/src/", { checksum });
+    expect(git.isErr()).toBe(true);
+  });
+
+  it("accepts keepGitDir and link for Git sources", () => {
+    const result = add("https://github.com/moby/buildkit.git#v0.12.0", "/src/", {
+      keepGitDir: true,
+      link: true,
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.keepGitDir).toBe(true);
+      expect(result.value.link).toBe(true);
+    }
+  });
+
+  it("returns Err for keepGitDir without a Git source", () => {
+    const result = add("https://example.com/file.tar.gz", "/app/", { keepGitDir: true });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("keepGitDir");
+    }
+  });
+
+  it("returns Err for URL without a host", () => {
+    const result = add("https://", "/app/");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("src[0]");
     }
   });
 
@@ -366,6 +912,22 @@ describe("add()", () => {
     const result = add("", "/app/");
     expect(result.isErr()).toBe(true);
   });
+
+  it("accepts a forced form", () => {
+    const result = add("https://example.com/file.tar.gz", "/app/", { form: "json" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.form).toBe("json");
+    }
+  });
+
+  it("returns Err when shell form is forced for a destination with whitespace", () => {
+    const result = add("archive.tar.gz", "/opt/my app/", { form: "shell" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("form");
+    }
+  });
 });
 
 describe("expose()", () => {
@@ -429,6 +991,387 @@ describe("expose()", () => {
   });
 });
 
+describe("user()", () => {
+  it("returns Ok for user name", () => {
+    const result = user("node");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("USER");
+      expect(result.value.user).toBe("node");
+      expect(result.value.group).toBeNull();
+    }
+  });
+
+  it("accepts group option", () => {
+    const result = user("www-data", { group: "www-data" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.group).toBe("www-data");
+    }
+  });
+
+  it("normalizes numeric UID and GID to strings", () => {
+    const result = user(1000, { group: 1000 });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.user).toBe("1000");
+      expect(result.value.group).toBe("1000");
+    }
+  });
+
+  it("accepts variable references", () => {
+    const result = user("${APP_UID}", { group: "$APP_GID" });
+    expect(result.isOk()).toBe(true);
+  });
+
+  it("returns Err for empty user", () => {
+    const result = user("");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("user");
+    }
+  });
+
+  it("returns Err for user:group string", () => {
+    const result = user("node:node");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("user");
+    }
+  });
+
+  it("returns Err for negative UID", () => {
+    const result = user(-1);
+    expect(result.isErr()).toBe(true);
+  });
+
+  it("collects errors for user and group", () => {
+    const result = user(1.5, { group: "bad group" });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["user", "group"]);
+    }
+  });
+});
+
+describe("volume()", () => {
+  it("returns Ok for single path", () => {
+    const result = volume("/data");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("VOLUME");
+      expect(result.value.paths).toEqual(["/data"]);
+    }
+  });
+
+  it("returns Ok for multiple paths", () => {
+    const result = volume(["/data", "/logs"]);
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.paths).toEqual(["/data", "/logs"]);
+    }
+  });
+
+  it("returns Err for empty array", () => {
+    const result = volume([]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("paths");
+    }
+  });
+
+  it("returns Err for empty path in array", () => {
+    const result = volume(["/data", ""]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("paths[1]");
+    }
+  });
+});
+
+describe("shell()", () => {
+  it("returns Ok for exec-form shell", () => {
+    const result = shell(["/bin/bash", "-o", "pipefail", "-c"]);
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("SHELL");
+      expect(result.value.command).toEqual(["/bin/bash", "-o", "pipefail", "-c"]);
+    }
+  });
+
+  it("returns Err for empty array", () => {
+    const result = shell([]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("command");
+    }
+  });
+
+  it("returns Err for shell-form string at runtime", () => {
+    const result = shell("/bin/bash -c" as unknown as ReadonlyArray<string>);
+    expect(result.isErr()).toBe(true);
+  });
+});
+
+describe("healthcheck()", () => {
+  it("returns Ok for shell-form command", () => {
+    const result = healthcheck("curl -f http://localhost/ || exit 1");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("HEALTHCHECK");
+      expect(result.value.command).toBe("curl -f http://localhost/ || exit 1");
+      expect(result.value.interval).toBeNull();
+      expect(result.value.retries).toBeNull();
+    }
+  });
+
+  it("accepts exec-form command and all options", () => {
+    const result = healthcheck(["curl", "-f", "http://localhost/"], {
+      interval: "30s",
+      timeout: "3s",
+      startPeriod: "1m30s",
+      startInterval: "500ms",
+      retries: 0,
+    });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.command).toEqual(["curl", "-f", "http://localhost/"]);
+      expect(result.value.interval).toBe("30s");
+      expect(result.value.timeout).toBe("3s");
+      expect(result.value.startPeriod).toBe("1m30s");
+      expect(result.value.startInterval).toBe("500ms");
+      expect(result.value.retries).toBe(0);
+    }
+  });
+
+  it("returns Err for empty command", () => {
+    const result = healthcheck("");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("command");
+    }
+  });
+
+  it("collects errors for invalid durations and retries", () => {
+    const result = healthcheck("true", { interval: "30", timeout: "soon", retries: -1 });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["interval", "timeout", "retries"]);
+    }
+  });
+});
+
+describe("healthcheckNone()", () => {
+  it("returns Ok with null command", () => {
+    const result = healthcheckNone();
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("HEALTHCHECK");
+      expect(result.value.command).toBeNull();
+    }
+  });
+});
+
+describe("stopSignal()", () => {
+  it("returns Ok for signal name", () => {
+    const result = stopSignal("SIGINT");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("STOPSIGNAL");
+      expect(result.value.signal).toBe("SIGINT");
+    }
+  });
+
+  it("accepts names without SIG prefix", () => {
+    const result = stopSignal("TERM");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.signal).toBe("TERM");
+    }
+  });
+
+  it("normalizes signal numbers to strings", () => {
+    const result = stopSignal(9);
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.signal).toBe("9");
+    }
+  });
+
+  it("returns Err for unknown signal name", () => {
+    const result = stopSignal("SIGFOO");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("signal");
+    }
+  });
+
+  it("returns Err for out-of-range signal number", () => {
+    expect(stopSignal(0).isErr()).toBe(true);
+    expect(stopSignal(65).isErr()).toBe(true);
+  });
+});
+
+describe("onbuild()", () => {
+  it("returns Ok wrapping a valid instruction", () => {
+    const result = onbuild(copy(".", "/app"));
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.type).toBe("ONBUILD");
+      expect(result.value.instruction.type).toBe("COPY");
+    }
+  });
+
+  it("prefixes nested errors with instruction", () => {
+    const result = onbuild(copy("", "/app"));
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("instruction.src[0]");
+    }
+  });
+
+  it("returns Err when wrapping FROM", () => {
+    const result = onbuild(from("node:20"));
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("instruction");
+      expect(result.error[0].message).toContain("FROM");
+    }
+  });
+
+  it("returns Err when wrapping ONBUILD", () => {
+    const result = onbuild(onbuild(run("npm ci")));
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].message).toContain("ONBUILD");
+    }
+  });
+
+  it("returns Err when wrapping comment or blank nodes", () => {
+    expect(onbuild(comment("note")).isErr()).toBe(true);
+    expect(onbuild(blank()).isErr()).toBe(true);
+  });
+
+  it("returns Err when the wrapped instruction has a comment", () => {
+    const result = onbuild(run("npm ci", { comment: "install" }));
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("instruction.comment");
+    }
+  });
+
+  it("accepts its own comment", () => {
+    const result = onbuild(run("npm ci"), { comment: "install" });
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.comment).toBe("install");
+      expect(result.value.instruction).toMatchObject({ comment: null });
+    }
+  });
+});
+
+describe("comment()", () => {
+  it("returns Ok for single-line text", () => {
+    const result = comment("Install dependencies");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({ type: "COMMENT", text: "Install dependencies" });
+    }
+  });
+
+  it("keeps multi-line text for rendering as several lines", () => {
+    const result = comment("first\nsecond");
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.text).toBe("first\nsecond");
+    }
+  });
+
+  it("returns Err for non-string text at runtime", () => {
+    const result = comment(42 as unknown as string);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("text");
+    }
+  });
+});
+
+describe("blank()", () => {
+  it("returns Ok with a BLANK node", () => {
+    const result = blank();
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({ type: "BLANK" });
+    }
+  });
+});
+
+describe("comment option", () => {
+  it("defaults to null on every factory", () => {
+    const results = [
+      from("alpine"),
+      run("echo hi"),
+      copy("a", "/b"),
+      add("a.tar", "/b/"),
+      workdir("/app"),
+      env("A", "1"),
+      expose(80),
+      cmd(["sh"]),
+      entrypoint(["sh"]),
+      arg("V"),
+      label("a", "1"),
+      user("node"),
+      volume("/data"),
+      shell(["/bin/sh", "-c"]),
+      healthcheck("true"),
+      healthcheckNone(),
+      stopSignal("SIGTERM"),
+      onbuild(run("echo hi")),
+    ];
+    for (const result of results) {
+      expect(result._unsafeUnwrap().comment).toBeNull();
+    }
+  });
+
+  it("is accepted by every factory", () => {
+    const options = { comment: "why" };
+    const results = [
+      from("alpine", options),
+      run("echo hi", options),
+      copy("a", "/b", options),
+      add("a.tar", "/b/", options),
+      workdir("/app", options),
+      env("A", "1", options),
+      env({ A: "1" }, options),
+      expose(80, options),
+      expose({ start: 80, end: 81 }, options),
+      cmd(["sh"], options),
+      entrypoint(["sh"], options),
+      arg("V", options),
+      label("a", "1", options),
+      label({ a: "1" }, options),
+      user("node", options),
+      volume("/data", options),
+      shell(["/bin/sh", "-c"], options),
+      healthcheck("true", options),
+      healthcheckNone(options),
+      stopSignal("SIGTERM", options),
+      onbuild(run("echo hi"), options),
+    ];
+    for (const result of results) {
+      expect(result._unsafeUnwrap().comment).toBe("why");
+    }
+  });
+
+  it("collects comment errors with the instruction's own errors", () => {
+    const result = workdir("", { comment: 7 as unknown as string });
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["path", "comment"]);
+    }
+  });
+});
+
 describe("stage()", () => {
   it("returns Ok for valid stage with Ok instructions", () => {
     const result = stage("builder", [from("node:18"), run("npm install")]);
@@ -471,6 +1414,14 @@ describe("stage()", () => {
     }
   });
 
+  it("returns Err for shell-form RUN under a shell without a command flag", () => {
+    const result = stage("builder", [from("debian"), shell(["/bin/bash"]), run("echo hi")]);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("instructions[2].command");
+    }
+  });
+
   it("collects all errors including name error", () => {
     const result = stage("", [from("")]);
     expect(result.isErr()).toBe(true);
@@ -499,6 +1450,21 @@ describe("containerfile()", () => {
       expect(result.isErr()).toBe(true);
     });
 
+    it("checks shell-form commands against the active shell per stage", () => {
+      const result = containerfile([
+        from("debian"),
+        shell(["/bin/bash"]),
+        from("alpine"),
+        run("echo default shell again"),
+        shell(["pwsh"]),
+        cmd("Write-Output hi"),
+      ]);
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.map((e) => e.field)).toEqual(["instructions[5].command"]);
+      }
+    });
+
     it("collects all errors from Err instructions", () => {
       const result = containerfile([
         from(""), // Err
@@ -548,4 +1514,38 @@ describe("containerfile()", () => {
       }
     });
   });
+  describe("directives", () => {
+    it("defaults to no directives", () => {
+      const result = containerfile([from("alpine")]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.directives).toEqual([]);
+      }
+    });
+
+    it("keeps validated directives in order", () => {
+      const result = containerfile([from("alpine")], {
+        directives: [syntaxDirective("docker/dockerfile:1.7"), escapeDirective("`")],
+      });
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.directives.map((directive) => directive.type)).toEqual([
+          "syntax",
+          "escape",
+        ]);
+      }
+    });
+
+    it("collects directive errors with instruction errors", () => {
+      const result = containerfile([from("")], {
+        directives: [syntaxDirective(""), escapeDirective("`"), escapeDirective("`")],
+      });
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        const fields = result.error.map((e) => e.field);
+        expect(fields).toContain("instructions[0].image");
+        expect(fields).toContain("directives[0].image");
+      }
+    });
+  });
 });
@@ -0,0 +1,114 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import type { Result } from "neverthrow";
+import type { Instruction, Stage } from "../../src/types.js";
+import type { ValidationError } from "../../src/errors.js";
+import {
+  lint,
+  imageTagRequired,
+  noLatestTag,
+  imageDigestRequired,
+  type Rule,
+} from "../../src/lint/index.js";
+import { from, arg, run, containerfile } from "../../src/instructions.js";
+import { stage } from "../../src/stage.js";
+
+type Item = Result<Instruction, Array<ValidationError>> | Result<Stage, Array<ValidationError>>;
+
+const DIGEST = `sha256:${"a".repeat(64)}`;
+
+/**
+ * Location and message of each diagnostic a single rule reports
+ */
+function flagged(rule: Rule, items: ReadonlyArray<Item>): Array<string> {
+  const cf = containerfile(
+    items as ReadonlyArray<Result<Instruction, Array<ValidationError>>>,
+  )._unsafeUnwrap();
+  return lint(cf, { rules: [rule] }).map((d) => `${d.location}: ${d.message}`);
+}
+
+describe("imageTagRequired", () => {
+  it("flags images with neither a tag nor a digest", () => {
+    expect(
+      flagged(imageTagRequired, [
+        stage("a", [from("alpine")]),
+        stage("b", [from("registry.example.com:5000/team/app")]),
+        stage("c", [from("alpine:3.20")]),
+        stage("d", [from(`node@${DIGEST}`)]),
+        stage("e", [from("scratch")]),
+      ]),
+    ).toEqual([
+      'stages[0].instructions[0]: FROM alpine has no tag, so it pulls "latest"; pin a version',
+      'stages[1].instructions[0]: FROM registry.example.com:5000/team/app has no tag, so it pulls "latest"; pin a version',
+    ]);
+  });
+
+  it("does not flag earlier stages used as images", () => {
+    expect(
+      flagged(imageTagRequired, [
+        stage("build", [from("node:22", { as: "builder" }), run("make")]),
+        stage("test", [from("builder"), run("make test")]),
+        stage("runtime", [from("builder")]),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("does not flag aliases of earlier FROMs in a single-stage instruction list", () => {
+    expect(
+      flagged(imageTagRequired, [from("node:22", { as: "builder" }), run("make"), from("builder")]),
+    ).toEqual([]);
+  });
+});
+
+describe("noLatestTag", () => {
+  it("flags the latest tag unless a digest pins it", () => {
+    expect(
+      flagged(noLatestTag, [
+        stage("a", [from("node:latest")]),
+        stage("b", [from("registry.example.com:5000/app:latest")]),
+        stage("c", [from(`node:latest@${DIGEST}`)]),
+        stage("d", [from("node:22")]),
+      ]),
+    ).toEqual([
+      'stages[0].instructions[0]: FROM node:latest uses the mutable "latest" tag; pin a version',
+      'stages[1].instructions[0]: FROM registry.example.com:5000/app:latest uses the mutable "latest" tag; pin a version',
+    ]);
+  });
+
+  it("resolves variables with the defaults of ARGs declared before the first FROM", () => {
+    expect(
+      flagged(noLatestTag, [
+        stage("a", [
+          arg("NODE_TAG", { defaultValue: "latest" }),
+          arg("TAG"),
+          from("node:${NODE_TAG}"),
+        ]),
+        stage("b", [from("node:${TAG}")]),
+        stage("c", [arg("LATE", { defaultValue: "latest" }), from("node:${LATE}")]),
+        stage("d", [from("node:${NODE_TAG}-alpine")]),
+      ]),
+    ).toEqual([
+      'stages[0].instructions[2]: FROM node:${NODE_TAG} (node:latest with ARG defaults) uses the mutable "latest" tag; pin a version',
+    ]);
+  });
+});
+
+describe("imageDigestRequired", () => {
+  it("flags every pulled image without a digest", () => {
+    expect(
+      flagged(imageDigestRequired, [
+        stage("build", [from("node:22", { as: "builder" })]),
+        stage("runtime", [from(`alpine:3.20@${DIGEST}`)]),
+        stage("test", [from("builder")]),
+      ]),
+    ).toEqual([
+      "stages[0].instructions[0]: FROM node:22 is not pinned to a digest; append @sha256:<digest>",
+    ]);
+  });
+
+  it("is not a recommended rule", () => {
+    const cf = containerfile([from("alpine:3.20")])._unsafeUnwrap();
+    expect(lint(cf)).toEqual([]);
+  });
+});
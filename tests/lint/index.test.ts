@@ -0,0 +1,149 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import { lint, applyFixes, validateLintOptions, type Rule } from "../../src/lint/index.js";
+import { from, run, cmd, user, containerfile } from "../../src/instructions.js";
+import { stage } from "../../src/stage.js";
+import { render } from "../../src/render.js";
+
+// Reports every instruction, recording the stage context it was given
+const everything: Rule = {
+  id: "everything",
+  description: "Reports every instruction",
+  severity: "info",
+  visit: (instruction, { stage, stages, index }) => [
+    {
+      message: `${instruction.type} ${stage.index}/${stages.length} ${stage.name}:${stage.alias}:${stage.isFinal} #${index}`,
+    },
+  ],
+};
+
+describe("lint()", () => {
+  it("visits single-stage instructions with locations", () => {
+    const cf = containerfile([from("alpine"), run("true")])._unsafeUnwrap();
+    expect(lint(cf, { rules: [everything] })).toEqual([
+      {
+        ruleId: "everything",
+        severity: "info",
+        message: "FROM 0/1 null:null:true #0",
+        location: "instructions[0]",
+        stageIndex: null,
+        instructionIndex: 0,
+        fix: null,
+      },
+      {
+        ruleId: "everything",
+        severity: "info",
+        message: "RUN 0/1 null:null:true #1",
+        location: "instructions[1]",
+        stageIndex: null,
+        instructionIndex: 1,
+        fix: null,
+      },
+    ]);
+  });
+
+  it("passes stage names, aliases and the final stage to rules", () => {
+    const cf = containerfile([
+      stage("build", [from("node:22", { as: "builder" }), run("make")]),
+      stage("runtime", [from("alpine")]),
+    ])._unsafeUnwrap();
+    expect(lint(cf, { rules: [everything] }).map((d) => `${d.location} ${d.message}`)).toEqual([
+      "stages[0].instructions[0] FROM 0/2 build:builder:false #0",
+      "stages[0].instructions[1] RUN 0/2 build:builder:false #1",
+      "stages[1].instructions[0] FROM 1/2 runtime:null:true #0",
+    ]);
+  });
+
+  it("runs the recommended rules by default", () => {
+    const cf = containerfile([from("alpine:3.20"), user("root"), cmd("sh")])._unsafeUnwrap();
+    expect(lint(cf).map((d) => d.ruleId)).toEqual(["final-user-root", "json-args-recommended"]);
+  });
+
+  it("applies severity overrides and turns rules off", () => {
+    const cf = containerfile([from("alpine:3.20"), user("root"), cmd("sh")])._unsafeUnwrap();
+    const diagnostics = lint(cf, {
+      severity: { "final-user-root": "error", "json-args-recommended": "off" },
+    });
+    expect(diagnostics.map((d) => [d.ruleId, d.severity])).toEqual([["final-user-root", "error"]]);
+  });
+});
+
+describe("applyFixes()", () => {
+  it("replaces fixed instructions in every stage, one fix per instruction", () => {
+    const cf = containerfile([
+      stage("build", [from("node:22"), cmd("make"), cmd("make test")]),
+      stage("runtime", [from("alpine:3.20"), cmd("app serve")]),
+    ])._unsafeUnwrap();
+    const fixed = applyFixes(cf, lint(cf));
+    expect(render(fixed)).toBe(
+      [
+        "FROM node:22",
+        'CMD ["make"]',
+        'CMD ["make", "test"]',
+        "",
+        "FROM alpine:3.20",
+        'CMD ["app", "serve"]',
+      ].join("\n"),
+    );
+
+    const refixed = applyFixes(fixed, lint(fixed));
+    expect(render(refixed)).toBe(
+      ["FROM node:22", 'CMD ["make", "test"]', "", "FROM alpine:3.20", 'CMD ["app", "serve"]'].join(
+        "\n",
+      ),
+    );
+    expect(lint(refixed)).toEqual([]);
+  });
+
+  it("ignores diagnostics without a fix", () => {
+    const cf = containerfile([from("alpine:3.20"), run("sudo true")])._unsafeUnwrap();
+    expect(applyFixes(cf, lint(cf))).toEqual(cf);
+  });
+});
+
+describe("validateLintOptions()", () => {
+  it("accepts rules and severity overrides", () => {
+    const options = { rules: [everything], severity: { everything: "off" } };
+    expect(validateLintOptions(options)._unsafeUnwrap()).toBe(options);
+  });
+
+  it("reports invalid rules and severities with field paths", () => {
+    const result = validateLintOptions({
+      rules: [everything, { id: "incomplete" }],
+      severity: { everything: "fatal" },
+    });
+    expect(result._unsafeUnwrapErr().map((e) => e.field)).toEqual([
+      "lint.rules[1]",
+      "lint.severity.everything",
+    ]);
+  });
+
+  it("rejects off as a rule's own severity", () => {
+    const result = validateLintOptions({ rules: [{ ...everything, severity: "off" }] });
+    expect(result._unsafeUnwrapErr()).toEqual([
+      expect.objectContaining({
+        field: "lint.rules[0]",
+        message: "must be a Rule with id, visit and a severity of error, warning, info",
+      }),
+    ]);
+  });
+
+  it("reports severity overrides for rules that are not configured", () => {
+    expect(
+      validateLintOptions({ severity: { "no-sudo": "error", "no-sudoo": "off" } })
+        ._unsafeUnwrapErr()
+        .map((e) => e.field),
+    ).toEqual(["lint.severity.no-sudoo"]);
+    const result = validateLintOptions({
+      rules: [everything],
+      severity: { everything: "off", "no-sudo": "error" },
+    });
+    expect(result._unsafeUnwrapErr()).toEqual([
+      expect.objectContaining({
+        field: "lint.severity.no-sudo",
+        message: "unknown rule id; configured rules are: everything",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import type { Result } from "neverthrow";
+import type { Instruction, Stage } from "../../src/types.js";
+import type { ValidationError } from "../../src/errors.js";
+import {
+  lint,
+  jsonArgsRecommended,
+  redundantInstruction,
+  noSudo,
+  noCdInRun,
+  workdirAbsolute,
+  finalUserRoot,
+  type Rule,
+} from "../../src/lint/index.js";
+import {
+  from,
+  run,
+  cmd,
+  entrypoint,
+  healthcheck,
+  workdir,
+  user,
+  containerfile,
+} from "../../src/instructions.js";
+import { stage } from "../../src/stage.js";
+
+type Item = Result<Instruction, Array<ValidationError>> | Result<Stage, Array<ValidationError>>;
+
+/**
+ * Locations a single rule reports for the given instructions or stages
+ */
+function flagged(rule: Rule, items: ReadonlyArray<Item>): Array<string> {
+  const cf = containerfile(
+    items as ReadonlyArray<Result<Instruction, Array<ValidationError>>>,
+  )._unsafeUnwrap();
+  return lint(cf, { rules: [rule] }).map((diagnostic) => diagnostic.location);
+}
+
+describe("jsonArgsRecommended", () => {
+  it("flags shell-form CMD and ENTRYPOINT only", () => {
+    expect(
+      flagged(jsonArgsRecommended, [
+        from("node:22"),
+        entrypoint("node"),
+        cmd("server.js --port 80"),
+        cmd(["server.js"]),
+      ]),
+    ).toEqual(["instructions[1]", "instructions[2]"]);
+  });
+
+  it("offers a JSON-form fix for plain words", () => {
+    const cf = containerfile([from("node:22"), cmd("node  server.js")])._unsafeUnwrap();
+    const [diagnostic] = lint(cf, { rules: [jsonArgsRecommended] });
+    expect(diagnostic?.fix?.replacement).toEqual([
+      { ...cmd(["node", "server.js"])._unsafeUnwrap() },
+    ]);
+  });
+
+  it("offers no fix when the shell is needed", () => {
+    const cf = containerfile([
+      from("node:22"),
+      cmd("node server.js > /var/log/app.log"),
+    ])._unsafeUnwrap();
+    expect(lint(cf, { rules: [jsonArgsRecommended] })[0]?.fix).toBeNull();
+  });
+
+  it("offers no fix when the command starts with a variable assignment", () => {
+    const cf = containerfile([
+      from("node:22"),
+      cmd("NODE_ENV=production node server.js"),
+      cmd("node server.js --port=80"),
+    ])._unsafeUnwrap();
+    expect(lint(cf, { rules: [jsonArgsRecommended] }).map((d) => d.fix?.replacement)).toEqual([
+      undefined,
+      [{ ...cmd(["node", "server.js", "--port=80"])._unsafeUnwrap() }],
+    ]);
+  });
+});
+
+describe("redundantInstruction", () => {
+  it("flags CMD, ENTRYPOINT and HEALTHCHECK overridden later in the same stage", () => {
+    expect(
+      flagged(redundantInstruction, [
+        stage("build", [from("node:22"), cmd(["a"]), healthcheck("true"), healthcheck("false")]),
+        stage("runtime", [from("alpine"), cmd(["b"]), entrypoint(["c"]), cmd(["d"])]),
+      ]),
+    ).toEqual(["stages[0].instructions[2]", "stages[1].instructions[1]"]);
+  });
+});
+
+describe("noSudo", () => {
+  it("flags sudo in shell, exec and heredoc RUNs", () => {
+    expect(
+      flagged(noSudo, [
+        from("alpine"),
+        run("apk update && sudo apk add curl"),
+        run(["sudo", "make", "install"]),
+        run({ body: "set -e\nsudo rm -rf /tmp/cache" }),
+        run("echo pseudo sudoku"),
+      ]),
+    ).toEqual(["instructions[1]", "instructions[2]", "instructions[3]"]);
+  });
+});
+
+describe("noCdInRun", () => {
+  it("flags cd at the start of a command", () => {
+    expect(
+      flagged(noCdInRun, [
+        from("alpine"),
+        run("cd /src && make"),
+        run("make; cd build"),
+        run("echo abcd /src"),
+      ]),
+    ).toEqual(["instructions[1]", "instructions[2]"]);
+  });
+});
+
+describe("workdirAbsolute", () => {
+  it("flags relative paths", () => {
+    expect(
+      flagged(workdirAbsolute, [
+        from("alpine"),
+        workdir("/app"),
+        workdir("src"),
+        workdir("${APP_HOME}"),
+      ]),
+    ).toEqual(["instructions[2]"]);
+  });
+});
+
+describe("finalUserRoot", () => {
+  it("flags a final stage that ends as root", () => {
+    expect(
+      flagged(finalUserRoot, [
+        stage("build", [from("node:22"), user("root")]),
+        stage("runtime", [from("alpine"), user("root"), user("app"), user(0)]),
+      ]),
+    ).toEqual(["stages[1].instructions[3]"]);
+  });
+
+  it("accepts a final unprivileged USER", () => {
+    expect(flagged(finalUserRoot, [from("alpine"), user("root"), user("app")])).toEqual([]);
+  });
+});
@@ -0,0 +1,338 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { parse } from "../src/parse.js";
+import { render } from "../src/render.js";
+import type { Containerfile, Instruction } from "../src/types.js";
+
+function instructionsOf(text: string): ReadonlyArray<Instruction> {
+  const result = parse(text);
+  if (result.isErr()) {
+    throw new Error(JSON.stringify(result.error));
+  }
+  const containerfile: Containerfile = result.value;
+  if (!("instructions" in containerfile)) {
+    throw new Error("expected a single-stage containerfile");
+  }
+  return containerfile.instructions;
+}
+
+function firstInstruction(text: string): Instruction {
+  const [, instruction] = instructionsOf(`FROM alpine\n${text}`);
+  if (instruction === undefined) {
+    throw new Error("expected an instruction after FROM");
+  }
+  return instruction;
+}
+
+describe("parse()", () => {
+  describe("lines", () => {
+    it("parses keywords case-insensitively", () => {
+      expect(instructionsOf("from node:20 as build\nrun npm ci")).toMatchObject([
+        { type: "FROM", image: "node:20", as: "build" },
+        { type: "RUN", command: "npm ci" },
+      ]);
+    });
+
+    it("joins line continuations and skips comments inside them", () => {
+      expect(
+        firstInstruction("RUN apt-get update \\\n# note\n    && apt-get install -y curl"),
+      ).toMatchObject({
+        type: "RUN",
+        command: "apt-get update && apt-get install -y curl",
+      });
+    });
+
+    it("keeps comments and blank lines as nodes", () => {
+      expect(instructionsOf("FROM alpine\n\n# standalone\n\nRUN true")).toMatchObject([
+        { type: "FROM" },
+        { type: "BLANK" },
+        { type: "COMMENT", text: "standalone" },
+        { type: "BLANK" },
+        { type: "RUN" },
+      ]);
+    });
+
+    it("attaches a comment directly above an instruction", () => {
+      expect(instructionsOf("# base image\n# pinned\nFROM alpine:3.20")).toEqual([
+        expect.objectContaining({ type: "FROM", comment: "base image\npinned" }),
+      ]);
+    });
+  });
+
+  describe("directives", () => {
+    it("reads leading directives and the blank line after them", () => {
+      const result = parse(
+        "# syntax=docker/dockerfile:1.7\n# check=skip=A,B;error=true\n\nFROM alpine",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.directives).toEqual([
+          { type: "syntax", image: "docker/dockerfile:1.7" },
+          { type: "check", skip: ["A", "B"], error: true },
+        ]);
+        expect(result.value).toMatchObject({ instructions: [{ type: "FROM" }] });
+      }
+    });
+
+    it("uses the escape directive for line continuations", () => {
+      const [, instruction] = instructionsOf(
+        "# escape=`\n\nFROM mcr.microsoft.com/windows/servercore\nRUN dir `\n    C:\\",
+      );
+      expect(instruction).toMatchObject({ type: "RUN", command: "dir C:\\" });
+    });
+  });
+
+  describe("instructions", () => {
+    it("parses exec and shell forms", () => {
+      expect(firstInstruction('CMD ["node", "server.js"]')).toMatchObject({
+        command: ["node", "server.js"],
+      });
+      expect(firstInstruction("ENTRYPOINT node server.js")).toMatchObject({
+        command: "node server.js",
+      });
+    });
+
+    it("parses RUN flags and mounts", () => {
+      expect(
+        firstInstruction(
+          "RUN --mount=type=cache,target=/root/.npm,uid=1000 --mount=type=secret,id=npmrc --network=none npm ci",
+        ),
+      ).toMatchObject({
+        mounts: [
+          { type: "cache", target: "/root/.npm", uid: 1000 },
+          { type: "secret", id: "npmrc" },
+        ],
+        network: "none",
+        command: "npm ci",
+      });
+    });
+
+    it("parses RUN and COPY heredocs", () => {
+      expect(firstInstruction("RUN <<-EOF\n\t#!/bin/bash\n\techo hi\n\tEOF")).toMatchObject({
+        command: { body: "echo hi", interpreter: "/bin/bash", delimiter: "EOF" },
+      });
+      expect(firstInstruction("COPY <<conf /etc/app.conf\nkey=value\nconf")).toMatchObject({
+        src: [{ contents: "key=value", delimiter: "conf" }],
+        dest: "/etc/app.conf",
+      });
+    });
+
+    it("keeps whether a heredoc delimiter is quoted", () => {
+      expect(firstInstruction("RUN <<'EOF'\necho $HOME\nEOF")).toMatchObject({
+        command: { body: "echo $HOME", delimiter: "EOF", quoted: true },
+      });
+      expect(firstInstruction("RUN <<EOF\necho $HOME\nEOF")).toMatchObject({
+        command: { quoted: false },
+      });
+      expect(firstInstruction('COPY <<"EOF" /a\n$HOME\nEOF')).toMatchObject({
+        src: [{ contents: "$HOME", quoted: true }],
+      });
+      expect(firstInstruction("COPY <<EOF /a\n$HOME\nEOF")).toMatchObject({
+        src: [{ contents: "$HOME", quoted: false }],
+      });
+    });
+
+    it("parses COPY and ADD paths", () => {
+      expect(firstInstruction('COPY --from=build ["My Docs/a.md", "/docs/"]')).toMatchObject({
+        from: "build",
+        src: ["My Docs/a.md"],
+        dest: "/docs/",
+        form: null,
+      });
+      expect(firstInstruction('COPY ["a", "b"]')).toMatchObject({ form: "json" });
+      expect(
+        firstInstruction("ADD --keep-git-dir https://github.com/a/b.git#v1 /src"),
+      ).toMatchObject({
+        src: [{ kind: "git", url: "https://github.com/a/b.git", ref: "v1" }],
+        keepGitDir: true,
+      });
+    });
+
+    it("unquotes ENV and LABEL values", () => {
+      expect(firstInstruction('ENV A=1 B="two words" C=${A}')).toMatchObject({
+        pairs: [
+          { key: "A", value: "1" },
+          { key: "B", value: "two words" },
+          { key: "C", value: "${A}" },
+        ],
+      });
+      expect(
+        firstInstruction("ENV PATH=/opt/bin:$PATH B=1 10=ten PATH=/app/bin:$PATH"),
+      ).toMatchObject({
+        pairs: [
+          { key: "PATH", value: "/opt/bin:$PATH" },
+          { key: "B", value: "1" },
+          { key: "10", value: "ten" },
+          { key: "PATH", value: "/app/bin:$PATH" },
+        ],
+      });
+      expect(firstInstruction('LABEL description="say \\"hi\\""')).toMatchObject({
+        pairs: [{ key: "description", value: 'say "hi"' }],
+      });
+      expect(firstInstruction("ENV LEGACY some value")).toMatchObject({
+        pairs: [{ key: "LEGACY", value: "some value" }],
+      });
+      expect(firstInstruction('ENV LEGACY "hello world"')).toMatchObject({
+        pairs: [{ key: "LEGACY", value: "hello world" }],
+      });
+      expect(firstInstruction("ENV LEGACY 'it'\\''s'  \"a \\\"b\\\"\"")).toMatchObject({
+        pairs: [{ key: "LEGACY", value: 'it\'s  a "b"' }],
+      });
+    });
+
+    it("unquotes the WORKDIR path as one word", () => {
+      expect(firstInstruction('WORKDIR "/my app"')).toMatchObject({ path: "/my app" });
+      expect(firstInstruction("WORKDIR /my app")).toMatchObject({ path: "/my app" });
+      expect(firstInstruction("WORKDIR '/it'\\''s'")).toMatchObject({ path: "/it's" });
+      expect(firstInstruction("WORKDIR /srv/$APP")).toMatchObject({ path: "/srv/$APP" });
+    });
+
+    it("splits EXPOSE and ARG into one instruction each", () => {
+      expect(
+        instructionsOf("FROM alpine\nEXPOSE 80 5000-5010/udp\nARG A B=1").slice(1),
+      ).toMatchObject([
+        { type: "EXPOSE", port: 80, protocol: null },
+        { type: "EXPOSE", port: 5000, endPort: 5010, protocol: "udp" },
+        { type: "ARG", name: "A", defaultValue: null },
+        { type: "ARG", name: "B", defaultValue: "1" },
+      ]);
+    });
+
+    it("parses USER, HEALTHCHECK, STOPSIGNAL and ONBUILD", () => {
+      expect(firstInstruction("USER app:staff")).toMatchObject({ user: "app", group: "staff" });
+      expect(
+        firstInstruction("HEALTHCHECK --interval=30s --retries=3 CMD curl -f localhost"),
+      ).toMatchObject({
+        command: "curl -f localhost",
+        interval: "30s",
+        retries: 3,
+      });
+      expect(firstInstruction("HEALTHCHECK NONE")).toMatchObject({
+        type: "HEALTHCHECK",
+        command: null,
+      });
+      expect(firstInstruction("STOPSIGNAL 9")).toMatchObject({ signal: "9" });
+      expect(firstInstruction("ONBUILD COPY . /app")).toMatchObject({
+        instruction: { type: "COPY", src: ["."], dest: "/app" },
+      });
+    });
+  });
+
+  describe("stages", () => {
+    it("splits multiple FROMs into stages", () => {
+      const result = parse(
+        "ARG V=1\nFROM a AS build\nRUN make\n\n# runtime\nFROM b\nCOPY --from=build /out /out",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          stages: [
+            { name: "build", instructions: [{ type: "ARG" }, { type: "FROM" }, { type: "RUN" }] },
+            {
+              name: "stage-1",
+              instructions: [{ type: "FROM", comment: "runtime" }, { type: "COPY" }],
+            },
+          ],
+        });
+      }
+    });
+  });
+
+  describe("errors", () => {
+    it("locates unknown flags at their column", () => {
+      const result = parse("FROM alpine\nRUN --bogus=1 true");
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toEqual([
+          expect.objectContaining({ field: "flags", value: "--bogus=1", line: 2, column: 5 }),
+        ]);
+      }
+    });
+
+    it("locates invalid tokens and factory errors", () => {
+      const result = parse("FROM alpine\nEXPOSE 80 http\nWORKDIR\nFOO bar");
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toEqual([
+          expect.objectContaining({ field: "port", line: 2, column: 11 }),
+          expect.objectContaining({ field: "path", line: 3, column: 1 }),
+          expect.objectContaining({ field: "instruction", line: 4, column: 1 }),
+        ]);
+      }
+    });
+
+    it("locates invalid flag and mount values at their flag", () => {
+      const result = parse(
+        [
+          "FROM alpine",
+          "RUN --network=bogus --mount=type=cache,target=/c,uid=me,ro=maybe true",
+          "COPY --link=yes a /a",
+          "HEALTHCHECK --retries=-1 CMD true",
+        ].join("\n"),
+      );
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toEqual([
+          expect.objectContaining({ field: "mounts[0].uid", value: "me", line: 2, column: 21 }),
+          expect.objectContaining({ field: "mounts[0].readonly", value: "maybe", column: 21 }),
+          expect.objectContaining({ field: "network", value: "bogus", line: 2, column: 5 }),
+          expect.objectContaining({ field: "link", value: "yes", line: 3, column: 6 }),
+          expect.objectContaining({ field: "retries", value: "-1", line: 4, column: 13 }),
+        ]);
+      }
+    });
+
+    it("rejects RUN heredocs with a command around them", () => {
+      const result = parse(
+        "FROM alpine\nRUN cat <<EOF > /file\nhi\nEOF\nRUN python3 <<EOF\nprint(1)\nEOF",
+      );
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toEqual([
+          expect.objectContaining({ field: "command", line: 2, column: 5 }),
+          expect.objectContaining({ field: "command", line: 5, column: 5 }),
+        ]);
+      }
+    });
+
+    it("reports unterminated heredocs", () => {
+      const result = parse("FROM alpine\nRUN <<EOF\necho hi");
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error[0]).toMatchObject({ field: "heredoc", line: 2 });
+      }
+    });
+
+    it("locates containerfile validation errors at the instruction", () => {
+      const result = parse('FROM alpine\nSHELL ["/bin/bash"]\nRUN echo hi');
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error[0]).toMatchObject({ line: 3 });
+      }
+    });
+  });
+
+  describe("round trip", () => {
+    const fixturesDir = join(import.meta.dirname, "fixtures");
+    const fixtures = readdirSync(fixturesDir, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory() && dirent.name !== "wrapped-run")
+      .map((dirent) => dirent.name);
+
+    for (const fixtureName of fixtures) {
+      it(`re-renders ${fixtureName} unchanged`, () => {
+        const expected = readFileSync(
+          join(fixturesDir, fixtureName, "expected.Dockerfile"),
+          "utf-8",
+        ).trim();
+        const result = parse(expected);
+        expect(result.isOk()).toBe(true);
+        if (result.isOk()) {
+          expect(render(result.value)).toBe(expected);
+        }
+      });
+    }
+  });
+});
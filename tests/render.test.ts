@@ -0,0 +1,230 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import {
+  from,
+  run,
+  env,
+  copy,
+  workdir,
+  volume,
+  comment,
+  blank,
+  containerfile,
+} from "../src/instructions.js";
+import { stage } from "../src/stage.js";
+import { syntaxDirective, escapeDirective, checkDirective } from "../src/directives.js";
+import { render, renderInstruction } from "../src/render.js";
+import type { Containerfile } from "../src/types.js";
+
+function singleStage(results: Parameters<typeof containerfile>[0]): Containerfile {
+  return containerfile(results)._unsafeUnwrap();
+}
+
+const longRun = run("apt-get update && apt-get install -y curl git && rm -rf /var/lib/apt/lists/*");
+
+describe("render() options", () => {
+  it("keeps the default output when no options are given", () => {
+    const cf = singleStage([from("alpine"), longRun]);
+    expect(render(cf)).toBe(render(cf, {}));
+    expect(render(cf)).toBe(
+      "FROM alpine\nRUN apt-get update && apt-get install -y curl git && rm -rf /var/lib/apt/lists/*",
+    );
+  });
+
+  it("wraps shell-form RUN at && boundaries beyond lineWidth", () => {
+    const cf = singleStage([from("alpine"), longRun]);
+    expect(render(cf, { lineWidth: 60 })).toBe(
+      [
+        "FROM alpine",
+        "RUN apt-get update \\",
+        "    && apt-get install -y curl git \\",
+        "    && rm -rf /var/lib/apt/lists/*",
+      ].join("\n"),
+    );
+  });
+
+  it("does not wrap commands that fit within lineWidth", () => {
+    const cf = singleStage([from("alpine"), run("make && make install")]);
+    expect(render(cf, { lineWidth: 80 })).toBe("FROM alpine\nRUN make && make install");
+  });
+
+  it("ignores && inside quotes and escaped ampersands", () => {
+    const instruction = run(`echo "a && b" \\&& c && echo 'd && e'`)._unsafeUnwrap();
+    expect(renderInstruction(instruction, { lineWidth: 10 })).toBe(
+      `RUN echo "a && b" \\&& c \\\n    && echo 'd && e'`,
+    );
+  });
+
+  it("leaves commands without && or with newlines untouched", () => {
+    const single = run("apt-get install -y a-very-long-package-name")._unsafeUnwrap();
+    expect(renderInstruction(single, { lineWidth: 10 })).toBe(
+      "RUN apt-get install -y a-very-long-package-name",
+    );
+    const multiline = run("a \\\n    && b")._unsafeUnwrap();
+    expect(renderInstruction(multiline, { lineWidth: 5 })).toBe("RUN a \\\n    && b");
+  });
+
+  it("does not wrap exec-form RUN", () => {
+    const instruction = run(["sh", "-c", "a && b"])._unsafeUnwrap();
+    expect(renderInstruction(instruction, { lineWidth: 5 })).toBe('RUN ["sh", "-c", "a && b"]');
+  });
+
+  it("uses indent for continuation lines of RUN and multi-pair ENV", () => {
+    const instruction = env({ A: "1", B: "2" })._unsafeUnwrap();
+    expect(renderInstruction(instruction, { indent: 2 })).toBe("ENV A=1 \\\n  B=2");
+    expect(renderInstruction(longRun._unsafeUnwrap(), { lineWidth: 20, indent: 0 })).toBe(
+      "RUN apt-get update \\\n&& apt-get install -y curl git \\\n&& rm -rf /var/lib/apt/lists/*",
+    );
+  });
+
+  it("separates instruction groups with blank lines", () => {
+    const cf = singleStage([from("alpine"), env("A", "1"), env("B", "2"), workdir("/app")]);
+    expect(render(cf, { blankLinesBetweenGroups: 1 })).toBe(
+      "FROM alpine\n\nENV A=1\nENV B=2\n\nWORKDIR /app",
+    );
+  });
+
+  it("separates stages with the configured number of blank lines", () => {
+    const cf = containerfile([
+      stage("a", [from("alpine", { as: "a" })]),
+      stage("b", [from("alpine")]),
+    ])._unsafeUnwrap();
+    expect(render(cf)).toBe("FROM alpine AS a\n\nFROM alpine");
+    expect(render(cf, { blankLinesBetweenStages: 0 })).toBe("FROM alpine AS a\nFROM alpine");
+    expect(render(cf, { blankLinesBetweenStages: 2 })).toBe("FROM alpine AS a\n\n\nFROM alpine");
+  });
+
+  it("appends a trailing newline when requested", () => {
+    const cf = singleStage([from("alpine")]);
+    expect(render(cf, { trailingNewline: true })).toBe("FROM alpine\n");
+  });
+});
+
+describe("VOLUME form", () => {
+  it("switches to JSON form for paths with whitespace or quotes", () => {
+    expect(renderInstruction(volume(["/data", "/logs"])._unsafeUnwrap())).toBe(
+      "VOLUME /data /logs",
+    );
+    expect(renderInstruction(volume(["/my data"])._unsafeUnwrap())).toBe('VOLUME ["/my data"]');
+    expect(renderInstruction(volume(["/it's"])._unsafeUnwrap())).toBe('VOLUME ["/it\'s"]');
+    expect(renderInstruction(volume(['/"q"'])._unsafeUnwrap())).toBe('VOLUME ["/\\"q\\""]');
+  });
+});
+
+describe("WORKDIR path", () => {
+  it("quotes paths with quotes or the escape character", () => {
+    expect(renderInstruction(workdir("/my app")._unsafeUnwrap())).toBe("WORKDIR /my app");
+    expect(renderInstruction(workdir("/it's")._unsafeUnwrap())).toBe('WORKDIR "/it\'s"');
+    expect(renderInstruction(workdir("/a\\b")._unsafeUnwrap())).toBe('WORKDIR "/a\\\\b"');
+  });
+});
+
+describe("COPY inline files", () => {
+  it("quotes the delimiter unless expansion is asked for", () => {
+    expect(renderInstruction(copy({ contents: "PATH=$PATH" }, "/etc/env")._unsafeUnwrap())).toBe(
+      'COPY <<"EOF" /etc/env\nPATH=$PATH\nEOF',
+    );
+    expect(
+      renderInstruction(
+        copy({ contents: "PATH=$PATH", quoted: false }, "/etc/env")._unsafeUnwrap(),
+      ),
+    ).toBe("COPY <<EOF /etc/env\nPATH=$PATH\nEOF");
+  });
+});
+
+describe("comments and blank lines", () => {
+  it("renders comment nodes as # lines, splitting multi-line text", () => {
+    const cf = singleStage([comment("Base image\n\nPinned for reproducibility"), from("alpine")]);
+    expect(render(cf)).toBe("# Base image\n#\n# Pinned for reproducibility\nFROM alpine");
+  });
+
+  it("renders attached comments above their instruction", () => {
+    const cf = singleStage([from("alpine"), workdir("/app", { comment: "line one\r\nline two" })]);
+    expect(render(cf)).toBe("FROM alpine\n# line one\n# line two\nWORKDIR /app");
+  });
+
+  it("renders blank nodes as empty lines", () => {
+    const cf = singleStage([from("alpine"), blank(), run("true")]);
+    expect(render(cf)).toBe("FROM alpine\n\nRUN true");
+  });
+
+  it("keeps comment nodes with the group of the following instruction", () => {
+    const cf = singleStage([
+      from("alpine"),
+      comment("Configuration"),
+      env("A", "1"),
+      blank(),
+      workdir("/app"),
+    ]);
+    expect(render(cf, { blankLinesBetweenGroups: 1 })).toBe(
+      "FROM alpine\n\n# Configuration\nENV A=1\n\nWORKDIR /app",
+    );
+  });
+});
+
+describe("parser directives", () => {
+  it("renders directives first, followed by a blank line", () => {
+    const cf = containerfile([comment("Service image"), from("alpine")], {
+      directives: [
+        syntaxDirective("docker/dockerfile:1.7"),
+        checkDirective({ skip: ["JSONArgsRecommended"], error: true }),
+      ],
+    })._unsafeUnwrap();
+    expect(render(cf)).toBe(
+      [
+        "# syntax=docker/dockerfile:1.7",
+        "# check=skip=JSONArgsRecommended;error=true",
+        "",
+        "# Service image",
+        "FROM alpine",
+      ].join("\n"),
+    );
+  });
+
+  it("renders directives before multi-stage builds", () => {
+    const cf = containerfile(
+      [stage("a", [from("alpine", { as: "a" })]), stage("b", [from("alpine")])],
+      { directives: [syntaxDirective("docker/dockerfile:1")] },
+    )._unsafeUnwrap();
+    expect(render(cf)).toBe("# syntax=docker/dockerfile:1\n\nFROM alpine AS a\n\nFROM alpine");
+  });
+
+  it("starts with a blank line when a leading comment looks like a directive", () => {
+    const cf = containerfile([comment("syntax=evil/frontend"), from("alpine")])._unsafeUnwrap();
+    expect(render(cf)).toBe("\n# syntax=evil/frontend\nFROM alpine");
+    const commented = containerfile([
+      from("alpine", { comment: "check = skip=all" }),
+    ])._unsafeUnwrap();
+    expect(render(commented)).toBe("\n# check = skip=all\nFROM alpine");
+    const plain = containerfile([comment("Build: a=b"), from("alpine")])._unsafeUnwrap();
+    expect(render(plain)).toBe("# Build: a=b\nFROM alpine");
+  });
+
+  it("renders hand-built definitions without a directives field", () => {
+    const instructions = [from("alpine")._unsafeUnwrap(), run("true")._unsafeUnwrap()];
+    expect(render({ instructions })).toBe("FROM alpine\nRUN true");
+  });
+
+  it("uses a custom escape character for continuations and quoting", () => {
+    const cf = containerfile(
+      [
+        from("mcr.microsoft.com/windows/servercore:ltsc2022"),
+        env({ APP_HOME: "C:\\app", GREETING: 'say "hi" `now`' }),
+        run("a && b"),
+      ],
+      { directives: [escapeDirective("`")] },
+    )._unsafeUnwrap();
+    expect(render(cf, { lineWidth: 5 })).toBe(
+      [
+        "# escape=`",
+        "",
+        "FROM mcr.microsoft.com/windows/servercore:ltsc2022",
+        "ENV APP_HOME=C:\\app `",
+        '    GREETING="say `"hi`" ``now``"',
+        "RUN a `",
+        "    && b",
+      ].join("\n"),
+    );
+  });
+});
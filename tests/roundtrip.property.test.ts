@@ -0,0 +1,352 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import type { Result } from "neverthrow";
+import {
+  from,
+  run,
+  copy,
+  add,
+  workdir,
+  env,
+  expose,
+  cmd,
+  entrypoint,
+  arg,
+  label,
+  user,
+  volume,
+  shell,
+  healthcheck,
+  healthcheckNone,
+  stopSignal,
+  onbuild,
+  comment,
+  blank,
+  containerfile,
+} from "../src/instructions.js";
+import { stage } from "../src/stage.js";
+import { syntaxDirective, escapeDirective, checkDirective } from "../src/directives.js";
+import { render } from "../src/render.js";
+import { parse } from "../src/parse.js";
+import { equals } from "../src/equals.js";
+import type { ValidationError } from "../src/errors.js";
+import type { Containerfile, Instruction } from "../src/types.js";
+
+type InstructionResult = Result<Instruction, Array<ValidationError>>;
+
+const lowercase = [..."abcdefghijklmnopqrstuvwxyz"];
+const digits = [..."0123456789"];
+
+/**
+ * Strings of a first character and up to `maxLength` further characters.
+ * Cheaper than fc.stringMatching for the simple patterns used here.
+ */
+function identifier(first: ReadonlyArray<string>, rest: ReadonlyArray<string>, maxLength: number) {
+  return fc
+    .tuple(fc.constantFrom(...first), fc.string({ unit: fc.constantFrom(...rest), maxLength }))
+    .map(([head, tail]) => head + tail);
+}
+
+// Generator for plain words (no quotes, whitespace or escape characters)
+const word = identifier(lowercase, [...lowercase, ...digits, ".", "_", "-"], 8);
+
+// Generator for absolute paths, optionally containing a space (forces JSON form)
+const plainPath = fc
+  .array(word, { minLength: 1, maxLength: 3 })
+  .map((parts) => `/${parts.join("/")}`);
+const spacedPath = fc.tuple(word, word).map(([a, b]) => `/${a} ${b}`);
+const anyPath = fc.oneof(plainPath, spacedPath);
+
+// Generator for shell-form commands, possibly chained with &&
+const shellCommand = fc
+  .array(
+    fc.array(word, { minLength: 1, maxLength: 3 }).map((words) => words.join(" ")),
+    { minLength: 1, maxLength: 3 },
+  )
+  .map((segments) => segments.join(" && "));
+
+// Generator for exec-form commands
+const execCommand = fc.array(fc.string({ minLength: 1, maxLength: 10 }), {
+  minLength: 1,
+  maxLength: 3,
+});
+
+const command = fc.oneof(shellCommand, execCommand);
+
+// Generator for multi-line text (heredoc bodies and comments)
+const lines = fc
+  .array(
+    fc.array(word, { minLength: 1, maxLength: 3 }).map((words) => words.join(" ")),
+    { minLength: 1, maxLength: 3 },
+  )
+  .map((text) => text.join("\n"));
+
+// Generator for ENV/LABEL keys and values, values biased towards quoting
+const letters = [...lowercase, ...lowercase.map((c) => c.toUpperCase()), "_"];
+const validKey = identifier(letters, [...letters, ...digits, ".", "-"], 10);
+const quotableValue = fc.oneof(
+  fc.string({ maxLength: 10 }),
+  fc.string({
+    unit: fc.constantFrom("a", "Z", " ", "\t", '"', "'", "\\", "`", "$", "{", "}", "=", "#"),
+    maxLength: 10,
+  }),
+);
+
+const runInstruction: fc.Arbitrary<InstructionResult> = fc
+  .tuple(
+    fc.oneof(
+      command,
+      fc.record(
+        {
+          body: lines,
+          interpreter: fc.constantFrom("/bin/bash", "/usr/bin/env python3"),
+          quoted: fc.boolean(),
+        },
+        { requiredKeys: ["body"] },
+      ),
+    ),
+    fc.record(
+      {
+        mounts: fc.array(
+          fc.oneof(
+            plainPath.map((target) => ({ type: "cache" as const, target })),
+            word.map((id) => ({ type: "secret" as const, id })),
+            fc.tuple(plainPath, plainPath).map(([target, source]) => ({
+              type: "bind" as const,
+              target,
+              source,
+            })),
+          ),
+          { maxLength: 2 },
+        ),
+        network: fc.constantFrom("default" as const, "none" as const, "host" as const),
+      },
+      { requiredKeys: [] },
+    ),
+  )
+  .map(([runCommand, options]) => run(runCommand, options));
+
+const copyInstruction: fc.Arbitrary<InstructionResult> = fc.oneof(
+  fc
+    .tuple(
+      fc.array(anyPath, { minLength: 1, maxLength: 2 }),
+      anyPath,
+      fc.record(
+        {
+          from: word,
+          chown: fc.constant("1000:1000"),
+          chmod: fc.constant("644"),
+          link: fc.boolean(),
+          parents: fc.boolean(),
+          exclude: fc.array(word, { minLength: 1, maxLength: 2 }),
+          form: fc.constantFrom("shell" as const, "json" as const),
+        },
+        { requiredKeys: [] },
+      ),
+    )
+    .map(([src, dest, options]) => copy(src, dest, options)),
+  fc
+    .tuple(lines, plainPath, fc.boolean())
+    .map(([contents, dest, quoted]) => copy({ contents, quoted }, dest)),
+);
+
+const addInstruction: fc.Arbitrary<InstructionResult> = fc
+  .tuple(
+    fc.array(
+      fc.oneof(
+        plainPath,
+        fc.constant("https://example.com/archive.tar.gz"),
+        fc.constant("https://github.com/example/repo.git#v1.0:docs"),
+        fc.constant("git@github.com:example/repo.git"),
+      ),
+      { minLength: 1, maxLength: 2 },
+    ),
+    plainPath,
+    fc.record(
+      { chown: fc.constant("app"), link: fc.boolean(), form: fc.constant("json" as const) },
+      { requiredKeys: [] },
+    ),
+  )
+  .map(([src, dest, options]) => add(src, dest, options));
+
+const pairsInstruction: fc.Arbitrary<InstructionResult> = fc.oneof(
+  fc.tuple(validKey, quotableValue).map(([key, value]) => env(key, value)),
+  fc.dictionary(validKey, quotableValue, { minKeys: 1, maxKeys: 3 }).map((pairs) => env(pairs)),
+  fc.tuple(validKey, quotableValue).map(([key, value]) => label(key, value)),
+  fc.dictionary(validKey, quotableValue, { minKeys: 1, maxKeys: 3 }).map((pairs) => label(pairs)),
+);
+
+const exposeInstruction: fc.Arbitrary<InstructionResult> = fc
+  .tuple(
+    fc.oneof(
+      fc.integer({ min: 0, max: 65535 }),
+      fc
+        .tuple(fc.integer({ min: 0, max: 65535 }), fc.integer({ min: 0, max: 65535 }))
+        .map(([a, b]) => ({ start: Math.min(a, b), end: Math.max(a, b) })),
+    ),
+    fc.option(fc.constantFrom("tcp" as const, "udp" as const, "sctp" as const), {
+      nil: undefined,
+    }),
+  )
+  .map(([port, protocol]) => expose(port, protocol !== undefined ? { protocol } : undefined));
+
+const uppercase = [...lowercase.map((c) => c.toUpperCase()), "_"];
+const argName = identifier(uppercase, [...uppercase, ...digits], 8);
+
+const bodyInstruction: fc.Arbitrary<InstructionResult> = fc.oneof(
+  runInstruction,
+  copyInstruction,
+  addInstruction,
+  pairsInstruction,
+  exposeInstruction,
+  plainPath.map((path) => workdir(path)),
+  command.map((c) => cmd(c)),
+  command.map((c) => entrypoint(c)),
+  fc
+    .tuple(
+      argName,
+      fc.option(
+        quotableValue.filter((value) => value !== ""),
+        { nil: undefined },
+      ),
+    )
+    .map(([name, defaultValue]) => arg(name, defaultValue !== undefined ? { defaultValue } : {})),
+  fc
+    .tuple(word, fc.option(fc.oneof(word, fc.nat({ max: 65535 })), { nil: undefined }))
+    .map(([name, group]) => user(name, group !== undefined ? { group } : {})),
+  fc.array(anyPath, { minLength: 1, maxLength: 2 }).map((paths) => volume(paths)),
+  fc.constantFrom(["/bin/bash", "-c"], ["/bin/sh", "-ec"]).map((c) => shell(c)),
+  fc
+    .tuple(
+      command,
+      fc.record({ interval: fc.constant("30s"), retries: fc.nat(5) }, { requiredKeys: [] }),
+    )
+    .map(([c, options]) => healthcheck(c, options)),
+  fc.constant(null).map(() => healthcheckNone()),
+  fc.constantFrom("SIGTERM", "SIGINT", 9).map((signal) => stopSignal(signal)),
+  fc
+    .oneof(
+      shellCommand.map((c) => run(c)),
+      plainPath.map((p) => copy(p, "/app/")),
+    )
+    .map((inner) => onbuild(inner)),
+  lines.map((text) => comment(text)),
+  fc.constant(null).map(() => blank()),
+);
+
+// Attach a comment to some instructions through the factories' comment option
+const commented = (instruction: fc.Arbitrary<InstructionResult>) =>
+  fc
+    .tuple(instruction, fc.option(lines, { nil: undefined }))
+    .map(([result, text]) =>
+      result.map((value) =>
+        text !== undefined && value.type !== "COMMENT" && value.type !== "BLANK"
+          ? { ...value, comment: text }
+          : value,
+      ),
+    );
+
+const fromInstruction = (as: string | undefined): fc.Arbitrary<InstructionResult> =>
+  fc
+    .tuple(
+      fc
+        .tuple(
+          identifier(lowercase, [...lowercase, ...digits], 7),
+          fc.option(identifier(digits, [...digits, "."], 4), { nil: undefined }),
+        )
+        .map(([name, tag]) => (tag !== undefined ? `${name}:${tag}` : name)),
+      fc.option(fc.constant("linux/amd64"), { nil: undefined }),
+    )
+    .map(([image, platform]) => from(image, { ...(as !== undefined ? { as } : {}), platform }));
+
+const directives = fc.subarray([
+  syntaxDirective("docker/dockerfile:1.7"),
+  escapeDirective("`"),
+  checkDirective({ skip: ["JSONArgsRecommended"], error: true }),
+]);
+
+const singleStage = fc
+  .tuple(
+    fc.array(
+      argName.map((name) => arg(name)),
+      { maxLength: 2 },
+    ),
+    fromInstruction(undefined),
+    fc.array(commented(bodyInstruction), { maxLength: 8 }),
+    directives,
+  )
+  .map(([args, fromResult, body, directiveResults]) =>
+    containerfile([...args, fromResult, ...body], { directives: directiveResults }),
+  );
+
+const multiStage = fc
+  .tuple(
+    fc.array(
+      fc.tuple(
+        fc.option(word, { nil: undefined }),
+        fc.array(commented(bodyInstruction), { maxLength: 5 }),
+      ),
+      { minLength: 2, maxLength: 3 },
+    ),
+    directives,
+  )
+  .chain(([stages, directiveResults]) =>
+    fc.tuple(...stages.map(([as]) => fromInstruction(as))).map((fromResults) =>
+      containerfile(
+        stages.map(([as, body], i) =>
+          stage(as ?? `stage-${i}`, [fromResults[i] as InstructionResult, ...body]),
+        ),
+        { directives: directiveResults },
+      ),
+    ),
+  );
+
+// Generator for valid containerfiles; invalid combinations are filtered out
+const validContainerfile: fc.Arbitrary<Containerfile> = fc
+  .oneof(singleStage, multiStage)
+  .filter((result) => result.isOk())
+  .map((result) => result._unsafeUnwrap());
+
+describe("render/parse roundtrip properties", () => {
+  it("keeps a directive-shaped leading comment a comment", () => {
+    const original = containerfile([
+      comment("syntax=evil/frontend"),
+      from("alpine", { comment: "escape=`" }),
+    ])._unsafeUnwrap();
+    const parsed = parse(render(original))._unsafeUnwrap();
+    expect(parsed.directives).toEqual([]);
+    expect(equals(parsed, original)).toBe(true);
+  });
+
+  it("parse(render(cf)) equals cf", () => {
+    fc.assert(
+      fc.property(validContainerfile, (original) => {
+        const rendered = render(original);
+        const parsed = parse(rendered);
+        expect(parsed.isOk()).toBe(true);
+        if (parsed.isOk()) {
+          expect(equals(parsed.value, original)).toBe(true);
+        }
+      }),
+    );
+  });
+
+  it("rendering is stable after one roundtrip", () => {
+    fc.assert(
+      fc.property(validContainerfile, (original) => {
+        const rendered = render(original);
+        const parsed = parse(rendered);
+        expect(parsed.isOk()).toBe(true);
+        if (parsed.isOk()) {
+          const reparsed = parse(render(parsed.value));
+          expect(reparsed.isOk()).toBe(true);
+          if (reparsed.isOk()) {
+            expect(reparsed.value).toEqual(parsed.value);
+          }
+        }
+      }),
+    );
+  });
+});
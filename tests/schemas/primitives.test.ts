@@ -9,6 +9,14 @@ import {
   validateNonEmptyString,
   validateStringArray,
   validateOptional,
+  validateUserIdentifier,
+  validateDuration,
+  validateNonNegativeInteger,
+  validateSignal,
+  validateFileMode,
+  validateChecksum,
+  validateBoolean,
+  validateOneOf,
 } from "../../src/schemas/primitives.js";
 
 describe("validatePort", () => {
@@ -240,3 +248,198 @@ describe("validateOptional", () => {
     expect(result.isErr()).toBe(true);
   });
 });
+
+describe("validateUserIdentifier", () => {
+  it("accepts user and group names", () => {
+    expect(validateUserIdentifier("root").isOk()).toBe(true);
+    expect(validateUserIdentifier("www-data").isOk()).toBe(true);
+    expect(validateUserIdentifier("_apt").isOk()).toBe(true);
+    expect(validateUserIdentifier("ContainerUser").isOk()).toBe(true);
+  });
+
+  it("accepts numeric IDs as numbers or strings", () => {
+    expect(validateUserIdentifier(0).isOk()).toBe(true);
+    expect(validateUserIdentifier(65534).isOk()).toBe(true);
+    expect(validateUserIdentifier("1000").isOk()).toBe(true);
+  });
+
+  it("normalizes numeric IDs to strings", () => {
+    const result = validateUserIdentifier(1000);
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toBe("1000");
+    }
+  });
+
+  it("accepts variable references", () => {
+    expect(validateUserIdentifier("$USER").isOk()).toBe(true);
+    expect(validateUserIdentifier("${APP_UID}").isOk()).toBe(true);
+  });
+
+  it("rejects out-of-range and non-integer IDs", () => {
+    expect(validateUserIdentifier(-1).isErr()).toBe(true);
+    expect(validateUserIdentifier(1.5).isErr()).toBe(true);
+    expect(validateUserIdentifier(4294967295).isErr()).toBe(true);
+    expect(validateUserIdentifier("4294967295").isErr()).toBe(true);
+  });
+
+  it("rejects invalid names", () => {
+    expect(validateUserIdentifier("").isErr()).toBe(true);
+    expect(validateUserIdentifier("node:node").isErr()).toBe(true);
+    expect(validateUserIdentifier("has space").isErr()).toBe(true);
+    expect(validateUserIdentifier(null).isErr()).toBe(true);
+  });
+
+  it("includes field name in error", () => {
+    const result = validateUserIdentifier("bad:name", "group");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("group");
+    }
+  });
+});
+
+describe("validateDuration", () => {
+  it("accepts single-unit durations", () => {
+    expect(validateDuration("30s").isOk()).toBe(true);
+    expect(validateDuration("500ms").isOk()).toBe(true);
+    expect(validateDuration("2h").isOk()).toBe(true);
+    expect(validateDuration("1.5s").isOk()).toBe(true);
+  });
+
+  it("accepts compound durations", () => {
+    expect(validateDuration("1m30s").isOk()).toBe(true);
+    expect(validateDuration("1h2m3s4ms").isOk()).toBe(true);
+  });
+
+  it("rejects durations without units", () => {
+    expect(validateDuration("30").isErr()).toBe(true);
+    expect(validateDuration("").isErr()).toBe(true);
+  });
+
+  it("rejects malformed durations", () => {
+    expect(validateDuration("30 s").isErr()).toBe(true);
+    expect(validateDuration("-5s").isErr()).toBe(true);
+    expect(validateDuration("5d").isErr()).toBe(true);
+    expect(validateDuration(30).isErr()).toBe(true);
+  });
+
+  it("includes field name in error", () => {
+    const result = validateDuration("bad", "interval");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("interval");
+    }
+  });
+});
+
+describe("validateNonNegativeInteger", () => {
+  it("accepts zero and positive integers", () => {
+    expect(validateNonNegativeInteger(0).isOk()).toBe(true);
+    expect(validateNonNegativeInteger(42).isOk()).toBe(true);
+  });
+
+  it("rejects negative, fractional and non-number values", () => {
+    expect(validateNonNegativeInteger(-1).isErr()).toBe(true);
+    expect(validateNonNegativeInteger(1.5).isErr()).toBe(true);
+    expect(validateNonNegativeInteger("3").isErr()).toBe(true);
+  });
+});
+
+describe("validateSignal", () => {
+  it("accepts signal names with and without SIG prefix", () => {
+    expect(validateSignal("SIGTERM").isOk()).toBe(true);
+    expect(validateSignal("TERM").isOk()).toBe(true);
+    expect(validateSignal("SIGUSR1").isOk()).toBe(true);
+    expect(validateSignal("sigint").isOk()).toBe(true);
+  });
+
+  it("accepts real-time signals", () => {
+    expect(validateSignal("SIGRTMIN").isOk()).toBe(true);
+    expect(validateSignal("SIGRTMIN+3").isOk()).toBe(true);
+    expect(validateSignal("RTMAX-1").isOk()).toBe(true);
+  });
+
+  it("accepts signal numbers in range", () => {
+    expect(validateSignal(1).isOk()).toBe(true);
+    expect(validateSignal(64).isOk()).toBe(true);
+    expect(validateSignal("15").isOk()).toBe(true);
+  });
+
+  it("accepts variable references", () => {
+    expect(validateSignal("${STOP_SIGNAL}").isOk()).toBe(true);
+  });
+
+  it("rejects unknown names and out-of-range numbers", () => {
+    expect(validateSignal("SIGFOO").isErr()).toBe(true);
+    expect(validateSignal("SIGRTMIN+16").isErr()).toBe(true);
+    expect(validateSignal(0).isErr()).toBe(true);
+    expect(validateSignal(65).isErr()).toBe(true);
+    expect(validateSignal("99").isErr()).toBe(true);
+    expect(validateSignal(2.5).isErr()).toBe(true);
+    expect(validateSignal("").isErr()).toBe(true);
+  });
+
+  it("includes field name in error", () => {
+    const result = validateSignal("NOPE", "stopSignal");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("stopSignal");
+    }
+  });
+});
+
+describe("validateFileMode", () => {
+  it("accepts three and four digit octal modes", () => {
+    expect(validateFileMode("644").isOk()).toBe(true);
+    expect(validateFileMode("0755").isOk()).toBe(true);
+  });
+
+  it("rejects non-octal and numeric values", () => {
+    expect(validateFileMode("0789").isErr()).toBe(true);
+    expect(validateFileMode("u+x").isErr()).toBe(true);
+    expect(validateFileMode(755).isErr()).toBe(true);
+  });
+});
+
+describe("validateChecksum", () => {
+  it("accepts sha256 digests", () => {
+    expect(validateChecksum(`sha256:${"a".repeat(64)}`).isOk()).toBe(true);
+  });
+
+  it("rejects other algorithms, lengths and casing", () => {
+    expect(validateChecksum(`sha512:${"a".repeat(64)}`).isErr()).toBe(true);
+    expect(validateChecksum(`sha256:${"a".repeat(63)}`).isErr()).toBe(true);
+    expect(validateChecksum(`sha256:${"A".repeat(64)}`).isErr()).toBe(true);
+    expect(validateChecksum("a".repeat(64)).isErr()).toBe(true);
+  });
+});
+
+describe("validateBoolean", () => {
+  it("accepts booleans", () => {
+    expect(validateBoolean(true).isOk()).toBe(true);
+    expect(validateBoolean(false).isOk()).toBe(true);
+  });
+
+  it("rejects other values", () => {
+    expect(validateBoolean("true").isErr()).toBe(true);
+    expect(validateBoolean(1).isErr()).toBe(true);
+  });
+});
+
+describe("validateOneOf", () => {
+  const validateSharing = validateOneOf(["shared", "private", "locked"] as const);
+
+  it("accepts allowed values", () => {
+    expect(validateSharing("locked").isOk()).toBe(true);
+  });
+
+  it("rejects other values and lists the allowed ones", () => {
+    const result = validateSharing("exclusive", "sharing");
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error[0].field).toBe("sharing");
+      expect(result.error[0].message).toContain('"locked"');
+    }
+  });
+});
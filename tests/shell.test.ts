@@ -0,0 +1,107 @@
+// pattern: Imperative Shell
+
+import { describe, it, expect } from "vitest";
+import { from, run, shell, cmd, workdir } from "../src/instructions.js";
+import {
+  DEFAULT_SHELL,
+  acceptsCommandString,
+  resolveActiveShells,
+  validateShellForms,
+} from "../src/shell.js";
+import type { Instruction } from "../src/types.js";
+
+function instructionsOf(
+  results: ReadonlyArray<ReturnType<typeof from | typeof run | typeof shell | typeof cmd>>,
+): Array<Instruction> {
+  return results.map((result) => result._unsafeUnwrap());
+}
+
+describe("acceptsCommandString()", () => {
+  it("accepts POSIX shells ending in -c", () => {
+    expect(acceptsCommandString(["/bin/sh", "-c"])).toBe(true);
+    expect(acceptsCommandString(["/bin/bash", "-o", "pipefail", "-c"])).toBe(true);
+    expect(acceptsCommandString(["bash", "-euxc"])).toBe(true);
+  });
+
+  it("rejects POSIX shells without a command flag", () => {
+    expect(acceptsCommandString(["/bin/bash"])).toBe(false);
+    expect(acceptsCommandString(["/bin/sh", "-e"])).toBe(false);
+  });
+
+  it("recognises Windows shells", () => {
+    expect(acceptsCommandString(["cmd", "/S", "/C"])).toBe(true);
+    expect(acceptsCommandString(["powershell", "-Command"])).toBe(true);
+    expect(acceptsCommandString(["C:\\Program Files\\PowerShell\\7\\pwsh.exe", "-c"])).toBe(true);
+    expect(acceptsCommandString(["cmd.exe"])).toBe(false);
+  });
+
+  it("returns null for unknown executables", () => {
+    expect(acceptsCommandString(["/usr/bin/python3"])).toBeNull();
+  });
+});
+
+describe("resolveActiveShells()", () => {
+  it("applies SHELL to following instructions and resets at FROM", () => {
+    const instructions = instructionsOf([
+      from("debian"),
+      shell(["/bin/bash", "-c"]),
+      run("echo one"),
+      from("alpine"),
+      run("echo two"),
+    ]);
+
+    expect(resolveActiveShells(instructions)).toEqual([
+      DEFAULT_SHELL,
+      DEFAULT_SHELL,
+      ["/bin/bash", "-c"],
+      DEFAULT_SHELL,
+      DEFAULT_SHELL,
+    ]);
+  });
+});
+
+describe("validateShellForms()", () => {
+  it("accepts exec-form commands under any shell", () => {
+    const instructions = instructionsOf([from("debian"), shell(["/bin/bash"]), run(["ls"])]);
+    expect(validateShellForms(instructions).isOk()).toBe(true);
+  });
+
+  it("rejects shell-form commands when the active shell takes no command string", () => {
+    const instructions = instructionsOf([
+      from("debian"),
+      shell(["/bin/bash"]),
+      run("echo hello"),
+      cmd("echo done"),
+    ]);
+    const result = validateShellForms(instructions);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual([
+        "instructions[2].command",
+        "instructions[3].command",
+      ]);
+    }
+  });
+
+  it("treats heredoc scripts without an interpreter as shell form", () => {
+    const instructions = instructionsOf([
+      from("debian"),
+      shell(["/bin/bash"]),
+      run({ body: "echo hi" }),
+      run({ body: "print(1)", interpreter: "/usr/bin/python3" }),
+    ]);
+    const result = validateShellForms(instructions);
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.map((e) => e.field)).toEqual(["instructions[2].command"]);
+    }
+  });
+
+  it("ignores instructions that are not commands", () => {
+    const instructions = [
+      ...instructionsOf([from("debian"), shell(["/bin/bash"])]),
+      workdir("/app")._unsafeUnwrap(),
+    ];
+    expect(validateShellForms(instructions).isOk()).toBe(true);
+  });
+});